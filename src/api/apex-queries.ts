@@ -0,0 +1,172 @@
+import { ApexQuery } from './api-models';
+import { ParseQueryConfig } from '../parser/parser';
+import { parseQuery } from '../parser/visitor';
+import { getLineStarts, getSourceLocation } from '../utils';
+
+const IDENTIFIER_CHAR = /[a-zA-Z0-9_]/;
+const STATIC_QUERY_START = /\[\s*SELECT\b/iy;
+const DATABASE_QUERY_START = /Database\s*\.\s*query\s*\(/iy;
+const APEX_STRING_ESCAPES: { [char: string]: string } = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r' };
+
+/**
+ * Finds every static query, e.x. `[SELECT Id FROM Account]`, and every string literal passed to `Database.query()`
+ * in an Apex class or trigger and parses each query with apex bind variables allowed
+ * Queries built from variables cannot be resolved and are not returned, comments and other strings are ignored
+ * @param source apex source code
+ * @param [options] apex bind variables are always allowed
+ * @returns queries in the order they appear in the source
+ */
+export function extractQueriesFromApex(source: string, options?: ParseQueryConfig): ApexQuery[] {
+  const lineStarts = getLineStarts(source);
+  const output: ApexQuery[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const nextChar = source[position + 1];
+    if (char === '/' && nextChar === '/') {
+      position = skipLineComment(source, position);
+    } else if (char === '/' && nextChar === '*') {
+      position = skipBlockComment(source, position);
+    } else if (char === "'") {
+      position = getStringLiteral(source, position).endOffset + 1;
+    } else if (char === '[' && matchesAt(STATIC_QUERY_START, source, position)) {
+      const endOffset = getStaticQueryEnd(source, position);
+      // whitespace between the brackets and the query is not included
+      const text = source.substring(position + 1, endOffset);
+      const soql = text.trim();
+      const startOffset = position + 1 + text.length - text.trimLeft().length;
+      output.push(getApexQuery('STATIC', soql, startOffset, startOffset + soql.length - 1, lineStarts, options));
+      position = endOffset + 1;
+    } else if (!IDENTIFIER_CHAR.test(source[position - 1] || '') && matchesAt(DATABASE_QUERY_START, source, position)) {
+      position = DATABASE_QUERY_START.lastIndex;
+      const literal = getConcatenatedStringLiteral(source, position);
+      if (literal) {
+        output.push(getApexQuery('DYNAMIC', literal.value, literal.startOffset, literal.endOffset, lineStarts, options));
+        position = literal.endOffset + 1;
+      }
+    } else {
+      position++;
+    }
+  }
+
+  return output;
+}
+
+function getApexQuery(
+  type: ApexQuery['type'],
+  soql: string,
+  startOffset: number,
+  endOffset: number,
+  lineStarts: number[],
+  options?: ParseQueryConfig,
+): ApexQuery {
+  const output: ApexQuery = {
+    type,
+    soql,
+    range: getSourceLocation(startOffset, endOffset, lineStarts),
+  };
+  try {
+    output.query = parseQuery(soql, { ...options, allowApexBindVariables: true });
+  } catch (ex) {
+    output.error = ex;
+  }
+  return output;
+}
+
+function matchesAt(regex: RegExp, source: string, position: number): boolean {
+  regex.lastIndex = position;
+  return regex.test(source);
+}
+
+function skipLineComment(source: string, position: number): number {
+  const endOffset = source.indexOf('\n', position);
+  return endOffset === -1 ? source.length : endOffset + 1;
+}
+
+function skipBlockComment(source: string, position: number): number {
+  const endOffset = source.indexOf('*/', position + 2);
+  return endOffset === -1 ? source.length : endOffset + 2;
+}
+
+/**
+ * Returns the offset of the closing bracket of a static query
+ * Brackets within strings and nested brackets, such as :accountIds[0], are skipped
+ * If the query is not closed, the end of the source is returned
+ */
+function getStaticQueryEnd(source: string, position: number): number {
+  let depth = 0;
+  while (position < source.length) {
+    const char = source[position];
+    if (char === "'") {
+      position = getStringLiteral(source, position).endOffset;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        return position;
+      }
+    }
+    position++;
+  }
+  return source.length;
+}
+
+/**
+ * Returns the unescaped value of the string literal that starts at the provided position
+ * endOffset is the offset of the closing quote, or the end of the line if the string is not closed
+ */
+function getStringLiteral(source: string, position: number): { value: string; startOffset: number; endOffset: number } {
+  let value = '';
+  let currPosition = position + 1;
+  while (currPosition < source.length && source[currPosition] !== "'" && source[currPosition] !== '\n') {
+    if (source[currPosition] === '\\' && currPosition + 1 < source.length) {
+      currPosition++;
+      value += APEX_STRING_ESCAPES[source[currPosition]] || source[currPosition];
+    } else {
+      value += source[currPosition];
+    }
+    currPosition++;
+  }
+  return { value, startOffset: position, endOffset: currPosition };
+}
+
+/**
+ * Returns the value of the first argument of a method call if the argument only consists of string literals
+ * e.x. `'SELECT Id ' + 'FROM Account'` -> SELECT Id FROM Account
+ * The range spans from the first quote of the first literal to the last quote of the last literal
+ */
+function getConcatenatedStringLiteral(
+  source: string,
+  position: number,
+): { value: string; startOffset: number; endOffset: number } | undefined {
+  let output: { value: string; startOffset: number; endOffset: number } | undefined;
+  position = skipWhitespaceAndComments(source, position);
+  while (source[position] === "'") {
+    const literal = getStringLiteral(source, position);
+    output = output ? { ...output, value: `${output.value}${literal.value}`, endOffset: literal.endOffset } : literal;
+    position = skipWhitespaceAndComments(source, literal.endOffset + 1);
+    if (source[position] !== '+') {
+      break;
+    }
+    position = skipWhitespaceAndComments(source, position + 1);
+  }
+  // any other expression, such as a variable or a method call, means the query cannot be determined
+  return output && (source[position] === ')' || source[position] === ',') ? output : undefined;
+}
+
+function skipWhitespaceAndComments(source: string, position: number): number {
+  while (position < source.length) {
+    if (/\s/.test(source[position])) {
+      position++;
+    } else if (source.startsWith('//', position)) {
+      position = skipLineComment(source, position);
+    } else if (source.startsWith('/*', position)) {
+      position = skipBlockComment(source, position);
+    } else {
+      break;
+    }
+  }
+  return position;
+}
@@ -1,3 +1,5 @@
+import { SoqlSyntaxError } from '../parser/errors';
+
 export type LogicalOperator = 'AND' | 'OR';
 export type Operator = '=' | '!=' | '<=' | '>=' | '>' | '<' | 'LIKE' | 'IN' | 'NOT IN' | 'INCLUDES' | 'EXCLUDES';
 export type FieldTypeOfConditionType = 'WHEN' | 'ELSE';
@@ -5,6 +7,8 @@ export type GroupSelector = 'ABOVE' | 'AT' | 'BELOW' | 'ABOVE_OR_BELOW';
 export type LogicalPrefix = 'NOT';
 export type ForClause = 'VIEW' | 'UPDATE' | 'REFERENCE';
 export type UpdateClause = 'TRACKING' | 'VIEWSTAT';
+export type AccessLevel = 'USER_MODE' | 'SYSTEM_MODE';
+export type SearchGroup = 'ALL' | 'NAME' | 'EMAIL' | 'PHONE' | 'SIDEBAR';
 export type LiteralType =
   | 'STRING'
   | 'INTEGER'
@@ -18,10 +22,13 @@ export type LiteralType =
   | 'DATE_LITERAL'
   | 'DATE_N_LITERAL'
   | 'APEX_BIND_VARIABLE';
-export type FieldType = Field | FieldFunctionExpression | FieldRelationship | FieldSubquery | FieldTypeOf;
+export type FieldType = Field | FieldFunctionExpression | FieldRelationship | FieldSubquery | FieldTypeOf | FieldFieldsFunction;
+export type FieldsFunctionScope = 'ALL' | 'STANDARD' | 'CUSTOM';
 export type OrderByCriterion = 'ASC' | 'DESC';
 export type NullsOrder = 'FIRST' | 'LAST';
 export type GroupByType = 'CUBE' | 'ROLLUP';
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+export type IndexType = 'STANDARD' | 'CUSTOM';
 export type DateLiteral =
   | 'YESTERDAY'
   | 'TODAY'
@@ -77,6 +84,7 @@ export interface Field {
   objectPrefix?: string; // required if object is aliased
   rawValue?: string; // only included if objectPrefix is defined
   alias?: string;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface FieldFunctionExpression {
@@ -86,6 +94,14 @@ export interface FieldFunctionExpression {
   alias?: string;
   isAggregateFn?: boolean; // not required for compose, will be populated if SOQL is parsed
   rawValue?: string; // not required for compose, will be populated if SOQL is parsed
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+}
+
+export interface FieldFieldsFunction {
+  type: 'FieldFieldsFunction';
+  scope: FieldsFunctionScope;
+  rawValue?: string; // not required for compose, will be populated if SOQL is parsed
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface FieldRelationship {
@@ -95,17 +111,20 @@ export interface FieldRelationship {
   objectPrefix?: string; // required if object is aliased
   rawValue?: string; // not required for compose, will be populated if SOQL is parsed with the raw value of the entire field
   alias?: string;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface FieldSubquery {
   type: 'FieldSubquery';
   subquery: Subquery;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface FieldTypeOf {
   type: 'FieldTypeof';
   field: string;
   conditions: FieldTypeOfCondition[];
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface FieldTypeOfCondition {
@@ -119,14 +138,26 @@ export interface QueryBase {
   sObjectAlias?: string;
   usingScope?: string;
   where?: WhereClause;
-  limit?: number;
-  offset?: number;
-  groupBy?: GroupByClause;
+  whereGroup?: ConditionGroup; // used for compose if where is not provided, will be populated if SOQL is parsed with includeConditionGroups=true
+  limit?: number | ApexBindVariable;
+  offset?: number | ApexBindVariable;
+  groupBy?: GroupByClause[] | LegacyGroupByClause; // LegacyGroupByClause will be populated if SOQL is parsed with legacyGroupBy=true
+  having?: HavingClause;
+  havingGroup?: ConditionGroup; // used for compose if having is not provided, will be populated if SOQL is parsed with includeConditionGroups=true
   orderBy?: OrderByClause | OrderByClause[];
   withDataCategory?: WithDataCategoryClause;
   withSecurityEnforced?: boolean;
+  withAccessLevel?: AccessLevel;
+  withRecordVisibility?: WithRecordVisibilityClause;
   for?: ForClause;
   update?: UpdateClause;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+  clauseLocations?: ClauseLocations; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+}
+
+export interface ApexBindVariable {
+  type: 'ApexBindVariable';
+  value: string; // apex expression without the leading colon, e.x. pageSize or settings.Page_Size__c
 }
 
 export interface Query extends QueryBase {
@@ -138,6 +169,41 @@ export interface Subquery extends QueryBase {
   sObjectPrefix?: string[];
 }
 
+/**
+ * SOSL search
+ * e.x. FIND {Acme*} IN NAME FIELDS RETURNING Account(Id, Name WHERE Industry = 'Tech' ORDER BY Name LIMIT 10), Contact(Id) LIMIT 50
+ */
+export interface Search {
+  searchTerm: string; // includes the surrounding braces or quotes, if neither are included the term will be wrapped in braces on compose
+  searchGroup?: SearchGroup;
+  returning?: SearchReturningSpec[];
+  withDivision?: string;
+  withDataCategory?: WithDataCategoryClause;
+  withHighlight?: boolean;
+  withMetadata?: string;
+  withNetwork?: string[]; // composed as WITH NETWORK IN (...) if there is more than one network id
+  withPricebookId?: string;
+  withSnippet?: WithSnippetClause;
+  withSpellCorrection?: boolean;
+  limit?: number | ApexBindVariable;
+  update?: UpdateClause;
+}
+
+export interface SearchReturningSpec {
+  sObject: string;
+  fields?: FieldType[]; // only fields and functions are supported, such as toLabel(Status)
+  where?: WhereClause;
+  whereGroup?: ConditionGroup; // used for compose if where is not provided, will be populated if SOSL is parsed with includeConditionGroups=true
+  usingListView?: string;
+  orderBy?: OrderByClause | OrderByClause[];
+  limit?: number | ApexBindVariable;
+  offset?: number | ApexBindVariable;
+}
+
+export interface WithSnippetClause {
+  targetLength?: number;
+}
+
 export interface WhereClause {
   left: Condition & ValueQuery;
   right?: WhereClause;
@@ -151,13 +217,26 @@ export interface ValueQuery {
 export interface Condition {
   openParen?: number;
   closeParen?: number;
+  negatedParens?: number[]; // zero-based index of each open paren that is prefixed with NOT, e.x. NOT (A OR B) has openParen=1 and negatedParens=[0]
   logicalPrefix?: LogicalPrefix;
   field?: string;
   fn?: FunctionExp;
   operator: Operator;
   value?: string | string[];
-  literalType?: LiteralType | LiteralType[]; // If populated with STRING on compose, the value(s) will be wrapped in "'" if they are not already. - All other values ignored
+  literalType?: LiteralType | LiteralType[]; // If populated with STRING on compose, the value(s) will be escaped and wrapped in "'" if they are not already. - All other values ignored
   dateLiteralVariable?: number | number[]; // not required for compose, will be populated if SOQL is parsed
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+}
+
+/**
+ * Nested representation of a WHERE or HAVING clause where each group has a single logical operator
+ * e.x. `A AND (B OR NOT C)` is represented as AND(A, OR(B, NOT(C)))
+ * A negated group with a single condition is equivalent to the condition with a logicalPrefix of NOT
+ */
+export interface ConditionGroup {
+  operator: LogicalOperator;
+  negated: boolean;
+  children: (ConditionGroup | (Condition & ValueQuery))[];
 }
 
 export interface OrderByClause {
@@ -165,12 +244,30 @@ export interface OrderByClause {
   fn?: FunctionExp;
   order?: OrderByCriterion;
   nulls?: NullsOrder;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+}
+
+export interface GroupByFieldClause {
+  field: string;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
+}
+
+export interface GroupByFnClause {
+  fn: FunctionExp;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
-export interface GroupByClause {
+export type GroupByClause = GroupByFieldClause | GroupByFnClause;
+
+/**
+ * Shape of the group by clause prior to supporting a mix of fields and functions
+ * If the clause has a mix of fields and functions, the functions are included in `field` as their raw value
+ */
+export interface LegacyGroupByClause {
   field?: string | string[];
   fn?: FunctionExp;
   having?: HavingClause;
+  loc?: SourceLocation; // not required for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface HavingClause {
@@ -185,6 +282,7 @@ export interface FunctionExp {
   alias?: string;
   parameters?: (string | FunctionExp)[]; // only used for compose fields if useRawValueForFn=false, will be populated if SOQL is parsed
   isAggregateFn?: boolean; // not used for compose, will be populated if SOQL is parsed
+  loc?: SourceLocation; // not used for compose, will be populated if SOQL is parsed with includeLocations=true
 }
 
 export interface WithDataCategoryClause {
@@ -196,3 +294,227 @@ export interface WithDataCategoryCondition {
   selector: GroupSelector;
   parameters: string[];
 }
+
+export interface WithRecordVisibilityClause {
+  maxDescriptorPerRecord?: number;
+  supportsDomains?: boolean;
+  supportsDelegates?: boolean;
+}
+
+/**
+ * Location of a node within the parsed SOQL query
+ * Offsets are zero-based and lines/columns are one-based, endOffset and endColumn are inclusive
+ */
+export interface SourceLocation {
+  startOffset: number;
+  endOffset: number;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface ClauseLocations {
+  select?: SourceLocation;
+  from?: SourceLocation;
+  usingScope?: SourceLocation;
+  where?: SourceLocation;
+  with?: SourceLocation[];
+  groupBy?: SourceLocation;
+  having?: SourceLocation;
+  orderBy?: SourceLocation;
+  limit?: SourceLocation;
+  offset?: SourceLocation;
+  for?: SourceLocation;
+  update?: SourceLocation;
+}
+
+export interface SoqlDiagnostic {
+  severity: DiagnosticSeverity;
+  name: string; // LexingError, OmittedNode or the name of the parsing exception, such as MismatchedTokenException
+  message: string;
+  range: SourceLocation;
+  expectedTokens: string[]; // name of each token type that would have been valid at this position
+  foundToken?: DiagnosticToken;
+}
+
+export interface DiagnosticToken {
+  image: string;
+  tokenType?: string; // not populated for lexing errors
+}
+
+export interface QueryWithDiagnostics {
+  query?: Partial<Query>; // not populated if the query was not able to be recovered
+  diagnostics: SoqlDiagnostic[];
+}
+
+export interface ApexQuery {
+  type: 'STATIC' | 'DYNAMIC'; // STATIC for [SELECT ...] and DYNAMIC for a string literal passed to Database.query()
+  soql: string; // for dynamic queries, the concatenated value of the string literals with escape sequences removed
+  range: SourceLocation; // position of the query within the apex source, excluding the brackets of a static query
+  query?: Query; // not populated if the query was not able to be parsed
+  error?: SoqlSyntaxError; // position of the error is relative to the soql, not the apex source
+}
+
+export interface DebugLogQuery {
+  soql: string;
+  line: number; // line of the apex code that executed the query, 0 if not included in the log
+  logLine: number; // line of the SOQL_EXECUTE_BEGIN event within the debug log
+  aggregations: number;
+  rows?: number; // not populated if there was no matching SOQL_EXECUTE_END event
+  durationMs?: number; // not populated if there was no matching SOQL_EXECUTE_END event
+  query?: Query; // not populated if the query was not able to be parsed
+  error?: SoqlSyntaxError;
+  objects: string[]; // queried object followed by the relationship of each subquery and the objects of any semi-joins or anti-joins
+  fields: string[];
+  fingerprint: string; // query with all condition values replaced with ?, used to group repeated queries
+}
+
+export interface DebugLogQueryGroup {
+  fingerprint: string;
+  count: number;
+  totalRows: number;
+  totalDurationMs: number;
+  lines: number[]; // apex lines that executed the query
+  queries: DebugLogQuery[];
+}
+
+export interface DebugLogAnalysis {
+  queries: DebugLogQuery[];
+  groups: DebugLogQueryGroup[];
+}
+
+export type QueryValidationCode =
+  | 'OFFSET_TOO_LARGE'
+  | 'FOR_UPDATE_WITH_ORDER_BY'
+  | 'NON_GROUPED_FIELD_WITH_AGGREGATE'
+  | 'HAVING_WITHOUT_GROUP_BY'
+  | 'TOO_MANY_SUBQUERIES'
+  | 'RELATIONSHIP_TOO_DEEP'
+  | 'NESTED_SUBQUERY'
+  | 'COUNT_WITH_OTHER_FIELDS'
+  | 'UNKNOWN_OBJECT'
+  | 'UNKNOWN_FIELD'
+  | 'UNKNOWN_RELATIONSHIP'
+  | 'UNKNOWN_CHILD_RELATIONSHIP'
+  | 'INVALID_TYPEOF_TYPE'
+  | 'FIELD_NOT_FILTERABLE'
+  | 'FIELD_NOT_SORTABLE'
+  | 'FIELD_NOT_GROUPABLE'
+  | 'LITERAL_TYPE_MISMATCH'
+  | 'OPERATOR_NOT_SUPPORTED'
+  | 'UNESCAPED_CONTROL_CHARACTER'
+  | 'INVALID_ESCAPE_SEQUENCE'
+  | 'UNTERMINATED_STRING_LITERAL';
+
+export interface QueryValidationDiagnostic {
+  code: QueryValidationCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  path: string; // path to the invalid property of the query, e.x. fields[2].subquery.offset or where.right.left, empty if the soql was not parsed
+  loc?: SourceLocation; // populated if the query was parsed with includeLocations=true or if the soql was not parsed
+  suggestion?: string; // closest valid name if the name is misspelled, a replacement condition if the value is the wrong type, or an escaped string literal
+}
+
+export interface QueryModelProblem {
+  path: string; // path to the invalid property of the query, e.x. where.right.left.operator or fields[3].relationships
+  message: string; // includes the path, e.x. fields[3].relationships must be non-empty
+}
+
+export type FieldReferenceClause = 'select' | 'where' | 'groupBy' | 'having' | 'orderBy';
+
+/**
+ * Field that is referenced by a query
+ * e.x. Owner.Name in `SELECT a.Owner.Name FROM Account a` has a field of Owner.Name, relationships of ['Owner'] and a fieldName of Name
+ */
+export interface FieldReference {
+  sObject: string; // object of the query or semi-join query, or the child relationship name for subqueries, e.x. Contacts
+  field: string; // relationship path from sObject without the object alias, e.x. Owner.Name
+  relationships: string[]; // empty if the field is on sObject
+  fieldName: string; // name of the field on the last related object
+  clause: FieldReferenceClause;
+  subqueryDepth: number; // 0 for the root query, 1 for a subquery or semi-join query of the root query, and so on
+  path: string; // path to the node that references the field, e.x. fields[2].subquery.where.left or orderBy.fn.parameters[0]
+  typeofObjectType?: string; // object type of the TYPEOF WHEN condition, not populated for ELSE
+}
+
+/**
+ * Properties of the describe result of an object that are used by the SchemaValidator
+ * The full describe result from the describe API can be provided as-is
+ */
+export interface DescribeSObjectResult {
+  name: string;
+  fields: DescribeFieldResult[];
+  childRelationships?: DescribeChildRelationship[];
+}
+
+export interface DescribeFieldResult {
+  name: string;
+  type: string; // e.x. string, boolean, reference, datetime, multipicklist
+  relationshipName?: string | null; // populated for reference fields
+  referenceTo?: string[]; // populated for reference fields, includes more than one object for polymorphic relationships
+  filterable?: boolean; // if false, the field cannot be used in the WHERE clause
+  sortable?: boolean; // if false, the field cannot be used in the ORDER BY clause
+  groupable?: boolean; // if false, the field cannot be used in the GROUP BY clause
+}
+
+export interface DescribeChildRelationship {
+  childSObject: string;
+  field: string;
+  relationshipName?: string | null;
+}
+
+/**
+ * Index metadata of an object that is used to estimate the cost of a query
+ */
+export type BindParameterValue = string | number | boolean | Date | null;
+
+/**
+ * Values of apex bind variables keyed by the name of the variable without the leading colon, e.x. { accountName: 'Acme' }
+ * Lists can only be used with IN, NOT IN, INCLUDES and EXCLUDES
+ */
+export interface BindParameters {
+  [name: string]: BindParameterValue | BindParameterValue[];
+}
+
+/**
+ * Value and literal type of a condition, used for values that cannot be represented with a javascript value
+ * e.x. { value: 'LAST_N_DAYS:30', literalType: 'DATE_N_LITERAL', dateLiteralVariable: 30 } or { value: '2020-01-01', literalType: 'DATE' }
+ */
+export interface LiteralValue {
+  value: string;
+  literalType: LiteralType;
+  dateLiteralVariable?: number;
+}
+
+export type ConditionValue = BindParameterValue | LiteralValue;
+
+export interface SObjectIndexMetadata {
+  recordCount: number; // approximate number of records, including deleted records in the recycle bin
+  indexedFields?: string[]; // fields with a standard index, including lookup and master-detail fields, default=Id, Name, OwnerId, CreatedDate, SystemModstamp, RecordTypeId, LastModifiedDate
+  customIndexes?: string[]; // fields with a custom index, including external id and unique fields
+  uniqueFields?: string[]; // fields where each value matches a single record, default=Id
+  fieldSelectivity?: { [field: string]: number }; // fraction of records that match a single value of the field, e.x. 0.02
+}
+
+export interface QueryCostEstimate {
+  sObject: string;
+  recordCount: number;
+  estimatedRows: number; // number of records that are estimated to match the where clause, LIMIT is not considered
+  isSelective: boolean;
+  leadingOperation: 'INDEX' | 'TABLE_SCAN';
+  relativeCost: number; // records read by the leading operation compared to the selectivity threshold, less than 1 if the query is selective
+  conditions: ConditionCostEstimate[];
+}
+
+export interface ConditionCostEstimate {
+  field: string; // raw value of the function if the condition uses a function
+  operator: Operator;
+  path: string; // e.x. where.right.left
+  indexType?: IndexType;
+  usesIndex: boolean;
+  estimatedRows: number;
+  selectivityThreshold: number; // 0 if an index cannot be used
+  isSelective: boolean;
+  reason?: string; // why the condition is not selective
+}
@@ -0,0 +1,191 @@
+import {
+  Condition,
+  ConditionGroup,
+  ConditionValue,
+  DateLiteral,
+  DateNLiteral,
+  FunctionExp,
+  LiteralValue,
+  LogicalOperator,
+  Operator,
+  Query,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { getConditionGroupFromWhereClause, getWhereClauseFromConditionGroup } from './condition-groups';
+import { QueryBuilder } from './query-builder';
+import { getLiteralFromValue, isObject, isString } from '../utils';
+
+/**
+ * Field name or function that is compared, functions are used for HAVING clauses and date functions
+ * e.x. 'Name', 'Account.Name' or { functionName: 'COUNT', parameters: ['Id'] }
+ */
+export type ConditionField = string | FunctionExp;
+
+/**
+ * Combines conditions with AND, conditions that are combined with OR are wrapped in parentheses
+ * e.x. `and(eq('Industry', 'Technology'), or(eq('Type', 'Customer'), eq('Type', 'Partner')))`
+ * @param conditions
+ * @returns where clause, which can also be used as a having clause
+ */
+export function and(...conditions: WhereClause[]): WhereClause {
+  return combineConditions('AND', conditions);
+}
+
+/**
+ * Combines conditions with OR, conditions that are combined with AND are wrapped in parentheses
+ * @param conditions
+ * @returns where clause, which can also be used as a having clause
+ */
+export function or(...conditions: WhereClause[]): WhereClause {
+  return combineConditions('OR', conditions);
+}
+
+/**
+ * Negates a condition, conditions that are combined with AND or OR are wrapped in parentheses
+ * e.x. `not(eq('Name', 'Acme'))` -> NOT Name = 'Acme', `not(or(a, b))` -> NOT (a OR b)
+ * @param condition
+ */
+export function not(condition: WhereClause): WhereClause {
+  const group = getConditionGroupFromWhereClause(condition);
+  return getWhereClauseFromConditionGroup({ ...group, negated: !group.negated });
+}
+
+export function eq(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '=', value);
+}
+
+export function ne(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '!=', value);
+}
+
+export function lt(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '<', value);
+}
+
+export function lte(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '<=', value);
+}
+
+export function gt(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '>', value);
+}
+
+export function gte(field: ConditionField, value: ConditionValue): WhereClause {
+  return getWhereClause(field, '>=', value);
+}
+
+/**
+ * The pattern is escaped, but % and _ are kept as wildcards, e.x. `like('Name', 'Acme%')`
+ * @param field
+ * @param pattern
+ */
+export function like(field: ConditionField, pattern: string): WhereClause {
+  return getWhereClause(field, 'LIKE', pattern);
+}
+
+export function inList(field: ConditionField, values: ConditionValue[]): WhereClause {
+  return getWhereClause(field, 'IN', values);
+}
+
+export function notInList(field: ConditionField, values: ConditionValue[]): WhereClause {
+  return getWhereClause(field, 'NOT IN', values);
+}
+
+/**
+ * Matches multi-select picklist values that include any of the values, a value can contain multiple selections, e.x. 'AAA;BBB'
+ * @param field
+ * @param values
+ */
+export function includes(field: ConditionField, values: string[]): WhereClause {
+  return getWhereClause(field, 'INCLUDES', values);
+}
+
+export function excludes(field: ConditionField, values: string[]): WhereClause {
+  return getWhereClause(field, 'EXCLUDES', values);
+}
+
+/**
+ * Semi-join, e.x. `inSubquery('Id', select('AccountId').from('Contact'))` -> Id IN (SELECT AccountId FROM Contact)
+ * @param field
+ * @param query
+ */
+export function inSubquery(field: string, query: Query | QueryBuilder): WhereClause {
+  return { left: { field, operator: 'IN', valueQuery: query instanceof QueryBuilder ? query.toQuery() : query } };
+}
+
+/**
+ * Anti-join, e.x. `notInSubquery('Id', select('AccountId').from('Contact'))` -> Id NOT IN (SELECT AccountId FROM Contact)
+ * @param field
+ * @param query
+ */
+export function notInSubquery(field: string, query: Query | QueryBuilder): WhereClause {
+  return { left: { field, operator: 'NOT IN', valueQuery: query instanceof QueryBuilder ? query.toQuery() : query } };
+}
+
+/**
+ * Returns a date literal that can be used as the value of a condition
+ * e.x. `dateLiteral('TODAY')` -> TODAY, `dateLiteral('LAST_N_DAYS', 30)` -> LAST_N_DAYS:30
+ * @param literal
+ * @param [n] required for date literals that end with _N_ followed by a unit, such as LAST_N_DAYS
+ */
+export function dateLiteral(literal: DateLiteral): LiteralValue;
+export function dateLiteral(literal: DateNLiteral, n: number): LiteralValue;
+export function dateLiteral(literal: DateLiteral | DateNLiteral, n?: number): LiteralValue {
+  if (!/_N_/.test(literal)) {
+    return { value: literal, literalType: 'DATE_LITERAL' };
+  }
+  if (!Number.isInteger(n)) {
+    throw new Error(`${literal} requires an integer, e.x. ${literal}:30`);
+  }
+  return { value: `${literal}:${n}`, literalType: 'DATE_N_LITERAL', dateLiteralVariable: n };
+}
+
+function combineConditions(operator: LogicalOperator, conditions: WhereClause[]): WhereClause {
+  if (conditions.length === 0) {
+    throw new Error(`${operator.toLowerCase()}() requires at least one condition`);
+  }
+  // groups that use the same operator are merged so that they are not wrapped in parentheses
+  const children = conditions.reduce((output: ConditionGroup['children'], condition) => {
+    const group = getConditionGroupFromWhereClause(condition);
+    return output.concat(!group.negated && (group.operator === operator || group.children.length === 1) ? group.children : [group]);
+  }, []);
+  return getWhereClauseFromConditionGroup({ operator, negated: false, children });
+}
+
+function getWhereClause(field: ConditionField, operator: Operator, value: ConditionValue | ConditionValue[]): WhereClause {
+  const left: Condition & ValueQuery = isString(field) ? { field, operator } : { fn: field, operator };
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new Error(`${operator} requires at least one value`);
+    }
+    const literals = value.map(item => getLiteral(item, operator));
+    const literalTypes = literals.map(literal => literal.literalType);
+    left.value = literals.map(literal => literal.value);
+    // a single literal type is used if every value has the same type, which matches the output of parseQuery()
+    left.literalType = literalTypes.every(literalType => literalType === literalTypes[0]) ? literalTypes[0] : literalTypes;
+  } else {
+    const literal = getLiteral(value, operator);
+    left.value = literal.value;
+    left.literalType = literal.literalType;
+    if (literal.dateLiteralVariable !== undefined) {
+      left.dateLiteralVariable = literal.dateLiteralVariable;
+    }
+  }
+  return { left };
+}
+
+function getLiteral(value: ConditionValue, operator: Operator): LiteralValue {
+  if (isLiteralValue(value)) {
+    return value;
+  }
+  const literal = getLiteralFromValue(value);
+  if (!literal) {
+    throw new Error(`The value of a ${operator} condition must be a string, number, boolean, Date, null or a literal value`);
+  }
+  return literal;
+}
+
+function isLiteralValue(value: ConditionValue): value is LiteralValue {
+  return isObject(value) && !(value instanceof Date) && isString((value as LiteralValue).literalType);
+}
@@ -0,0 +1,233 @@
+import { Condition, ConditionGroup, HavingClause, LogicalOperator, ValueQuery, WhereClause } from './api-models';
+import { ConditionTreeNode } from '../models';
+import { getLastItem, isConditionGroup, isString } from '../utils';
+
+type WhereClauseToken = 'NOT' | '(' | ')' | LogicalOperator | (Condition & ValueQuery);
+
+interface FlattenedCondition {
+  condition: Condition & ValueQuery;
+  negated: boolean;
+  openParens: boolean[]; // true if the paren is prefixed with NOT
+  closeParen: number;
+  operator?: LogicalOperator;
+}
+
+/**
+ * Converts a WHERE or HAVING clause into a ConditionGroup, where the grouping of each condition is based on
+ * the parentheses in the clause and the precedence of the logical operators (NOT, then AND, then OR)
+ * e.x. `A OR B AND (C OR D)` -> OR(A, AND(B, OR(C, D)))
+ * @param where
+ * @returns condition group
+ */
+export function getConditionGroupFromWhereClause(where: WhereClause | HavingClause): ConditionGroup {
+  return getConditionGroupFromConditionTree(getConditionTreeFromWhereClause(where));
+}
+
+/**
+ * Converts a ConditionGroup into a WHERE or HAVING clause
+ * Every nested group with more than one child is wrapped in parentheses
+ * @param group
+ * @returns where clause, or undefined if the group does not have any conditions
+ */
+export function getWhereClauseFromConditionGroup(group: ConditionGroup): WhereClause | undefined {
+  const conditionTree = getConditionTreeFromConditionGroup(group, true);
+  return conditionTree ? getWhereClauseFromConditionTree(conditionTree) : undefined;
+}
+
+/**
+ * Flattens the condition tree into a linked list, where each condition keeps track of the parentheses around it
+ * @param conditionTree
+ */
+export function getWhereClauseFromConditionTree(conditionTree: ConditionTreeNode): WhereClause {
+  const state: { conditions: FlattenedCondition[]; openParens: boolean[] } = { conditions: [], openParens: [] };
+  flattenConditionTree(conditionTree, state);
+  return state.conditions.reduceRight((right: WhereClause | undefined, item) => {
+    const left = getCondition(item.condition);
+    if (item.openParens.length > 0) {
+      left.openParen = item.openParens.length;
+      const negatedParens = item.openParens.map((negated, i) => (negated ? i : -1)).filter(i => i >= 0);
+      if (negatedParens.length > 0) {
+        left.negatedParens = negatedParens;
+      }
+    }
+    if (item.negated) {
+      left.logicalPrefix = 'NOT';
+    }
+    if (item.closeParen > 0) {
+      left.closeParen = item.closeParen;
+    }
+    const output: WhereClause = { left };
+    if (right) {
+      output.operator = item.operator;
+      output.right = right;
+    }
+    return output;
+  }, undefined);
+}
+
+/**
+ * Redundant parentheses are removed and a negated condition is returned as a negated group with a single child
+ * The root of the tree is always returned as a group
+ * @param conditionTree
+ */
+export function getConditionGroupFromConditionTree(conditionTree: ConditionTreeNode): ConditionGroup {
+  const output = getConditionGroupOrCondition(conditionTree);
+  return isConditionGroup(output) ? output : { operator: 'AND', negated: false, children: [output] };
+}
+
+function getConditionGroupOrCondition(conditionTree: ConditionTreeNode): ConditionGroup | (Condition & ValueQuery) {
+  switch (conditionTree.type) {
+    case 'logical': {
+      return {
+        operator: conditionTree.operator,
+        negated: false,
+        children: conditionTree.children.map(child => getConditionGroupOrCondition(child)),
+      };
+    }
+    case 'paren': {
+      const child = getConditionGroupOrCondition(conditionTree.child);
+      if (!conditionTree.negated) {
+        return child;
+      }
+      if (isConditionGroup(child) && !child.negated) {
+        return { ...child, negated: true };
+      }
+      return { operator: 'AND', negated: true, children: [child] };
+    }
+    default: {
+      const condition = getCondition(conditionTree.condition);
+      return conditionTree.negated ? { operator: 'AND', negated: true, children: [condition] } : condition;
+    }
+  }
+}
+
+function getConditionTreeFromConditionGroup(group: ConditionGroup, isRoot = false): ConditionTreeNode | undefined {
+  const children = group.children
+    .map(child => (isConditionGroup(child) ? getConditionTreeFromConditionGroup(child) : getConditionTreeFromCondition(child)))
+    .filter(child => !!child);
+  if (children.length === 0) {
+    return undefined;
+  }
+  if (children.length === 1) {
+    const [child] = children;
+    if (!group.negated) {
+      return child;
+    }
+    if (child.type === 'condition' && !child.negated) {
+      return { ...child, negated: true };
+    }
+    return { type: 'paren', negated: true, child };
+  }
+  const logicalNode: ConditionTreeNode = { type: 'logical', operator: group.operator, children };
+  return isRoot && !group.negated ? logicalNode : { type: 'paren', negated: group.negated, child: logicalNode };
+}
+
+function getConditionTreeFromCondition(condition: Condition & ValueQuery): ConditionTreeNode {
+  return { type: 'condition', negated: condition.logicalPrefix === 'NOT', condition };
+}
+
+/**
+ * Parses the conditions of the where clause, in order, with each paren, NOT and logical operator as a separate token
+ * NOT has the highest precedence, followed by AND and then OR
+ * @param where
+ */
+export function getConditionTreeFromWhereClause(where: WhereClause | HavingClause): ConditionTreeNode {
+  const tokens: WhereClauseToken[] = [];
+  let current: WhereClause | HavingClause | undefined = where;
+  while (current) {
+    const { left } = current;
+    const negatedParens = left.negatedParens || [];
+    for (let i = 0; i < (left.openParen || 0); i++) {
+      if (negatedParens.includes(i)) {
+        tokens.push('NOT');
+      }
+      tokens.push('(');
+    }
+    if (left.logicalPrefix) {
+      tokens.push('NOT');
+    }
+    tokens.push(left);
+    for (let i = 0; i < (left.closeParen || 0); i++) {
+      tokens.push(')');
+    }
+    if (current.right) {
+      tokens.push(current.operator || 'AND');
+    }
+    current = current.right;
+  }
+
+  let position = 0;
+
+  const parseLogical = (operator: LogicalOperator, parseChild: () => ConditionTreeNode): ConditionTreeNode => {
+    const children = [parseChild()];
+    while (tokens[position] === operator) {
+      position++;
+      children.push(parseChild());
+    }
+    return children.length === 1 ? children[0] : { type: 'logical', operator, children };
+  };
+  const parseOr = (): ConditionTreeNode => parseLogical('OR', parseAnd);
+  const parseAnd = (): ConditionTreeNode => parseLogical('AND', parseUnary);
+  const parseUnary = (): ConditionTreeNode => {
+    const negated = tokens[position] === 'NOT';
+    if (negated) {
+      position++;
+    }
+    const token = tokens[position++];
+    if (token === '(') {
+      const child = parseOr();
+      // a missing closing paren is treated as if the group was closed at the end of the clause
+      if (tokens[position] === ')') {
+        position++;
+      }
+      return { type: 'paren', negated, child };
+    }
+    if (!token || isString(token)) {
+      throw new Error(`Expected a condition but found ${token ? `"${token}"` : 'the end of the clause'}`);
+    }
+    return { type: 'condition', negated, condition: token };
+  };
+
+  const output = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Expected the end of the clause but found "${tokens[position]}", there are more closing parens than opening parens`);
+  }
+  return output;
+}
+
+function flattenConditionTree(conditionTree: ConditionTreeNode, state: { conditions: FlattenedCondition[]; openParens: boolean[] }) {
+  switch (conditionTree.type) {
+    case 'logical': {
+      conditionTree.children.forEach((child, i) => {
+        flattenConditionTree(child, state);
+        if (i < conditionTree.children.length - 1) {
+          getLastItem(state.conditions).operator = conditionTree.operator;
+        }
+      });
+      break;
+    }
+    case 'paren': {
+      state.openParens.push(conditionTree.negated);
+      flattenConditionTree(conditionTree.child, state);
+      getLastItem(state.conditions).closeParen++;
+      break;
+    }
+    default: {
+      state.conditions.push({
+        condition: conditionTree.condition,
+        negated: conditionTree.negated,
+        openParens: state.openParens,
+        closeParen: 0,
+      });
+      state.openParens = [];
+    }
+  }
+}
+
+/**
+ * Returns a copy of the condition without any of the properties that describe its position within a where clause
+ */
+function getCondition(condition: Condition & ValueQuery): Condition & ValueQuery {
+  const { openParen, closeParen, negatedParens, logicalPrefix, ...output } = condition;
+  return output;
+}
@@ -0,0 +1,238 @@
+import { DebugLogAnalysis, DebugLogQuery, DebugLogQueryGroup, Query, Subquery, WhereClause } from './api-models';
+import { getFlattenedFields } from './public-utils';
+import { composeQuery } from '../composer/composer';
+import { ParseQueryConfig } from '../parser/parser';
+import { parseQuery } from '../parser/visitor';
+import { isAggregateQuery, isSubquery } from '../utils';
+
+// e.x. 12:00:00.123 (123456789)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Account
+const LOG_EVENT_REGEX = /^\d{1,2}:\d{2}:\d{2}\.\d+ \((\d+)\)\|([A-Z_]+)\|/;
+const LINE_NUMBER_REGEX = /^\[(\d+)\]$/;
+
+interface PendingQuery {
+  query: DebugLogQuery;
+  startNanoseconds: number;
+}
+
+/**
+ * Analyzes the SOQL queries that were executed in a Salesforce debug log
+ * Each SOQL_EXECUTE_BEGIN event is paired with the following SOQL_EXECUTE_END event to get the row count and duration,
+ * and queries are grouped by a fingerprint of the query structure to find queries that are executed repeatedly, such as in a loop
+ *
+ * The log can be provided in chunks as it is read, e.x. from a file stream
+ * const analyzer = new DebugLogAnalyzer();
+ * stream.on('data', chunk => analyzer.write(chunk));
+ * stream.on('end', () => console.log(analyzer.getAnalysis()));
+ */
+export class DebugLogAnalyzer {
+  private queries: DebugLogQuery[] = [];
+  private pendingQueries: PendingQuery[] = [];
+  // the query of the most recent event, which is continued if the query in the log spans multiple lines
+  private currQuery: DebugLogQuery | undefined;
+  private buffer = '';
+  private logLine = 0;
+  private options: ParseQueryConfig;
+
+  constructor(options: ParseQueryConfig = {}) {
+    this.options = { ...options, allowApexBindVariables: true };
+  }
+
+  /**
+   * Adds a chunk of the log, which does not need to end on a line break
+   * @param chunk
+   */
+  write(chunk: string): void {
+    const lines = `${this.buffer}${chunk}`.split(/\r?\n/);
+    this.buffer = lines.pop();
+    lines.forEach(line => this.addLine(line));
+  }
+
+  /**
+   * Adds a single line of the log
+   * @param line
+   */
+  addLine(line: string): void {
+    this.logLine++;
+    const event = LOG_EVENT_REGEX.exec(line);
+    if (!event) {
+      if (this.currQuery) {
+        this.currQuery.soql += `\n${line}`;
+      }
+      return;
+    }
+    this.completeCurrQuery();
+    const [, nanoseconds, eventName] = event;
+    const [lineNumber, detail, ...soql] = line.substring(event[0].length).split('|');
+    if (eventName === 'SOQL_EXECUTE_BEGIN') {
+      this.currQuery = {
+        soql: soql.join('|'),
+        line: getLineNumber(lineNumber),
+        logLine: this.logLine,
+        aggregations: Number((detail || '').replace(/^Aggregations:/i, '')) || 0,
+        objects: [],
+        fields: [],
+        fingerprint: '',
+      };
+      this.queries.push(this.currQuery);
+      this.pendingQueries.push({ query: this.currQuery, startNanoseconds: Number(nanoseconds) });
+    } else if (eventName === 'SOQL_EXECUTE_END') {
+      const pendingQuery = this.getPendingQuery(getLineNumber(lineNumber));
+      if (pendingQuery) {
+        pendingQuery.query.rows = Number((detail || '').replace(/^Rows:/i, '')) || 0;
+        pendingQuery.query.durationMs = (Number(nanoseconds) - pendingQuery.startNanoseconds) / 1000000;
+      }
+    }
+  }
+
+  /**
+   * Returns every query in the order they were executed, along with the queries grouped by fingerprint
+   * Groups are sorted by the number of times the query was executed, then by the first time it was executed
+   */
+  getAnalysis(): DebugLogAnalysis {
+    if (this.buffer) {
+      this.addLine(this.buffer);
+      this.buffer = '';
+    }
+    this.completeCurrQuery();
+
+    const groupsByFingerprint: { [fingerprint: string]: DebugLogQueryGroup } = {};
+    const groups: DebugLogQueryGroup[] = [];
+    this.queries.forEach(query => {
+      let group = groupsByFingerprint[query.fingerprint];
+      if (!group) {
+        group = { fingerprint: query.fingerprint, count: 0, totalRows: 0, totalDurationMs: 0, lines: [], queries: [] };
+        groupsByFingerprint[query.fingerprint] = group;
+        groups.push(group);
+      }
+      group.count++;
+      group.totalRows += query.rows || 0;
+      group.totalDurationMs += query.durationMs || 0;
+      if (!group.lines.includes(query.line)) {
+        group.lines.push(query.line);
+      }
+      group.queries.push(query);
+    });
+
+    return {
+      queries: this.queries.slice(),
+      groups: groups.sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * The end event is paired with the most recent unmatched begin event from the same line, or the most recent one if there is no match
+   */
+  private getPendingQuery(lineNumber: number): PendingQuery | undefined {
+    let index = -1;
+    for (let i = this.pendingQueries.length - 1; i >= 0 && index === -1; i--) {
+      if (this.pendingQueries[i].query.line === lineNumber) {
+        index = i;
+      }
+    }
+    if (index === -1) {
+      index = this.pendingQueries.length - 1;
+    }
+    return index >= 0 ? this.pendingQueries.splice(index, 1)[0] : undefined;
+  }
+
+  /**
+   * Once all lines of the query have been read, the query is parsed
+   */
+  private completeCurrQuery(): void {
+    if (!this.currQuery) {
+      return;
+    }
+    const query = this.currQuery;
+    this.currQuery = undefined;
+    query.soql = query.soql.trim();
+    try {
+      query.query = parseQuery(query.soql, this.options);
+      query.objects = getObjects(query.query);
+      query.fields = getFlattenedFields(query.query, isAggregateQuery(query.query));
+      query.fingerprint = getQueryFingerprint(query.query);
+    } catch (ex) {
+      query.error = ex;
+      query.fingerprint = query.soql.replace(/\s+/g, ' ');
+    }
+  }
+}
+
+/**
+ * Analyzes the SOQL queries that were executed in a Salesforce debug log
+ * @param log contents of the debug log
+ * @param [options] apex bind variables are always allowed
+ */
+export function analyzeDebugLog(log: string, options?: ParseQueryConfig): DebugLogAnalysis {
+  const analyzer = new DebugLogAnalyzer(options);
+  analyzer.write(log);
+  return analyzer.getAnalysis();
+}
+
+/**
+ * Returns the query with the value of every condition replaced with a placeholder and without the limit and offset
+ * Queries that only differ by the values in the where or having clause, or by the limit or offset, have the same fingerprint
+ * e.x. SELECT Id FROM Contact WHERE AccountId = '001000000000001' -> SELECT Id FROM Contact WHERE AccountId = ?
+ * @param query
+ */
+export function getQueryFingerprint(query: Query): string {
+  return composeQuery(getQueryWithoutValues(query));
+}
+
+function getQueryWithoutValues<T extends Query | Subquery>(query: T): T {
+  const output: T = { ...query };
+  // queries that only differ by the number of records returned are considered the same
+  delete output.limit;
+  delete output.offset;
+  if (query.where) {
+    output.where = getWhereClauseWithoutValues(query.where);
+  }
+  if (query.having) {
+    output.having = getWhereClauseWithoutValues(query.having);
+  }
+  output.fields = query.fields.map(field =>
+    field.type === 'FieldSubquery' ? { ...field, subquery: getQueryWithoutValues(field.subquery) } : field,
+  );
+  return output;
+}
+
+function getWhereClauseWithoutValues(where: WhereClause): WhereClause {
+  const left = { ...where.left };
+  if (left.valueQuery) {
+    left.valueQuery = getQueryWithoutValues(left.valueQuery);
+  } else if (left.literalType !== 'APEX_BIND_VARIABLE') {
+    // lists are replaced with a single placeholder so lists of different lengths are considered the same
+    left.value = Array.isArray(left.value) ? ['?'] : '?';
+    delete left.literalType;
+    delete left.dateLiteralVariable;
+  }
+  return where.right ? { ...where, left, right: getWhereClauseWithoutValues(where.right) } : { ...where, left };
+}
+
+/**
+ * Returns the object that is queried, the relationship of each subquery and the objects of any semi-joins or anti-joins in the where clause
+ * The object of a subquery is not known without describe results, so the relationship name is used, e.x. Contacts
+ */
+function getObjects(query: Query | Subquery, objects: string[] = []): string[] {
+  const sObject = isSubquery(query) ? query.relationshipName : query.sObject;
+  if (!objects.includes(sObject)) {
+    objects.push(sObject);
+  }
+  query.fields.forEach(field => {
+    if (field.type === 'FieldSubquery') {
+      getObjects(field.subquery, objects);
+    }
+  });
+  let where = query.where;
+  while (where) {
+    if (where.left.valueQuery) {
+      getObjects(where.left.valueQuery, objects);
+    }
+    where = where.right;
+  }
+  return objects;
+}
+
+function getLineNumber(value: string = ''): number {
+  const match = LINE_NUMBER_REGEX.exec(value);
+  return match ? Number(match[1]) : 0;
+}
@@ -0,0 +1,132 @@
+import { FieldFunctionExpression, FieldReference, FieldReferenceClause, FunctionExp, Query } from './api-models';
+import { QueryNodeContext, walkQuery } from './query-traversal';
+import { equalsIgnoreCase, getLegacyGroupByFieldPath, isFieldPath, isString } from '../utils';
+
+/**
+ * Query, subquery or semi-join query that owns the fields that are referenced within it
+ */
+interface FieldReferenceScope {
+  sObject: string;
+  sObjectAlias?: string;
+  path: string;
+  depth: number;
+}
+
+const CLAUSES: { [property: string]: FieldReferenceClause } = {
+  fields: 'select',
+  where: 'where',
+  whereGroup: 'where',
+  groupBy: 'groupBy',
+  having: 'having',
+  havingGroup: 'having',
+  orderBy: 'orderBy',
+};
+
+/**
+ * Returns every field that is referenced by the query, including fields of functions, TYPEOF, subqueries and semi-join queries
+ * The object alias is removed from each field, e.x. a.Owner.Name in `SELECT a.Owner.Name FROM Account a` is returned as Owner.Name
+ * Fields are returned in the order that they are visited by walkQuery(), a field is returned once for each place it is referenced
+ * @param query
+ */
+export function getFieldReferences(query: Query): FieldReference[] {
+  const references: FieldReference[] = [];
+  const scopes: FieldReferenceScope[] = [];
+
+  const addReference = (fieldPath: string, context: QueryNodeContext, path: string, canHaveAlias: boolean, typeofObjectType?: string) => {
+    const scope = scopes[scopes.length - 1];
+    const relationships = fieldPath.split('.');
+    // fields in the SELECT clause are parsed with the alias in objectPrefix
+    if (canHaveAlias && scope.sObjectAlias && relationships.length > 1 && equalsIgnoreCase(relationships[0], scope.sObjectAlias)) {
+      relationships.shift();
+    }
+    const reference: FieldReference = {
+      sObject: scope.sObject,
+      field: relationships.join('.'),
+      relationships: relationships.slice(0, -1),
+      fieldName: relationships[relationships.length - 1],
+      clause: getClause(context.path, scope.path),
+      subqueryDepth: scope.depth,
+      path,
+    };
+    if (typeofObjectType) {
+      reference.typeofObjectType = typeofObjectType;
+    }
+    references.push(reference);
+  };
+
+  const addParameters = (fn: FunctionExp | FieldFunctionExpression, context: QueryNodeContext) => {
+    (fn.parameters || []).forEach((param, i) => {
+      if (isString(param) && isFieldPath(param)) {
+        addReference(param, context, `${context.path}.parameters[${i}]`, true);
+      }
+    });
+  };
+
+  const leaveScope = () => {
+    scopes.pop();
+  };
+
+  walkQuery(query, {
+    Query: {
+      enter: (node, { path }) => {
+        scopes.push({ sObject: node.sObject, sObjectAlias: node.sObjectAlias, path, depth: scopes.length });
+      },
+      leave: leaveScope,
+    },
+    Subquery: {
+      enter: (node, { path }) => {
+        scopes.push({ sObject: node.relationshipName, sObjectAlias: node.sObjectAlias, path, depth: scopes.length });
+      },
+      leave: leaveScope,
+    },
+    Field: (field, context) => addReference(field.field, context, context.path, false),
+    FieldRelationship: (field, context) => addReference([...field.relationships, field.field].join('.'), context, context.path, false),
+    FieldFunctionExpression: addParameters,
+    FieldTypeof: (field, context) => {
+      field.conditions.forEach((condition, i) => {
+        condition.fieldList.forEach((fieldName, j) => {
+          const path = `${context.path}.conditions[${i}].fieldList[${j}]`;
+          addReference(`${field.field}.${fieldName}`, context, path, false, condition.type === 'WHEN' ? condition.objectType : undefined);
+        });
+      });
+    },
+    Condition: (condition, context) => {
+      if (condition.field) {
+        addReference(condition.field, context, context.path, true);
+      }
+    },
+    GroupBy: (groupBy, context) => {
+      const { field } = groupBy as { field?: string | string[] };
+      if (Array.isArray(field)) {
+        field.forEach((item, i) => {
+          const fieldPath = getLegacyGroupByFieldPath(item);
+          if (isFieldPath(fieldPath)) {
+            addReference(fieldPath, context, `${context.path}.field[${i}]`, true);
+          }
+        });
+      } else if (field) {
+        addReference(field, context, context.path, true);
+      }
+    },
+    OrderBy: (orderBy, context) => {
+      if (orderBy.field) {
+        addReference(orderBy.field, context, context.path, true);
+      }
+    },
+    FunctionExp: addParameters,
+  });
+
+  return references;
+}
+
+/**
+ * Returns the clause based on the first property of the path within the query, e.x. fields[2].subquery.where.left -> where
+ */
+function getClause(path: string, queryPath: string): FieldReferenceClause {
+  const relativePath = queryPath ? path.substring(queryPath.length + 1) : path;
+  // the having clause is included in the legacy group by clause
+  if (/^groupBy\.having\b/.test(relativePath)) {
+    return 'having';
+  }
+  return CLAUSES[relativePath.match(/^\w+/)[0]];
+}
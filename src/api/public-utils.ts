@@ -6,14 +6,24 @@ import {
   isComposeFieldRelationship,
   isComposeFieldSubquery,
   isComposeFieldTypeof,
+  isComposeFieldFieldsFunction,
+  isCustomField,
   isString,
   isSubquery,
   isFieldSubquery,
+  isGroupByField,
+  isLegacyGroupBy,
 } from '../utils';
 
 export { isSubquery };
 
-export type ComposeFieldInput = ComposeField | ComposeFieldFunction | ComposeFieldRelationship | ComposeFieldSubquery | ComposeFieldTypeof;
+export type ComposeFieldInput =
+  | ComposeField
+  | ComposeFieldFunction
+  | ComposeFieldRelationship
+  | ComposeFieldSubquery
+  | ComposeFieldTypeof
+  | ComposeFieldFieldsFunction;
 
 export interface ComposeField {
   field: string;
@@ -43,6 +53,10 @@ export interface ComposeFieldTypeof {
   conditions: SoqlModels.FieldTypeOfCondition[];
 }
 
+export interface ComposeFieldFieldsFunction {
+  scope: SoqlModels.FieldsFunctionScope;
+}
+
 /**
  * @deprecated - use `getField()` instead
  * Pass any a basic string or populate required properties on the ComposeField object
@@ -65,6 +79,11 @@ export function getField(input: string | ComposeFieldInput): SoqlModels.FieldTyp
       type: 'Field',
       field: input,
     };
+  } else if (isComposeFieldFieldsFunction(input)) {
+    return {
+      type: 'FieldFieldsFunction',
+      scope: input.scope,
+    };
   } else if (isComposeFieldFunction(input)) {
     let parameters: string[] | SoqlModels.FieldFunctionExpression[];
     if (input.parameters) {
@@ -110,13 +129,16 @@ export function getField(input: string | ComposeFieldInput): SoqlModels.FieldTyp
 /**
  * Gets flattened fields - this will turn a Query into a list of fields that can be used to parse results from a returned dataset from SFDC
  * Subqueries only include the child SObject relationship name
+ * FIELDS(ALL), FIELDS(STANDARD) and FIELDS(CUSTOM) are only included if fieldsFunctionFieldList is provided
  * @param query
  * @param [isAggregateResult] pass in true to force expr0...1 for all non-aliased functions even if field is not explicitly an aggregate expression
+ * @param [fieldsFunctionFieldList] all fields on the queried object, used to expand FIELDS() - fields ending in __c are considered custom fields
  * @returns flattened fields
  */
 export function getFlattenedFields(
   query: SoqlModels.Query | SoqlModels.Subquery | SoqlModels.FieldSubquery,
   isAggregateResult?: boolean,
+  fieldsFunctionFieldList?: string[],
 ): string[] {
   if (!query) {
     return [];
@@ -125,18 +147,30 @@ export function getFlattenedFields(
   const fields = query.fields;
   // if a relationship field is used in a group by, then Salesforce removes the relationship portion of the field in the returned records
   const groupByFields: { [field: string]: string } = {};
-  if (!!query.groupBy && Array.isArray(query.groupBy.field)) {
-    query.groupBy.field.reduce((output, field) => {
+  if (!!query.groupBy) {
+    let fields: string[];
+    if (isLegacyGroupBy(query.groupBy)) {
+      fields = Array.isArray(query.groupBy.field) ? query.groupBy.field : query.groupBy.field ? [query.groupBy.field] : [];
+    } else {
+      fields = query.groupBy.filter(isGroupByField).map(groupBy => groupBy.field);
+    }
+    fields.reduce((output, field) => {
       output[field.toLocaleLowerCase()] = field;
       return output;
     }, groupByFields);
   }
+  const selectedFields = fields.reduce((output: { [field: string]: boolean }, field) => {
+    if (field.type === 'Field') {
+      output[field.field.toLocaleLowerCase()] = true;
+    }
+    return output;
+  }, {});
   let currUnAliasedAggExp = -1;
   let sObject = (isSubquery(query) ? query.relationshipName : query.sObject || '').toLowerCase();
   let sObjectAlias = (query.sObjectAlias || '').toLowerCase();
 
   const parsedFields = fields
-    .map(field => {
+    .map((field): string | string[] => {
       switch (field.type) {
         case 'Field': {
           return field.field;
@@ -194,10 +228,19 @@ export function getFlattenedFields(
         case 'FieldSubquery': {
           return field.subquery.relationshipName;
         }
+        case 'FieldFieldsFunction': {
+          // fields that are also explicitly selected are only returned once
+          return (fieldsFunctionFieldList || []).filter(
+            fieldName =>
+              !selectedFields[fieldName.toLocaleLowerCase()] &&
+              (field.scope === 'ALL' || (field.scope === 'CUSTOM') === isCustomField(fieldName)),
+          );
+        }
         default:
           break;
       }
     })
+    .reduce<string[]>((output, field) => output.concat(field), [])
     .filter(field => isString(field));
 
   return parsedFields;
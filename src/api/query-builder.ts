@@ -0,0 +1,316 @@
+import {
+  AccessLevel,
+  Condition,
+  ConditionGroup,
+  FieldFunctionExpression,
+  FieldType,
+  ForClause,
+  FunctionExp,
+  GroupByClause,
+  HavingClause,
+  LogicalOperator,
+  NullsOrder,
+  OrderByClause,
+  OrderByCriterion,
+  Query,
+  QueryBase,
+  Subquery,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { getConditionGroupFromWhereClause, getWhereClauseFromConditionGroup } from './condition-groups';
+import { composeQuery } from '../composer/composer';
+import { FormatOptions } from '../formatter/formatter';
+import { isConditionGroup, isString } from '../utils';
+
+export type QueryBuilderField = string | FieldType;
+export type QueryBuilderFieldOrFn = QueryBuilderField | FunctionExp;
+export type QueryBuilderCondition = WhereClause | HavingClause | ConditionGroup | (Condition & ValueQuery);
+
+/**
+ * Builds a Query one clause at a time, each method returns the same builder so calls can be chained
+ * Fields can be provided as a name or relationship path, e.x. Account.Owner.Name, any other field can be created with getField()
+ * Conditions added with and() or or() are grouped with parentheses based on the order the methods are called
+ *
+ * const soql = select('Id', 'Name')
+ *   .from('Account')
+ *   .where(eq('Industry', 'Technology'))
+ *   .and(inList('Type', ['Customer', 'Partner']))
+ *   .subquery(select('Id').from('Contacts'))
+ *   .orderBy('Name', 'DESC')
+ *   .limit(10)
+ *   .toSoql();
+ */
+export class QueryBuilder {
+  private fields: FieldType[] = [];
+  private sObject?: string;
+  private sObjectAlias?: string;
+  private whereGroup?: ConditionGroup;
+  private havingGroup?: ConditionGroup;
+  private groupByClauses?: GroupByClause[];
+  private orderByClauses?: OrderByClause[];
+  private clauses: Pick<QueryBase, 'limit' | 'offset' | 'withSecurityEnforced' | 'withAccessLevel' | 'for'> = {};
+
+  /**
+   * Adds fields to the SELECT clause
+   * @param fields field names, relationship paths or fields from getField()
+   */
+  select(...fields: QueryBuilderField[]): this {
+    this.fields = this.fields.concat(fields.map(getBuilderField));
+    return this;
+  }
+
+  /**
+   * Sets the object that is queried, or the child relationship name if the builder is used for a subquery
+   * @param sObject
+   * @param [alias]
+   */
+  from(sObject: string, alias?: string): this {
+    this.sObject = sObject;
+    this.sObjectAlias = alias;
+    return this;
+  }
+
+  /**
+   * Adds a subquery to the SELECT clause, the object of the subquery builder is used as the child relationship name
+   * e.x. `select('Id').from('Account').subquery(select('Id').from('Contacts'))`
+   * @param subquery
+   */
+  subquery(subquery: QueryBuilder | Subquery): this {
+    this.fields.push({ type: 'FieldSubquery', subquery: subquery instanceof QueryBuilder ? subquery.toSubquery() : subquery });
+    return this;
+  }
+
+  /**
+   * Replaces the WHERE clause
+   * @param condition
+   */
+  where(condition: QueryBuilderCondition): this {
+    this.whereGroup = addCondition(undefined, 'AND', condition);
+    return this;
+  }
+
+  /**
+   * Adds a condition to the WHERE clause with AND, the existing conditions are wrapped in parentheses if they are combined with OR
+   * @param condition
+   */
+  and(condition: QueryBuilderCondition): this {
+    this.whereGroup = addCondition(this.whereGroup, 'AND', condition);
+    return this;
+  }
+
+  /**
+   * Adds a condition to the WHERE clause with OR, the existing conditions are wrapped in parentheses if they are combined with AND
+   * @param condition
+   */
+  or(condition: QueryBuilderCondition): this {
+    this.whereGroup = addCondition(this.whereGroup, 'OR', condition);
+    return this;
+  }
+
+  /**
+   * Adds fields to the GROUP BY clause
+   * e.x. `groupBy('Industry', getField({ functionName: 'CALENDAR_YEAR', parameters: ['CreatedDate'] }))`
+   * @param fields field names, relationship paths, fields or functions from getField() or FunctionExp objects
+   * @throws Error if a field is a subquery, TYPEOF or FIELDS()
+   */
+  groupBy(...fields: QueryBuilderFieldOrFn[]): this {
+    this.groupByClauses = (this.groupByClauses || []).concat(fields.map(field => getFieldOrFn(field, 'GROUP BY')));
+    return this;
+  }
+
+  /**
+   * Replaces the HAVING clause
+   * @param condition
+   */
+  having(condition: QueryBuilderCondition): this {
+    this.havingGroup = addCondition(undefined, 'AND', condition);
+    return this;
+  }
+
+  /**
+   * Adds a field to the ORDER BY clause
+   * @param field field name, relationship path, field or function from getField() or FunctionExp object
+   * @param [order]
+   * @param [nulls]
+   * @throws Error if the field is a subquery, TYPEOF or FIELDS()
+   */
+  orderBy(field: QueryBuilderFieldOrFn, order?: OrderByCriterion, nulls?: NullsOrder): this {
+    const orderBy: OrderByClause = getFieldOrFn(field, 'ORDER BY');
+    if (order) {
+      orderBy.order = order;
+    }
+    if (nulls) {
+      orderBy.nulls = nulls;
+    }
+    this.orderByClauses = (this.orderByClauses || []).concat(orderBy);
+    return this;
+  }
+
+  limit(limit: number): this {
+    this.clauses.limit = limit;
+    return this;
+  }
+
+  offset(offset: number): this {
+    this.clauses.offset = offset;
+    return this;
+  }
+
+  withSecurityEnforced(): this {
+    this.clauses.withSecurityEnforced = true;
+    return this;
+  }
+
+  withAccessLevel(accessLevel: AccessLevel): this {
+    this.clauses.withAccessLevel = accessLevel;
+    return this;
+  }
+
+  for(value: ForClause): this {
+    this.clauses.for = value;
+    return this;
+  }
+
+  /**
+   * Returns a new Query, changes to the builder after the query is returned do not change the query
+   * @throws Error if from() was not called or if no fields were selected
+   */
+  toQuery(): Query {
+    if (!this.sObject) {
+      throw new Error('The object to query must be set with from() before the query can be built');
+    }
+    return { ...this.getQueryBase(), sObject: this.sObject };
+  }
+
+  /**
+   * Returns a new Subquery, the object set with from() is used as the child relationship name
+   * @throws Error if from() was not called or if no fields were selected
+   */
+  toSubquery(): Subquery {
+    if (!this.sObject) {
+      throw new Error('The child relationship must be set with from() before the subquery can be built');
+    }
+    return { ...this.getQueryBase(), relationshipName: this.sObject };
+  }
+
+  /**
+   * Composes the query with composeQuery(), the query is formatted if format options are provided
+   * @param [formatOptions]
+   */
+  toSoql(formatOptions?: FormatOptions): string {
+    return composeQuery(this.toQuery(), { format: !!formatOptions, formatOptions });
+  }
+
+  private getQueryBase(): QueryBase {
+    if (this.fields.length === 0) {
+      throw new Error('At least one field must be selected with select() or subquery() before the query can be built');
+    }
+    const output: QueryBase = { fields: this.fields.slice(), ...this.clauses };
+    if (this.sObjectAlias) {
+      output.sObjectAlias = this.sObjectAlias;
+    }
+    if (this.whereGroup) {
+      output.where = getWhereClauseFromConditionGroup(this.whereGroup);
+    }
+    if (this.groupByClauses) {
+      output.groupBy = this.groupByClauses.slice();
+    }
+    if (this.havingGroup) {
+      output.having = getWhereClauseFromConditionGroup(this.havingGroup);
+    }
+    if (this.orderByClauses) {
+      output.orderBy = this.orderByClauses.slice();
+    }
+    return output;
+  }
+}
+
+/**
+ * Returns a new QueryBuilder with the fields added to the SELECT clause
+ * e.x. `select('Id', 'Name').from('Account').limit(10).toSoql()`
+ * @param fields field names, relationship paths or fields from getField()
+ */
+export function select(...fields: QueryBuilderField[]): QueryBuilder {
+  return new QueryBuilder().select(...fields);
+}
+
+/**
+ * e.x. Name -> Field, Account.Owner.Name -> FieldRelationship
+ */
+function getBuilderField(field: QueryBuilderField): FieldType {
+  if (!isString(field)) {
+    return field;
+  }
+  const relationships = field.split('.');
+  const fieldName = relationships.pop();
+  return relationships.length > 0 ? { type: 'FieldRelationship', field: fieldName, relationships } : { type: 'Field', field: fieldName };
+}
+
+/**
+ * Returns the field or function for a GROUP BY or ORDER BY clause
+ * e.x. Owner.Name -> { field: 'Owner.Name' }, CALENDAR_YEAR(CreatedDate) from getField() -> { fn: { functionName: 'CALENDAR_YEAR', ... } }
+ */
+function getFieldOrFn(field: QueryBuilderFieldOrFn, clause: string): { field: string } | { fn: FunctionExp } {
+  if (isString(field)) {
+    return { field };
+  }
+  if (!isFieldType(field)) {
+    return { fn: field };
+  }
+  switch (field.type) {
+    case 'Field':
+      return { field: field.objectPrefix ? `${field.objectPrefix}.${field.field}` : field.field };
+    case 'FieldRelationship':
+      return { field: [...(field.objectPrefix ? [field.objectPrefix] : []), ...field.relationships, field.field].join('.') };
+    case 'FieldFunctionExpression':
+      return { fn: getFunctionExp(field) };
+    default:
+      throw new Error(`${field.type} cannot be used in the ${clause} clause`);
+  }
+}
+
+function getFunctionExp(field: FieldFunctionExpression): FunctionExp {
+  return {
+    functionName: field.functionName,
+    parameters: field.parameters.map(param => (isString(param) ? param : getFunctionExp(param))),
+  };
+}
+
+function isFieldType(field: FieldType | FunctionExp): field is FieldType {
+  return isString((field as FieldType).type);
+}
+
+/**
+ * Returns a new condition group with the condition added, the existing conditions are nested in a new group if they were combined
+ * with a different logical operator
+ */
+function addCondition(group: ConditionGroup | undefined, operator: LogicalOperator, condition: QueryBuilderCondition): ConditionGroup {
+  const conditionGroup = getConditionGroup(condition);
+  if (!group) {
+    return conditionGroup;
+  }
+  // groups that use the same operator are merged so that they are not wrapped in parentheses
+  const children =
+    !conditionGroup.negated && (conditionGroup.operator === operator || conditionGroup.children.length === 1)
+      ? conditionGroup.children
+      : [conditionGroup];
+  if (!group.negated && (group.operator === operator || group.children.length === 1)) {
+    return { operator, negated: false, children: [...group.children, ...children] };
+  }
+  return { operator, negated: false, children: [group, ...children] };
+}
+
+function getConditionGroup(condition: QueryBuilderCondition): ConditionGroup {
+  if (isConditionGroup(condition)) {
+    return condition;
+  }
+  if (isWhereClause(condition)) {
+    return getConditionGroupFromWhereClause(condition);
+  }
+  return { operator: 'AND', negated: false, children: [condition] };
+}
+
+function isWhereClause(condition: QueryBuilderCondition): condition is WhereClause | HavingClause {
+  return !!(condition as WhereClause).left;
+}
@@ -0,0 +1,311 @@
+import {
+  Condition,
+  ConditionCostEstimate,
+  IndexType,
+  Query,
+  QueryCostEstimate,
+  SObjectIndexMetadata,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { getConditionTreeFromWhereClause } from './condition-groups';
+import { ConditionTreeNode } from '../models';
+
+// fields that have a standard index on every object
+// lookup and master-detail fields are also indexed, but field types are not known from the query, so they must be included in indexedFields
+const DEFAULT_INDEXED_FIELDS = ['Id', 'Name', 'OwnerId', 'CreatedDate', 'SystemModstamp', 'RecordTypeId', 'LastModifiedDate'];
+const DEFAULT_UNIQUE_FIELDS = ['Id'];
+
+// fraction of records that are assumed to match a condition if the selectivity of the field is not provided
+const DEFAULT_EQUALITY_SELECTIVITY = 0.01;
+const DEFAULT_LIKE_SELECTIVITY = 0.05;
+const DEFAULT_RANGE_SELECTIVITY = 0.25;
+
+/**
+ * Thresholds from the Salesforce query optimizer, a filter on an indexed field is selective if it matches fewer records than the threshold
+ * Standard index: 30% of the first million records and 15% of the remaining records, up to one million records
+ * Custom index: 10% of the first million records and 5% of the remaining records, up to 333,333 records
+ */
+const SELECTIVITY_THRESHOLDS: { [indexType in IndexType]: { first: number; remaining: number; max: number } } = {
+  STANDARD: { first: 0.3, remaining: 0.15, max: 1000000 },
+  CUSTOM: { first: 0.1, remaining: 0.05, max: 333333 },
+};
+
+interface NodeEstimate {
+  estimatedRows: number;
+  isSelective: boolean;
+  selectivityThreshold: number; // threshold of the leading index, 0 if an index cannot be used
+  relativeCost: number; // Infinity if an index cannot be used
+}
+
+/**
+ * Estimates whether the WHERE clause of a query is selective based on the indexes and record count of the queried object
+ * Each condition is checked against the selectivity thresholds of the query optimizer, then conditions are combined:
+ * AND is selective if any condition is selective, OR is selective only if every condition is selective and the total is below the threshold,
+ * and negated conditions or groups are never selective
+ *
+ * The number of records that match each condition is estimated from `fieldSelectivity` or from default assumptions,
+ * so the result should be treated as a rough estimate, use the Query Plan tool in the org for an accurate plan
+ * @param query
+ * @param indexMetadata index metadata keyed by object name
+ * @returns estimate for the outer query, subqueries and semi-join queries are not estimated
+ */
+export function estimateQueryCost(query: Query, indexMetadata: { [sObject: string]: SObjectIndexMetadata }): QueryCostEstimate {
+  const metadataKey = Object.keys(indexMetadata).find(key => key.toLowerCase() === query.sObject.toLowerCase());
+  if (!metadataKey) {
+    throw new Error(`Index metadata was not provided for ${query.sObject}`);
+  }
+  const metadata = indexMetadata[metadataKey];
+  const { recordCount } = metadata;
+  const tableScanCost = recordCount / Math.max(getSelectivityThreshold('STANDARD', recordCount), 1);
+
+  if (!query.where) {
+    return {
+      sObject: query.sObject,
+      recordCount,
+      estimatedRows: recordCount,
+      isSelective: false,
+      leadingOperation: 'TABLE_SCAN',
+      relativeCost: tableScanCost,
+      conditions: [],
+    };
+  }
+
+  // conditions in the tree are in the same order as the where clause
+  const conditionPaths = getConditionPaths(query.where);
+  const conditions: ConditionCostEstimate[] = [];
+  const estimateNode = (node: ConditionTreeNode, isWithinNegatedGroup: boolean): NodeEstimate => {
+    switch (node.type) {
+      case 'logical': {
+        const children = node.children.map(child => estimateNode(child, isWithinNegatedGroup));
+        if (node.operator === 'AND') {
+          // conditions are assumed to be independent and the most selective condition is used as the leading index
+          const leadingChild = children
+            .filter(child => child.isSelective)
+            .reduce(
+              (leading: NodeEstimate | undefined, child) => (!leading || child.relativeCost < leading.relativeCost ? child : leading),
+              undefined,
+            );
+          return {
+            estimatedRows: children.reduce((rows, child) => (rows * child.estimatedRows) / Math.max(recordCount, 1), recordCount),
+            isSelective: !!leadingChild,
+            selectivityThreshold: leadingChild ? leadingChild.selectivityThreshold : 0,
+            relativeCost: leadingChild ? leadingChild.relativeCost : Infinity,
+          };
+        }
+        // every condition must use an index and the combined records must be below the lowest threshold
+        const estimatedRows = Math.min(
+          recordCount,
+          children.reduce((rows, child) => rows + child.estimatedRows, 0),
+        );
+        const selectivityThreshold = Math.min(...children.map(child => child.selectivityThreshold));
+        const isSelective = children.every(child => child.isSelective) && estimatedRows < selectivityThreshold;
+        return {
+          estimatedRows,
+          isSelective,
+          selectivityThreshold,
+          relativeCost: isSelective ? estimatedRows / selectivityThreshold : Infinity,
+        };
+      }
+      case 'paren': {
+        const child = estimateNode(node.child, isWithinNegatedGroup || node.negated);
+        return node.negated
+          ? { estimatedRows: recordCount - child.estimatedRows, isSelective: false, selectivityThreshold: 0, relativeCost: Infinity }
+          : child;
+      }
+      default: {
+        const estimate = estimateCondition(node.condition, conditionPaths[conditions.length], query, metadata);
+        if (node.negated || isWithinNegatedGroup) {
+          estimate.usesIndex = false;
+          estimate.isSelective = false;
+          estimate.reason = 'NOT prevents the use of an index';
+        }
+        if (node.negated) {
+          estimate.estimatedRows = recordCount - estimate.estimatedRows;
+        }
+        conditions.push(estimate);
+        return {
+          estimatedRows: estimate.estimatedRows,
+          isSelective: estimate.isSelective,
+          selectivityThreshold: estimate.selectivityThreshold,
+          relativeCost: estimate.isSelective ? estimate.estimatedRows / estimate.selectivityThreshold : Infinity,
+        };
+      }
+    }
+  };
+
+  const output = estimateNode(getConditionTreeFromWhereClause(query.where), false);
+  return {
+    sObject: query.sObject,
+    recordCount,
+    estimatedRows: Math.round(output.estimatedRows),
+    isSelective: output.isSelective,
+    leadingOperation: output.isSelective ? 'INDEX' : 'TABLE_SCAN',
+    relativeCost: output.isSelective ? output.relativeCost : tableScanCost,
+    conditions,
+  };
+}
+
+/**
+ * Returns the maximum number of records that a filter on an indexed field can match to be considered selective
+ * @param indexType
+ * @param recordCount
+ */
+export function getSelectivityThreshold(indexType: IndexType, recordCount: number): number {
+  const threshold = SELECTIVITY_THRESHOLDS[indexType];
+  const firstMillion = Math.min(recordCount, 1000000);
+  const remaining = Math.max(recordCount - 1000000, 0);
+  return Math.floor(Math.min(firstMillion * threshold.first + remaining * threshold.remaining, threshold.max));
+}
+
+function estimateCondition(
+  condition: Condition & ValueQuery,
+  path: string,
+  query: Query,
+  metadata: SObjectIndexMetadata,
+): ConditionCostEstimate {
+  const { recordCount } = metadata;
+  const fieldName = getFieldNameWithoutAlias(condition.field, query.sObjectAlias);
+  const output: ConditionCostEstimate = {
+    field: condition.field || (condition.fn && condition.fn.rawValue) || '',
+    operator: condition.operator,
+    path,
+    usesIndex: false,
+    estimatedRows: Math.round(recordCount * getMatchingFraction(condition, fieldName, metadata)),
+    selectivityThreshold: 0,
+    isSelective: false,
+  };
+
+  const indexType = fieldName ? getIndexType(fieldName, metadata) : undefined;
+  const reason = getReasonIndexIsNotUsed(condition, fieldName, indexType);
+  if (reason) {
+    output.reason = reason;
+    return output;
+  }
+
+  output.indexType = indexType;
+  output.usesIndex = true;
+  output.selectivityThreshold = getSelectivityThreshold(indexType, recordCount);
+  output.isSelective = output.estimatedRows < output.selectivityThreshold;
+  if (!output.isSelective) {
+    output.reason = `${output.field} matches an estimated ${output.estimatedRows} records, which exceeds the selectivity threshold of ${output.selectivityThreshold}`;
+  }
+  return output;
+}
+
+function getReasonIndexIsNotUsed(
+  condition: Condition & ValueQuery,
+  fieldName: string | undefined,
+  indexType?: IndexType,
+): string | undefined {
+  const { value } = condition;
+  const operator = condition.operator.toUpperCase();
+  if (condition.fn) {
+    return 'Functions prevent the use of an index';
+  }
+  if (!fieldName) {
+    return 'Fields of related objects do not use an index on the queried object';
+  }
+  if (!indexType) {
+    return `${condition.field} is not indexed`;
+  }
+  if (operator === '!=' || operator === 'NOT IN' || operator === 'EXCLUDES') {
+    return `Negative operator ${operator} prevents the use of an index`;
+  }
+  if (operator === 'INCLUDES') {
+    return 'INCLUDES prevents the use of an index';
+  }
+  if (operator === 'LIKE' && typeof value === 'string' && /^'?%/.test(value)) {
+    return 'LIKE with a leading wildcard prevents the use of an index';
+  }
+  if (indexType === 'CUSTOM' && condition.literalType === 'NULL') {
+    return 'Custom indexes do not include null values';
+  }
+  return undefined;
+}
+
+/**
+ * Returns the fraction of records that are estimated to match the condition
+ */
+function getMatchingFraction(condition: Condition & ValueQuery, fieldName: string | undefined, metadata: SObjectIndexMetadata): number {
+  const { value } = condition;
+  const operator = condition.operator.toUpperCase();
+  const recordCount = Math.max(metadata.recordCount, 1);
+  const valueCount = condition.valueQuery ? 1 : Array.isArray(value) ? value.length : 1;
+  const uniqueFields = metadata.uniqueFields || DEFAULT_UNIQUE_FIELDS;
+  const fieldSelectivity = fieldName ? getFieldSelectivity(fieldName, metadata) : undefined;
+
+  let fraction: number;
+  switch (operator) {
+    case '=':
+    case 'IN':
+    case '!=':
+    case 'NOT IN': {
+      const valueFraction =
+        fieldName && includesIgnoreCase(uniqueFields, fieldName) && !condition.valueQuery
+          ? 1 / recordCount
+          : fieldSelectivity !== undefined
+          ? fieldSelectivity
+          : DEFAULT_EQUALITY_SELECTIVITY;
+      fraction = Math.min(1, valueFraction * valueCount);
+      break;
+    }
+    case 'LIKE':
+      fraction = fieldSelectivity !== undefined ? fieldSelectivity : DEFAULT_LIKE_SELECTIVITY;
+      break;
+    case 'INCLUDES':
+    case 'EXCLUDES':
+      fraction = Math.min(1, (fieldSelectivity !== undefined ? fieldSelectivity : DEFAULT_EQUALITY_SELECTIVITY) * valueCount);
+      break;
+    default:
+      fraction = fieldSelectivity !== undefined ? fieldSelectivity : DEFAULT_RANGE_SELECTIVITY;
+      break;
+  }
+  return operator === '!=' || operator === 'NOT IN' || operator === 'EXCLUDES' ? 1 - fraction : fraction;
+}
+
+function getIndexType(fieldName: string, metadata: SObjectIndexMetadata): IndexType | undefined {
+  if (includesIgnoreCase(metadata.customIndexes || [], fieldName)) {
+    return 'CUSTOM';
+  }
+  if (includesIgnoreCase(metadata.indexedFields || DEFAULT_INDEXED_FIELDS, fieldName)) {
+    return 'STANDARD';
+  }
+  return undefined;
+}
+
+function getFieldSelectivity(fieldName: string, metadata: SObjectIndexMetadata): number | undefined {
+  const fieldSelectivity = metadata.fieldSelectivity || {};
+  const key = Object.keys(fieldSelectivity).find(item => item.toLowerCase() === fieldName.toLowerCase());
+  return key ? fieldSelectivity[key] : undefined;
+}
+
+/**
+ * Returns the field name without the alias of the queried object, or undefined if the field is on a related object
+ */
+function getFieldNameWithoutAlias(field: string | undefined, sObjectAlias?: string): string | undefined {
+  if (!field) {
+    return undefined;
+  }
+  const segments = field.split('.');
+  if (sObjectAlias && segments.length > 1 && segments[0].toLowerCase() === sObjectAlias.toLowerCase()) {
+    segments.shift();
+  }
+  return segments.length === 1 ? segments[0] : undefined;
+}
+
+function getConditionPaths(where: WhereClause): string[] {
+  const output: string[] = [];
+  let path = 'where';
+  let current: WhereClause | undefined = where;
+  while (current) {
+    output.push(`${path}.left`);
+    path = `${path}.right`;
+    current = current.right;
+  }
+  return output;
+}
+
+function includesIgnoreCase(values: string[], value: string): boolean {
+  return values.some(item => item.toLowerCase() === value.toLowerCase());
+}
@@ -0,0 +1,262 @@
+import { Condition, DiagnosticSeverity, HavingClause, Query, SourceLocation, Subquery, ValueQuery, WhereClause } from './api-models';
+import { getFieldName, getFieldText, isAggregateQuery } from '../utils';
+
+export type LintQueryType = 'QUERY' | 'SUBQUERY' | 'SEMI_JOIN';
+export type LintFix<T = Query | Subquery> = (query: T) => T;
+
+export interface LintRule {
+  name: string; // e.x. no-leading-wildcard
+  description: string;
+  severity: DiagnosticSeverity; // to change the severity of a built-in rule, use { ...rule, severity: 'error' }
+  /**
+   * Called for the query and for every subquery and semi-join query
+   * Problems are reported with `context.report()`
+   */
+  check: (query: Query | Subquery, context: LintRuleContext) => void;
+}
+
+export interface LintRuleContext {
+  type: LintQueryType;
+  path: string; // path of the query that is being checked, empty for the outer query, e.x. fields[2].subquery
+  report: (report: LintReport) => void;
+}
+
+export interface LintReport {
+  message: string;
+  path?: string; // path of the problem relative to the query that is being checked, e.x. where.right.left
+  loc?: SourceLocation;
+  fix?: LintFix; // returns a copy of the query that is being checked with the problem fixed
+}
+
+export interface LintFinding {
+  rule: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  path: string; // path of the problem relative to the outer query
+  loc?: SourceLocation; // populated if the query was parsed with includeLocations=true
+  fix?: LintFix<Query>; // returns a copy of the outer query with the problem fixed
+}
+
+export interface LintQueryOptions {
+  rules?: LintRule[]; // default=builtInLintRules
+}
+
+export const noLeadingWildcard: LintRule = {
+  name: 'no-leading-wildcard',
+  description: 'LIKE values that start with a wildcard cannot use an index',
+  severity: 'warning',
+  check: (query, context) => {
+    forEachCondition(query.where, 'where', (condition, path) => {
+      if (condition.operator.toUpperCase() === 'LIKE' && typeof condition.value === 'string' && /^'?%/.test(condition.value)) {
+        context.report({
+          message: `${condition.field} LIKE ${condition.value} starts with a wildcard, which prevents the use of an index.`,
+          path,
+          loc: condition.loc,
+        });
+      }
+    });
+  },
+};
+
+export const noNegativeFilter: LintRule = {
+  name: 'no-negative-filter',
+  description: '!= and NOT IN filters cannot use an index',
+  severity: 'warning',
+  check: (query, context) => {
+    forEachCondition(query.where, 'where', (condition, path) => {
+      if (condition.operator === '!=' || condition.operator === 'NOT IN') {
+        const { field, operator } = condition;
+        context.report({
+          message: `${field || 'Condition'} uses the negative operator ${operator}, which prevents the use of an index.`,
+          path,
+          loc: condition.loc,
+        });
+      }
+    });
+  },
+};
+
+export const requireLimit: LintRule = {
+  name: 'require-limit',
+  description: 'Queries that are not aggregate queries should have a LIMIT',
+  severity: 'warning',
+  check: (query, context) => {
+    if (context.type === 'QUERY' && !query.limit && !isAggregateQuery(query)) {
+      context.report({
+        message: 'Query does not have a LIMIT, the number of records returned is unbounded.',
+        path: 'limit',
+        loc: query.loc,
+      });
+    }
+  },
+};
+
+export const noDuplicateFields: LintRule = {
+  name: 'no-duplicate-fields',
+  description: 'A field cannot be selected more than once',
+  severity: 'error',
+  check: (query, context) => {
+    const fieldNames = query.fields.map(getFieldName);
+    fieldNames.forEach((fieldName, i) => {
+      if (fieldName && fieldNames.indexOf(fieldName) < i) {
+        context.report({
+          message: `${getFieldText(query.fields[i])} is selected more than once.`,
+          path: `fields[${i}]`,
+          loc: query.fields[i].loc,
+          fix: currQuery => {
+            const currFieldNames = currQuery.fields.map(getFieldName);
+            return {
+              ...currQuery,
+              fields: currQuery.fields.filter((_, j) => !currFieldNames[j] || currFieldNames.indexOf(currFieldNames[j]) === j),
+            };
+          },
+        });
+      }
+    });
+  },
+};
+
+export const noUnboundedOffset: LintRule = {
+  name: 'no-unbounded-offset',
+  description: 'OFFSET should be used with a LIMIT',
+  severity: 'warning',
+  check: (query, context) => {
+    if (query.offset !== undefined && query.offset !== null && !query.limit) {
+      context.report({
+        message: 'OFFSET is used without a LIMIT, every record after the offset is returned.',
+        path: 'offset',
+        loc: query.clauseLocations && query.clauseLocations.offset,
+      });
+    }
+  },
+};
+
+export const requireSecurityEnforced: LintRule = {
+  name: 'require-security-enforced',
+  description: 'Queries that return data to users should enforce field and object level security',
+  severity: 'warning',
+  check: (query, context) => {
+    if (context.type === 'QUERY' && !query.withSecurityEnforced && query.withAccessLevel !== 'USER_MODE') {
+      context.report({
+        message: 'Query does not use WITH SECURITY_ENFORCED or WITH USER_MODE to enforce field and object level security.',
+        path: 'withSecurityEnforced',
+        loc: query.loc,
+        // SECURITY_ENFORCED cannot be combined with SYSTEM_MODE
+        fix: query.withAccessLevel ? undefined : currQuery => ({ ...currQuery, withSecurityEnforced: true }),
+      });
+    }
+  },
+};
+
+export const builtInLintRules: LintRule[] = [
+  noLeadingWildcard,
+  noNegativeFilter,
+  requireLimit,
+  noDuplicateFields,
+  noUnboundedOffset,
+  requireSecurityEnforced,
+];
+
+/**
+ * Checks the query against each lint rule, every rule is called for the query, each subquery and each semi-join query
+ * @param query
+ * @param [options] rules default to builtInLintRules
+ * @returns findings in the order of the rules
+ */
+export function lintQuery(query: Query, options: LintQueryOptions = {}): LintFinding[] {
+  const rules = options.rules || builtInLintRules;
+  const queries = getQueriesToLint(query);
+  const findings: LintFinding[] = [];
+  rules.forEach(rule => {
+    queries.forEach(({ query: currQuery, type, path }) => {
+      rule.check(currQuery, {
+        type,
+        path,
+        report: report => {
+          const finding: LintFinding = {
+            rule: rule.name,
+            severity: rule.severity,
+            message: report.message,
+            path: [path, report.path].filter(item => !!item).join('.'),
+            loc: report.loc,
+          };
+          if (report.fix) {
+            const { fix } = report;
+            finding.fix = outerQuery => updateAtPath(outerQuery, getPathKeys(path), fix);
+          }
+          findings.push(finding);
+        },
+      });
+    });
+  });
+  return findings;
+}
+
+/**
+ * Returns a copy of the query with the fix of each finding applied, findings without a fix are ignored
+ * Fixes of subqueries and semi-join queries are applied first, as fixes of the outer query can change the path of a subquery
+ * @param query
+ * @param findings
+ */
+export function applyLintFixes(query: Query, findings: LintFinding[]): Query {
+  return findings
+    .filter(finding => !!finding.fix)
+    .map((finding, i) => ({ finding, i, depth: (finding.path.match(/\b(subquery|valueQuery)\b/g) || []).length }))
+    .sort((a, b) => b.depth - a.depth || a.i - b.i)
+    .reduce((output, { finding }) => finding.fix(output), query);
+}
+
+function getQueriesToLint(
+  query: Query | Subquery,
+  type: LintQueryType = 'QUERY',
+  path = '',
+): { query: Query | Subquery; type: LintQueryType; path: string }[] {
+  const prefix = path ? `${path}.` : '';
+  let output: { query: Query | Subquery; type: LintQueryType; path: string }[] = [{ query, type, path }];
+  query.fields.forEach((field, i) => {
+    if (field.type === 'FieldSubquery') {
+      output = output.concat(getQueriesToLint(field.subquery, 'SUBQUERY', `${prefix}fields[${i}].subquery`));
+    }
+  });
+  forEachCondition(query.where, `${prefix}where`, (condition, conditionPath) => {
+    if (condition.valueQuery) {
+      output = output.concat(getQueriesToLint(condition.valueQuery, 'SEMI_JOIN', `${conditionPath}.valueQuery`));
+    }
+  });
+  return output;
+}
+
+function forEachCondition(
+  where: WhereClause | HavingClause | undefined,
+  path: string,
+  callback: (condition: Condition & ValueQuery, path: string) => void,
+) {
+  while (where) {
+    callback(where.left, `${path}.left`);
+    path = `${path}.right`;
+    where = where.right;
+  }
+}
+
+/**
+ * Returns a copy of the value with the value at the path replaced, objects along the path are copied
+ */
+function updateAtPath<T>(value: T, keys: string[], update: LintFix): T {
+  if (keys.length === 0) {
+    // the path always ends at the query or subquery that the problem was reported for
+    return (update((value as unknown) as Query | Subquery) as unknown) as T;
+  }
+  const [key, ...remainingKeys] = keys;
+  const source = (value as unknown) as { [key: string]: unknown };
+  // array indexes are string keys at runtime, so arrays are copied and updated the same way as objects
+  const output = (Array.isArray(source) ? source.slice() : { ...source }) as { [key: string]: unknown };
+  output[key] = updateAtPath(source[key], remainingKeys, update);
+  return (output as unknown) as T;
+}
+
+/**
+ * e.x. fields[2].subquery -> ['fields', '2', 'subquery']
+ */
+function getPathKeys(path: string): string[] {
+  return path.match(/[^.[\]]+/g) || [];
+}
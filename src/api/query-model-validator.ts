@@ -0,0 +1,512 @@
+import { QueryModelProblem } from './api-models';
+import { isBoolean, isNil, isNumber, isString } from '../utils';
+
+type UnknownObject = { [key: string]: unknown };
+
+const FIELD_TYPES = ['Field', 'FieldFunctionExpression', 'FieldRelationship', 'FieldSubquery', 'FieldTypeof', 'FieldFieldsFunction'];
+const OPERATORS = ['=', '!=', '<=', '>=', '>', '<', 'LIKE', 'IN', 'NOT IN', 'INCLUDES', 'EXCLUDES'];
+const LIST_OPERATORS = ['IN', 'NOT IN', 'INCLUDES', 'EXCLUDES'];
+const LOGICAL_OPERATORS = ['AND', 'OR'];
+const LITERAL_TYPES = [
+  'STRING',
+  'INTEGER',
+  'DECIMAL',
+  'INTEGER_WITH_CURRENCY_PREFIX',
+  'DECIMAL_WITH_CURRENCY_PREFIX',
+  'BOOLEAN',
+  'NULL',
+  'DATETIME',
+  'DATE',
+  'DATE_LITERAL',
+  'DATE_N_LITERAL',
+  'APEX_BIND_VARIABLE',
+];
+const FIELDS_FUNCTION_SCOPES = ['ALL', 'STANDARD', 'CUSTOM'];
+const GROUP_SELECTORS = ['ABOVE', 'AT', 'BELOW', 'ABOVE_OR_BELOW'];
+const ACCESS_LEVELS = ['USER_MODE', 'SYSTEM_MODE'];
+const FOR_CLAUSES = ['VIEW', 'UPDATE', 'REFERENCE'];
+const UPDATE_CLAUSES = ['TRACKING', 'VIEWSTAT'];
+const RECORD_VISIBILITY_PARAMS = ['maxDescriptorPerRecord', 'supportsDomains', 'supportsDelegates'];
+
+/**
+ * Thrown by assertValidQueryModel(), and by composeQuery() with strict=true, if the query is not structurally valid
+ */
+export class QueryModelError extends Error {
+  problems: QueryModelProblem[];
+
+  constructor(problems: QueryModelProblem[]) {
+    super(`Invalid query: ${problems.map(problem => problem.message).join('; ')}`);
+    // required for instanceof to work when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'QueryModelError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Checks that a Query object has the structure that is required to compose it, such as required properties,
+ * known field types, valid operators and balanced parentheses in the where and having clauses
+ * This is intended for queries that are built by hand or from untrusted input, queries from parseQuery() are always valid
+ * Salesforce restrictions are not checked, use validateQuery() for those
+ * @param query
+ * @returns a problem for each invalid property, or an empty array if the query is valid
+ */
+export function validateQueryModel(query: unknown): QueryModelProblem[] {
+  const problems: QueryModelProblem[] = [];
+  validateQueryOrSubquery(query, '', false, problems);
+  return problems;
+}
+
+/**
+ * Throws a QueryModelError with the path of each problem if the query is not structurally valid,
+ * e.x. `where.right.left.operator is required` or `fields[3].relationships must be non-empty`
+ * @param query
+ * @throws QueryModelError
+ */
+export function assertValidQueryModel(query: unknown): void {
+  const problems = validateQueryModel(query);
+  if (problems.length > 0) {
+    throw new QueryModelError(problems);
+  }
+}
+
+function validateQueryOrSubquery(query: unknown, path: string, isSubquery: boolean, problems: QueryModelProblem[]) {
+  const prefix = path ? `${path}.` : '';
+  const addProblem = (property: string, message: string) => problems.push(getProblem(`${prefix}${property}`, message));
+
+  if (!isPlainObject(query)) {
+    problems.push(getProblem(path || 'query', 'must be an object'));
+    return;
+  }
+
+  if (isSubquery) {
+    validateRequiredString(query.relationshipName, `${prefix}relationshipName`, problems);
+    validateOptionalStringArray(query.sObjectPrefix, `${prefix}sObjectPrefix`, problems);
+  } else {
+    validateRequiredString(query.sObject, `${prefix}sObject`, problems);
+  }
+  validateOptionalString(query.sObjectAlias, `${prefix}sObjectAlias`, problems);
+  validateOptionalString(query.usingScope, `${prefix}usingScope`, problems);
+
+  if (validateNonEmptyArray(query.fields, `${prefix}fields`, problems)) {
+    query.fields.forEach((field, i) => validateField(field, `${prefix}fields[${i}]`, isSubquery, problems));
+  }
+
+  if (!isNil(query.where)) {
+    validateConditions(query.where, `${prefix}where`, true, problems);
+  } else if (!isNil(query.whereGroup)) {
+    validateConditionGroup(query.whereGroup, `${prefix}whereGroup`, true, problems);
+  }
+
+  if (!isNil(query.groupBy)) {
+    validateGroupBy(query.groupBy, `${prefix}groupBy`, problems);
+  }
+  if (!isNil(query.having)) {
+    validateConditions(query.having, `${prefix}having`, false, problems);
+  } else if (!isNil(query.havingGroup)) {
+    validateConditionGroup(query.havingGroup, `${prefix}havingGroup`, false, problems);
+  }
+
+  if (!isNil(query.orderBy)) {
+    if (Array.isArray(query.orderBy)) {
+      query.orderBy.forEach((item, i) => validateOrderBy(item, `${prefix}orderBy[${i}]`, problems));
+    } else {
+      validateOrderBy(query.orderBy, `${prefix}orderBy`, problems);
+    }
+  }
+
+  validateLimitOrOffset(query.limit, `${prefix}limit`, problems);
+  validateLimitOrOffset(query.offset, `${prefix}offset`, problems);
+
+  if (!isNil(query.withDataCategory)) {
+    validateWithDataCategory(query.withDataCategory, `${prefix}withDataCategory`, problems);
+  }
+  if (!isNil(query.withRecordVisibility)) {
+    validateWithRecordVisibility(query.withRecordVisibility, `${prefix}withRecordVisibility`, problems);
+  }
+  if (!isNil(query.withSecurityEnforced) && !isBoolean(query.withSecurityEnforced)) {
+    addProblem('withSecurityEnforced', 'must be a boolean');
+  }
+  validateOptionalEnum(query.withAccessLevel, ACCESS_LEVELS, `${prefix}withAccessLevel`, problems);
+  validateOptionalEnum(query.for, FOR_CLAUSES, `${prefix}for`, problems);
+  validateOptionalEnum(query.update, UPDATE_CLAUSES, `${prefix}update`, problems);
+}
+
+function validateField(field: unknown, path: string, isSubquery: boolean, problems: QueryModelProblem[]) {
+  if (!isPlainObject(field)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  if (!validateEnum(field.type, FIELD_TYPES, `${path}.type`, problems)) {
+    return;
+  }
+  switch (field.type) {
+    case 'Field':
+      validateRequiredString(field.field, `${path}.field`, problems);
+      break;
+    case 'FieldFunctionExpression':
+      validateRequiredString(field.functionName, `${path}.functionName`, problems);
+      if (!isNil(field.parameters) && validateArray(field.parameters, `${path}.parameters`, problems)) {
+        field.parameters.forEach((param, i) => {
+          if (!isString(param)) {
+            validateField(param, `${path}.parameters[${i}]`, isSubquery, problems);
+          }
+        });
+      }
+      break;
+    case 'FieldRelationship':
+      validateRequiredString(field.field, `${path}.field`, problems);
+      if (validateNonEmptyArray(field.relationships, `${path}.relationships`, problems)) {
+        field.relationships.forEach((relationship, i) => validateRequiredString(relationship, `${path}.relationships[${i}]`, problems));
+      }
+      break;
+    case 'FieldSubquery':
+      validateQueryOrSubquery(field.subquery, `${path}.subquery`, true, problems);
+      break;
+    case 'FieldTypeof':
+      validateRequiredString(field.field, `${path}.field`, problems);
+      if (validateNonEmptyArray(field.conditions, `${path}.conditions`, problems)) {
+        field.conditions.forEach((condition, i) => {
+          const conditionPath = `${path}.conditions[${i}]`;
+          if (!isPlainObject(condition)) {
+            problems.push(getProblem(conditionPath, 'must be an object'));
+          } else if (validateEnum(condition.type, ['WHEN', 'ELSE'], `${conditionPath}.type`, problems)) {
+            if (condition.type === 'WHEN') {
+              validateRequiredString(condition.objectType, `${conditionPath}.objectType`, problems);
+            }
+            validateNonEmptyArray(condition.fieldList, `${conditionPath}.fieldList`, problems);
+          }
+        });
+      }
+      break;
+    case 'FieldFieldsFunction':
+      validateEnum(field.scope, FIELDS_FUNCTION_SCOPES, `${path}.scope`, problems);
+      break;
+  }
+  if (field.type !== 'FieldSubquery' && field.type !== 'FieldFieldsFunction') {
+    validateOptionalString(field.alias, `${path}.alias`, problems);
+  }
+}
+
+/**
+ * Validates each condition in the linked list and checks that the parentheses are balanced
+ */
+function validateConditions(where: unknown, path: string, allowValueQuery: boolean, problems: QueryModelProblem[]) {
+  const rootPath = path;
+  let parenDepth = 0;
+  let isParenDepthNegative = false;
+  while (!isNil(where)) {
+    if (!isPlainObject(where)) {
+      problems.push(getProblem(path, 'must be an object'));
+      return;
+    }
+    const { left } = where;
+    if (isNil(left)) {
+      problems.push(getProblem(`${path}.left`, 'is required'));
+    } else if (validateCondition(left, `${path}.left`, allowValueQuery, problems)) {
+      parenDepth += isNumber(left.openParen) ? left.openParen : 0;
+      parenDepth -= isNumber(left.closeParen) ? left.closeParen : 0;
+      isParenDepthNegative = isParenDepthNegative || parenDepth < 0;
+    }
+    if (!isNil(where.right)) {
+      validateEnum(where.operator, LOGICAL_OPERATORS, `${path}.operator`, problems);
+    }
+    path = `${path}.right`;
+    where = where.right;
+  }
+  if (parenDepth !== 0 || isParenDepthNegative) {
+    problems.push(getProblem(rootPath, 'has unbalanced parentheses, each openParen must have a matching closeParen'));
+  }
+}
+
+function validateConditionGroup(group: unknown, path: string, allowValueQuery: boolean, problems: QueryModelProblem[]) {
+  if (!isPlainObject(group)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  validateEnum(group.operator, LOGICAL_OPERATORS, `${path}.operator`, problems);
+  if (validateArray(group.children, `${path}.children`, problems)) {
+    group.children.forEach((child, i) => {
+      if (isPlainObject(child) && Array.isArray(child.children)) {
+        validateConditionGroup(child, `${path}.children[${i}]`, allowValueQuery, problems);
+      } else {
+        validateCondition(child, `${path}.children[${i}]`, allowValueQuery, problems);
+      }
+    });
+  }
+}
+
+/**
+ * @returns false if the condition is not an object
+ */
+function validateCondition(
+  condition: unknown,
+  path: string,
+  allowValueQuery: boolean,
+  problems: QueryModelProblem[],
+): condition is UnknownObject {
+  if (!isPlainObject(condition)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return false;
+  }
+  if (!isNil(condition.fn)) {
+    validateFunction(condition.fn, `${path}.fn`, problems);
+  } else if (isNil(condition.field)) {
+    problems.push(getProblem(`${path}.field`, 'is required if fn is not provided'));
+  } else {
+    validateRequiredString(condition.field, `${path}.field`, problems);
+  }
+  // the parser keeps the casing from the source, e.x. `like`
+  const operator = isString(condition.operator) ? condition.operator.toUpperCase() : condition.operator;
+  validateEnum(operator, OPERATORS, `${path}.operator`, problems);
+  validateOptionalNonNegativeInteger(condition.openParen, `${path}.openParen`, problems);
+  validateOptionalNonNegativeInteger(condition.closeParen, `${path}.closeParen`, problems);
+
+  if (!isNil(condition.valueQuery)) {
+    if (!allowValueQuery) {
+      problems.push(getProblem(`${path}.valueQuery`, 'is only supported in the where clause'));
+    } else {
+      validateQueryOrSubquery(condition.valueQuery, `${path}.valueQuery`, false, problems);
+    }
+  } else {
+    validateConditionValue(condition, operator, path, problems);
+  }
+  return true;
+}
+
+function validateConditionValue(condition: UnknownObject, operator: unknown, path: string, problems: QueryModelProblem[]) {
+  const { value, literalType } = condition;
+  if (isNil(value)) {
+    problems.push(getProblem(`${path}.value`, 'is required if valueQuery is not provided'));
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      problems.push(getProblem(`${path}.value`, 'must be non-empty'));
+    }
+    value.forEach((item, i) => validateRequiredString(item, `${path}.value[${i}]`, problems));
+  } else if (!isString(value)) {
+    problems.push(getProblem(`${path}.value`, 'must be a string or an array of strings'));
+  } else if (isString(operator) && LIST_OPERATORS.includes(operator) && literalType !== 'APEX_BIND_VARIABLE') {
+    problems.push(getProblem(`${path}.value`, `must be an array when the operator is ${condition.operator}`));
+  }
+
+  if (Array.isArray(literalType)) {
+    if (!Array.isArray(value) || literalType.length !== value.length) {
+      problems.push(getProblem(`${path}.literalType`, 'must have one literal type for each value'));
+    }
+    literalType.forEach((item, i) => validateEnum(item, LITERAL_TYPES, `${path}.literalType[${i}]`, problems));
+  } else {
+    validateOptionalEnum(literalType, LITERAL_TYPES, `${path}.literalType`, problems);
+  }
+}
+
+function validateFunction(fn: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isPlainObject(fn)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  if (isNil(fn.rawValue) && isNil(fn.functionName)) {
+    problems.push(getProblem(`${path}.functionName`, 'is required if rawValue is not provided'));
+  }
+  validateOptionalString(fn.rawValue, `${path}.rawValue`, problems);
+  validateOptionalString(fn.functionName, `${path}.functionName`, problems);
+  if (!isNil(fn.parameters) && validateArray(fn.parameters, `${path}.parameters`, problems)) {
+    fn.parameters.forEach((param, i) => {
+      if (!isString(param)) {
+        validateFunction(param, `${path}.parameters[${i}]`, problems);
+      }
+    });
+  }
+}
+
+function validateGroupBy(groupBy: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!Array.isArray(groupBy)) {
+    // LegacyGroupByClause
+    if (!isPlainObject(groupBy)) {
+      problems.push(getProblem(path, 'must be an array or an object'));
+    } else if (!isNil(groupBy.fn)) {
+      validateFunction(groupBy.fn, `${path}.fn`, problems);
+    } else if (Array.isArray(groupBy.field)) {
+      groupBy.field.forEach((field, i) => validateRequiredString(field, `${path}.field[${i}]`, problems));
+    } else {
+      validateRequiredString(groupBy.field, `${path}.field`, problems);
+    }
+    return;
+  }
+  groupBy.forEach((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isPlainObject(item)) {
+      problems.push(getProblem(itemPath, 'must be an object'));
+    } else if (!isNil(item.fn)) {
+      validateFunction(item.fn, `${itemPath}.fn`, problems);
+    } else {
+      validateRequiredString(item.field, `${itemPath}.field`, problems);
+    }
+  });
+}
+
+function validateOrderBy(orderBy: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isPlainObject(orderBy)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  if (!isNil(orderBy.fn)) {
+    validateFunction(orderBy.fn, `${path}.fn`, problems);
+  } else if (isNil(orderBy.field)) {
+    problems.push(getProblem(`${path}.field`, 'is required if fn is not provided'));
+  } else {
+    validateRequiredString(orderBy.field, `${path}.field`, problems);
+  }
+  validateOptionalEnum(orderBy.order, ['ASC', 'DESC'], `${path}.order`, problems);
+  validateOptionalEnum(orderBy.nulls, ['FIRST', 'LAST'], `${path}.nulls`, problems);
+}
+
+function validateLimitOrOffset(value: unknown, path: string, problems: QueryModelProblem[]) {
+  if (isNil(value)) {
+    return;
+  }
+  if (isPlainObject(value)) {
+    if (value.type !== 'ApexBindVariable') {
+      problems.push(getProblem(`${path}.type`, 'must be ApexBindVariable'));
+    }
+    validateRequiredString(value.value, `${path}.value`, problems);
+  } else {
+    validateOptionalNonNegativeInteger(value, path, problems);
+  }
+}
+
+function validateWithDataCategory(withDataCategory: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isPlainObject(withDataCategory)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  if (validateNonEmptyArray(withDataCategory.conditions, `${path}.conditions`, problems)) {
+    withDataCategory.conditions.forEach((condition, i) => {
+      const conditionPath = `${path}.conditions[${i}]`;
+      if (!isPlainObject(condition)) {
+        problems.push(getProblem(conditionPath, 'must be an object'));
+        return;
+      }
+      validateRequiredString(condition.groupName, `${conditionPath}.groupName`, problems);
+      validateEnum(condition.selector, GROUP_SELECTORS, `${conditionPath}.selector`, problems);
+      validateNonEmptyArray(condition.parameters, `${conditionPath}.parameters`, problems);
+    });
+  }
+}
+
+function validateWithRecordVisibility(withRecordVisibility: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isPlainObject(withRecordVisibility)) {
+    problems.push(getProblem(path, 'must be an object'));
+    return;
+  }
+  const params = Object.keys(withRecordVisibility).filter(param => !isNil(withRecordVisibility[param]));
+  if (params.length === 0) {
+    problems.push(getProblem(path, `must have at least one of ${RECORD_VISIBILITY_PARAMS.join(', ')}`));
+  }
+  params
+    .filter(param => !RECORD_VISIBILITY_PARAMS.includes(param))
+    .forEach(param =>
+      problems.push(getProblem(`${path}.${param}`, `is not supported, must be one of ${RECORD_VISIBILITY_PARAMS.join(', ')}`)),
+    );
+  validateOptionalNonNegativeInteger(withRecordVisibility.maxDescriptorPerRecord, `${path}.maxDescriptorPerRecord`, problems);
+  validateOptionalBoolean(withRecordVisibility.supportsDomains, `${path}.supportsDomains`, problems);
+  validateOptionalBoolean(withRecordVisibility.supportsDelegates, `${path}.supportsDelegates`, problems);
+}
+
+/**
+ * @returns true if the value is a non-empty string
+ */
+function validateRequiredString(value: unknown, path: string, problems: QueryModelProblem[]): boolean {
+  if (isNil(value)) {
+    problems.push(getProblem(path, 'is required'));
+    return false;
+  }
+  if (!isString(value) || value.trim().length === 0) {
+    problems.push(getProblem(path, 'must be a non-empty string'));
+    return false;
+  }
+  return true;
+}
+
+function validateOptionalString(value: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isNil(value) && !isString(value)) {
+    problems.push(getProblem(path, 'must be a string'));
+  }
+}
+
+function validateOptionalBoolean(value: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isNil(value) && !isBoolean(value)) {
+    problems.push(getProblem(path, 'must be a boolean'));
+  }
+}
+
+function validateOptionalStringArray(value: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isNil(value) && validateArray(value, path, problems)) {
+    value.forEach((item, i) => validateRequiredString(item, `${path}[${i}]`, problems));
+  }
+}
+
+function validateOptionalNonNegativeInteger(value: unknown, path: string, problems: QueryModelProblem[]) {
+  if (!isNil(value) && (!isNumber(value) || !Number.isInteger(value) || value < 0)) {
+    problems.push(getProblem(path, 'must be a non-negative integer'));
+  }
+}
+
+/**
+ * @returns true if the value is an array
+ */
+function validateArray(value: unknown, path: string, problems: QueryModelProblem[]): value is unknown[] {
+  if (isNil(value)) {
+    problems.push(getProblem(path, 'is required'));
+    return false;
+  }
+  if (!Array.isArray(value)) {
+    problems.push(getProblem(path, 'must be an array'));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @returns true if the value is an array with at least one item
+ */
+function validateNonEmptyArray(value: unknown, path: string, problems: QueryModelProblem[]): value is unknown[] {
+  if (!validateArray(value, path, problems)) {
+    return false;
+  }
+  if (value.length === 0) {
+    problems.push(getProblem(path, 'must be non-empty'));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @returns true if the value is one of the allowed values
+ */
+function validateEnum(value: unknown, allowedValues: string[], path: string, problems: QueryModelProblem[]): boolean {
+  if (isNil(value)) {
+    problems.push(getProblem(path, 'is required'));
+    return false;
+  }
+  if (!isString(value) || !allowedValues.includes(value)) {
+    problems.push(getProblem(path, `must be one of ${allowedValues.join(', ')}`));
+    return false;
+  }
+  return true;
+}
+
+function validateOptionalEnum(value: unknown, allowedValues: string[], path: string, problems: QueryModelProblem[]) {
+  if (!isNil(value)) {
+    validateEnum(value, allowedValues, path, problems);
+  }
+}
+
+function getProblem(path: string, message: string): QueryModelProblem {
+  return { path, message: `${path} ${message}` };
+}
+
+function isPlainObject(value: unknown): value is UnknownObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,171 @@
+import {
+  ApexBindVariable,
+  BindParameters,
+  BindParameterValue,
+  LiteralType,
+  Query,
+  QueryValidationDiagnostic,
+  Subquery,
+  WhereClause,
+} from './api-models';
+import { escapeSoqlString, getLineStarts, getLiteralFromValue, getSourceLocation, isApexBindVariable } from '../utils';
+
+export { escapeSoqlString };
+
+const LIST_OPERATORS = ['IN', 'NOT IN', 'INCLUDES', 'EXCLUDES'];
+// \_ and \% are only meaningful in LIKE values, but are accepted in every string literal
+const VALID_ESCAPE_SEQUENCE = /^\\(?:[nNrRtTbBfF"'\\_%]|u[0-9a-fA-F]{4})/;
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f\u2028\u2029]/g;
+const CONTROL_CHARACTER_NAMES: { [char: string]: string } = { '\n': 'new line', '\r': 'carriage return', '\t': 'tab' };
+
+/**
+ * Returns a copy of the query with each apex bind variable replaced with the value of the parameter with the same name
+ * Strings are always escaped, so a parameter cannot change the structure of the query, e.x. x' OR Name != ' -> 'x\' OR Name != \''
+ * Bind variables in the where and having clauses, limit, offset, subqueries and semi-join queries are replaced
+ * The query must be parsed with allowApexBindVariables=true, or have conditions with a literalType of APEX_BIND_VARIABLE
+ *
+ * @param query
+ * @param params values keyed by the name of the bind variable, e.x. { name: 'Acme' } for `Name = :name`
+ * @throws Error if a parameter was not provided for a bind variable or if a parameter cannot be used where the bind variable is used
+ */
+export function bindParameters<T extends Query | Subquery>(query: T, params: BindParameters): T {
+  const output: T = { ...query };
+  if (query.where) {
+    output.where = bindWhereClauseParameters(query.where, params);
+  }
+  if (query.having) {
+    output.having = bindWhereClauseParameters(query.having, params);
+  }
+  if (isApexBindVariable(query.limit)) {
+    output.limit = getLimitOrOffset(query.limit, params);
+  }
+  if (isApexBindVariable(query.offset)) {
+    output.offset = getLimitOrOffset(query.offset, params);
+  }
+  output.fields = query.fields.map(field =>
+    field.type === 'FieldSubquery' ? { ...field, subquery: bindParameters(field.subquery, params) } : field,
+  );
+  return output;
+}
+
+/**
+ * Finds string literals in composed soql that Salesforce would reject or that were likely built by concatenating unescaped input,
+ * such as literals that contain a new line, an invalid escape sequence or that are not terminated
+ * The soql does not need to be valid, so this can be used for queries that cannot be parsed
+ * @param soql
+ * @returns diagnostics with the location of each problem, path is always empty
+ */
+export function analyzeStringLiterals(soql: string): QueryValidationDiagnostic[] {
+  const lineStarts = getLineStarts(soql);
+  const diagnostics: QueryValidationDiagnostic[] = [];
+  const addDiagnostic = (code: QueryValidationDiagnostic['code'], message: string, startOffset: number, endOffset: number) => {
+    diagnostics.push({ code, severity: 'error', message, path: '', loc: getSourceLocation(startOffset, endOffset, lineStarts) });
+    return diagnostics[diagnostics.length - 1];
+  };
+
+  let position = 0;
+  while (position < soql.length) {
+    if (soql[position] !== "'") {
+      position++;
+      continue;
+    }
+    const startOffset = position;
+    let isTerminated = false;
+    position++;
+    while (position < soql.length && !isTerminated) {
+      if (soql[position] === '\\') {
+        const sequence = soql.substr(position, 6).match(VALID_ESCAPE_SEQUENCE);
+        if (!sequence) {
+          const invalidSequence = soql.substr(position, 2);
+          addDiagnostic('INVALID_ESCAPE_SEQUENCE', `${invalidSequence} is not a valid escape sequence.`, position, position + 1);
+        }
+        position += sequence ? sequence[0].length : 2;
+      } else {
+        isTerminated = soql[position] === "'";
+        position++;
+      }
+    }
+
+    const endOffset = Math.min(position, soql.length) - 1;
+    const literal = soql.substring(startOffset, endOffset + 1);
+    const controlCharacters = literal.match(CONTROL_CHARACTERS);
+    if (controlCharacters) {
+      const name =
+        CONTROL_CHARACTER_NAMES[controlCharacters[0]] || `U+${`000${controlCharacters[0].charCodeAt(0).toString(16)}`.slice(-4)}`;
+      const diagnostic = addDiagnostic(
+        'UNESCAPED_CONTROL_CHARACTER',
+        `String literal contains an unescaped ${name} character, control characters must be escaped.`,
+        startOffset,
+        endOffset,
+      );
+      diagnostic.suggestion = literal.replace(CONTROL_CHARACTERS, escapeSoqlString);
+    }
+    if (!isTerminated) {
+      addDiagnostic('UNTERMINATED_STRING_LITERAL', 'String literal does not have a closing quote.', startOffset, endOffset);
+    }
+  }
+
+  return diagnostics;
+}
+
+function bindWhereClauseParameters(where: WhereClause, params: BindParameters): WhereClause {
+  const left = { ...where.left };
+  if (left.valueQuery) {
+    left.valueQuery = bindParameters(left.valueQuery, params);
+  } else if (Array.isArray(left.literalType) && Array.isArray(left.value)) {
+    const literalTypes = left.literalType;
+    const values = left.value.map((value, i) =>
+      literalTypes[i] === 'APEX_BIND_VARIABLE' ? getLiteral(getParameter(value, params), value) : { value, literalType: literalTypes[i] },
+    );
+    left.value = values.map(item => item.value);
+    left.literalType = values.map(item => item.literalType);
+  } else if (left.literalType === 'APEX_BIND_VARIABLE' && typeof left.value === 'string') {
+    const name = left.value;
+    const param = getParameter(name, params);
+    if (Array.isArray(param)) {
+      if (!LIST_OPERATORS.includes((left.operator || '').toUpperCase())) {
+        throw new Error(`:${name} is a list, which can only be used with ${LIST_OPERATORS.join(', ')}`);
+      }
+      if (param.length === 0) {
+        throw new Error(`:${name} is an empty list, which cannot be used in a query`);
+      }
+      const values = param.map(item => getLiteral(item, name));
+      left.value = values.map(item => item.value);
+      left.literalType = values.map(item => item.literalType);
+    } else {
+      const { value, literalType } = getLiteral(param, name);
+      left.value = value;
+      left.literalType = literalType;
+    }
+  }
+  return where.right ? { ...where, left, right: bindWhereClauseParameters(where.right, params) } : { ...where, left };
+}
+
+function getParameter(name: string, params: BindParameters): BindParameterValue | BindParameterValue[] {
+  if (!Object.prototype.hasOwnProperty.call(params, name)) {
+    throw new Error(`A parameter was not provided for the bind variable :${name}`);
+  }
+  return params[name];
+}
+
+function getLimitOrOffset(bindVariable: ApexBindVariable, params: BindParameters): number {
+  const value = getParameter(bindVariable.value, params);
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`:${bindVariable.value} must be a non-negative integer when used for LIMIT or OFFSET`);
+  }
+  return value;
+}
+
+/**
+ * Returns the value and literal type that are used in a condition for a parameter, strings are escaped and quoted
+ */
+function getLiteral(param: BindParameterValue | BindParameterValue[], name: string): { value: string; literalType: LiteralType } {
+  if (Array.isArray(param)) {
+    throw new Error(`:${name} is a list, which cannot be used within a list`);
+  }
+  const literal = getLiteralFromValue(param);
+  if (!literal) {
+    throw new Error(`:${name} must be a string, number, boolean, Date or null`);
+  }
+  return literal;
+}
@@ -0,0 +1,375 @@
+import { Query } from './api-models';
+import { validateQueryModel } from './query-model-validator';
+import { isNil } from '../utils';
+
+/**
+ * Subset of JSON Schema draft-07 that is used by querySchema
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  minItems?: number;
+  properties?: { [property: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: { [name: string]: JsonSchema };
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+const STRING: JsonSchema = { type: 'string' };
+// used for object, relationship, field and function names
+const NAME: JsonSchema = { type: 'string', minLength: 1 };
+const BOOLEAN: JsonSchema = { type: 'boolean' };
+const NON_NEGATIVE_INTEGER: JsonSchema = { type: 'integer', minimum: 0 };
+const STRING_ARRAY: JsonSchema = { type: 'array', items: STRING };
+const LOGICAL_OPERATOR = stringEnum(['AND', 'OR']);
+const LITERAL_TYPE = stringEnum([
+  'STRING',
+  'INTEGER',
+  'DECIMAL',
+  'INTEGER_WITH_CURRENCY_PREFIX',
+  'DECIMAL_WITH_CURRENCY_PREFIX',
+  'BOOLEAN',
+  'NULL',
+  'DATETIME',
+  'DATE',
+  'DATE_LITERAL',
+  'DATE_N_LITERAL',
+  'APEX_BIND_VARIABLE',
+]);
+
+const QUERY_BASE_PROPERTIES: { [property: string]: JsonSchema } = {
+  fields: { type: 'array', items: ref('FieldType'), minItems: 1 },
+  sObjectAlias: STRING,
+  usingScope: STRING,
+  where: ref('WhereClause'),
+  whereGroup: ref('ConditionGroup'),
+  limit: { anyOf: [NON_NEGATIVE_INTEGER, ref('ApexBindVariable')] },
+  offset: { anyOf: [NON_NEGATIVE_INTEGER, ref('ApexBindVariable')] },
+  groupBy: { anyOf: [{ type: 'array', items: ref('GroupByClause') }, ref('LegacyGroupByClause')] },
+  having: ref('HavingClause'),
+  havingGroup: ref('ConditionGroup'),
+  orderBy: { anyOf: [ref('OrderByClause'), { type: 'array', items: ref('OrderByClause') }] },
+  withDataCategory: ref('WithDataCategoryClause'),
+  withSecurityEnforced: BOOLEAN,
+  withAccessLevel: stringEnum(['USER_MODE', 'SYSTEM_MODE']),
+  withRecordVisibility: ref('WithRecordVisibilityClause'),
+  for: stringEnum(['VIEW', 'UPDATE', 'REFERENCE']),
+  update: stringEnum(['TRACKING', 'VIEWSTAT']),
+  loc: ref('SourceLocation'),
+  clauseLocations: ref('ClauseLocations'),
+};
+
+/**
+ * JSON Schema (draft-07) of the Query data model, each data model that is used by a query is included in `definitions`,
+ * e.x. `#/definitions/Subquery` or `#/definitions/WhereClause`
+ * Properties that are not part of the data model are not allowed
+ */
+export const querySchema: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Query',
+  $ref: '#/definitions/Query',
+  definitions: {
+    Query: object({ ...QUERY_BASE_PROPERTIES, sObject: NAME }, ['fields', 'sObject']),
+    Subquery: object({ ...QUERY_BASE_PROPERTIES, relationshipName: NAME, sObjectPrefix: STRING_ARRAY }, ['fields', 'relationshipName']),
+    FieldType: {
+      anyOf: [
+        ref('Field'),
+        ref('FieldFunctionExpression'),
+        ref('FieldRelationship'),
+        ref('FieldSubquery'),
+        ref('FieldTypeOf'),
+        ref('FieldFieldsFunction'),
+      ],
+    },
+    Field: object(
+      { type: { const: 'Field' }, field: NAME, objectPrefix: STRING, rawValue: STRING, alias: STRING, loc: ref('SourceLocation') },
+      ['type', 'field'],
+    ),
+    FieldFunctionExpression: object(
+      {
+        type: { const: 'FieldFunctionExpression' },
+        functionName: NAME,
+        parameters: { type: 'array', items: { anyOf: [STRING, ref('FieldFunctionExpression')] } },
+        alias: STRING,
+        isAggregateFn: BOOLEAN,
+        rawValue: STRING,
+        loc: ref('SourceLocation'),
+      },
+      ['type', 'functionName', 'parameters'],
+    ),
+    FieldFieldsFunction: object(
+      {
+        type: { const: 'FieldFieldsFunction' },
+        scope: stringEnum(['ALL', 'STANDARD', 'CUSTOM']),
+        rawValue: STRING,
+        loc: ref('SourceLocation'),
+      },
+      ['type', 'scope'],
+    ),
+    FieldRelationship: object(
+      {
+        type: { const: 'FieldRelationship' },
+        field: NAME,
+        relationships: { type: 'array', items: NAME, minItems: 1 },
+        objectPrefix: STRING,
+        rawValue: STRING,
+        alias: STRING,
+        loc: ref('SourceLocation'),
+      },
+      ['type', 'field', 'relationships'],
+    ),
+    FieldSubquery: object({ type: { const: 'FieldSubquery' }, subquery: ref('Subquery'), loc: ref('SourceLocation') }, [
+      'type',
+      'subquery',
+    ]),
+    FieldTypeOf: object(
+      {
+        type: { const: 'FieldTypeof' },
+        field: NAME,
+        conditions: { type: 'array', items: ref('FieldTypeOfCondition'), minItems: 1 },
+        loc: ref('SourceLocation'),
+      },
+      ['type', 'field', 'conditions'],
+    ),
+    FieldTypeOfCondition: object({ type: stringEnum(['WHEN', 'ELSE']), objectType: STRING, fieldList: STRING_ARRAY }, [
+      'type',
+      'fieldList',
+    ]),
+    ApexBindVariable: object({ type: { const: 'ApexBindVariable' }, value: STRING }, ['type', 'value']),
+    WhereClause: object({ left: ref('Condition'), right: ref('WhereClause'), operator: LOGICAL_OPERATOR }, ['left']),
+    HavingClause: object({ left: ref('Condition'), right: ref('HavingClause'), operator: LOGICAL_OPERATOR }, ['left']),
+    Condition: object(
+      {
+        openParen: NON_NEGATIVE_INTEGER,
+        closeParen: NON_NEGATIVE_INTEGER,
+        negatedParens: { type: 'array', items: NON_NEGATIVE_INTEGER },
+        logicalPrefix: { const: 'NOT' },
+        field: NAME,
+        fn: ref('FunctionExp'),
+        // the parser keeps the casing from the source, e.x. `like`
+        operator: caseInsensitiveStringEnum(['=', '!=', '<=', '>=', '>', '<', 'LIKE', 'IN', 'NOT IN', 'INCLUDES', 'EXCLUDES']),
+        value: { anyOf: [STRING, STRING_ARRAY] },
+        literalType: { anyOf: [LITERAL_TYPE, { type: 'array', items: LITERAL_TYPE }] },
+        // items are null for values that are not a DATE_N_LITERAL
+        dateLiteralVariable: { anyOf: [{ type: 'number' }, { type: 'array', items: { type: ['number', 'null'] } }] },
+        valueQuery: ref('Query'),
+        loc: ref('SourceLocation'),
+      },
+      ['operator'],
+      // a condition is compared to a value or to the results of a semi-join query
+      [{ required: ['value'] }, { required: ['valueQuery'] }],
+    ),
+    ConditionGroup: object(
+      {
+        operator: LOGICAL_OPERATOR,
+        negated: BOOLEAN,
+        children: { type: 'array', items: { anyOf: [ref('ConditionGroup'), ref('Condition')] } },
+      },
+      ['operator', 'negated', 'children'],
+    ),
+    OrderByClause: object(
+      {
+        field: NAME,
+        fn: ref('FunctionExp'),
+        order: stringEnum(['ASC', 'DESC']),
+        nulls: stringEnum(['FIRST', 'LAST']),
+        loc: ref('SourceLocation'),
+      },
+      [],
+    ),
+    GroupByClause: { anyOf: [ref('GroupByFieldClause'), ref('GroupByFnClause')] },
+    GroupByFieldClause: object({ field: NAME, loc: ref('SourceLocation') }, ['field']),
+    GroupByFnClause: object({ fn: ref('FunctionExp'), loc: ref('SourceLocation') }, ['fn']),
+    LegacyGroupByClause: object(
+      { field: { anyOf: [STRING, STRING_ARRAY] }, fn: ref('FunctionExp'), having: ref('HavingClause'), loc: ref('SourceLocation') },
+      [],
+    ),
+    FunctionExp: object(
+      {
+        rawValue: STRING,
+        functionName: STRING,
+        alias: STRING,
+        parameters: { type: 'array', items: { anyOf: [STRING, ref('FunctionExp')] } },
+        isAggregateFn: BOOLEAN,
+        loc: ref('SourceLocation'),
+      },
+      [],
+    ),
+    WithDataCategoryClause: object({ conditions: { type: 'array', items: ref('WithDataCategoryCondition') } }, ['conditions']),
+    WithDataCategoryCondition: object(
+      { groupName: STRING, selector: stringEnum(['ABOVE', 'AT', 'BELOW', 'ABOVE_OR_BELOW']), parameters: STRING_ARRAY },
+      ['groupName', 'selector', 'parameters'],
+    ),
+    WithRecordVisibilityClause: object(
+      { maxDescriptorPerRecord: { type: 'number' }, supportsDomains: BOOLEAN, supportsDelegates: BOOLEAN },
+      [],
+    ),
+    SourceLocation: object(
+      {
+        startOffset: { type: 'integer' },
+        endOffset: { type: 'integer' },
+        startLine: { type: 'integer' },
+        startColumn: { type: 'integer' },
+        endLine: { type: 'integer' },
+        endColumn: { type: 'integer' },
+      },
+      ['startOffset', 'endOffset', 'startLine', 'startColumn', 'endLine', 'endColumn'],
+    ),
+    ClauseLocations: object(
+      {
+        select: ref('SourceLocation'),
+        from: ref('SourceLocation'),
+        usingScope: ref('SourceLocation'),
+        where: ref('SourceLocation'),
+        with: { type: 'array', items: ref('SourceLocation') },
+        groupBy: ref('SourceLocation'),
+        having: ref('SourceLocation'),
+        orderBy: ref('SourceLocation'),
+        limit: ref('SourceLocation'),
+        offset: ref('SourceLocation'),
+        for: ref('SourceLocation'),
+        update: ref('SourceLocation'),
+      },
+      [],
+    ),
+  },
+};
+
+/**
+ * Returns true if the value matches querySchema and validateQueryModel() does not report any problems,
+ * which can be used to check a query that was received as JSON before it is composed
+ * The schema cannot describe every rule, such as balanced parentheses, use validateQueryModel() to find out why a query is invalid
+ * @param value
+ */
+export function isQuery(value: unknown): value is Query {
+  return matchesSchema(value, querySchema) && validateQueryModel(value).length === 0;
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/definitions/${name}` };
+}
+
+function stringEnum(values: string[]): JsonSchema {
+  return { type: 'string', enum: values };
+}
+
+/**
+ * JSON Schema patterns do not support flags, so each letter is matched as a character class, e.x. `[Ll][Ii][Kk][Ee]`
+ */
+function caseInsensitiveStringEnum(values: string[]): JsonSchema {
+  const alternatives = values.map(value =>
+    value
+      .split('')
+      .map(char =>
+        char.toUpperCase() !== char.toLowerCase()
+          ? `[${char.toUpperCase()}${char.toLowerCase()}]`
+          : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      )
+      .join(''),
+  );
+  return { type: 'string', pattern: `^(${alternatives.join('|')})$` };
+}
+
+function object(properties: { [property: string]: JsonSchema }, required: string[], anyOf?: JsonSchema[]): JsonSchema {
+  const output: JsonSchema = { type: 'object', properties, required, additionalProperties: false };
+  if (anyOf) {
+    output.anyOf = anyOf;
+  }
+  return output;
+}
+
+/**
+ * Checks a value against the subset of JSON Schema that is supported by JsonSchema, references are resolved against querySchema
+ */
+function matchesSchema(value: unknown, schema: JsonSchema): boolean {
+  if (schema.$ref) {
+    return matchesSchema(value, querySchema.definitions[schema.$ref.replace('#/definitions/', '')]);
+  }
+  if (schema.anyOf && !schema.anyOf.some(item => matchesSchema(value, item))) {
+    return false;
+  }
+  if (schema.hasOwnProperty('const') && value !== schema.const) {
+    return false;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return false;
+  }
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => isType(value, type))) {
+      return false;
+    }
+  }
+  if (isNumberValue(value) && !isNil(schema.minimum) && value < schema.minimum) {
+    return false;
+  }
+  if (typeof value === 'string' && !isNil(schema.minLength) && value.length < schema.minLength) {
+    return false;
+  }
+  if (typeof value === 'string' && !isNil(schema.pattern) && !new RegExp(schema.pattern).test(value)) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    if (!isNil(schema.minItems) && value.length < schema.minItems) {
+      return false;
+    }
+    // items that are undefined are converted to null by JSON.stringify()
+    return !schema.items || value.every(item => matchesSchema(item === undefined ? null : item, schema.items));
+  }
+  if (isObjectValue(value)) {
+    const properties = schema.properties || {};
+    // properties that are undefined are treated as missing, which matches the output of JSON.stringify()
+    if ((schema.required || []).some(property => value[property] === undefined)) {
+      return false;
+    }
+    return Object.keys(value).every(property => {
+      if (value[property] === undefined) {
+        return true;
+      }
+      if (!properties.hasOwnProperty(property)) {
+        return schema.additionalProperties !== false;
+      }
+      return matchesSchema(value[property], properties[property]);
+    });
+  }
+  return true;
+}
+
+function isType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return isNumberValue(value);
+    case 'integer':
+      return isNumberValue(value) && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isObjectValue(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function isNumberValue(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function isObjectValue(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
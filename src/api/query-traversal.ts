@@ -0,0 +1,442 @@
+import {
+  Condition,
+  ConditionGroup,
+  Field,
+  FieldFieldsFunction,
+  FieldFunctionExpression,
+  FieldRelationship,
+  FieldSubquery,
+  FieldType,
+  FieldTypeOf,
+  FunctionExp,
+  GroupByClause,
+  HavingClause,
+  LegacyGroupByClause,
+  OrderByClause,
+  Query,
+  Subquery,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { getConditionGroupFromWhereClause, getConditionTreeFromWhereClause, getWhereClauseFromConditionTree } from './condition-groups';
+import { ConditionTreeNode } from '../models';
+import { isConditionGroup, isString } from '../utils';
+
+/**
+ * Each type of node that is visited by walkQuery() and transformQuery(), keyed by the name that is used in a visitor
+ */
+export interface QueryNodeTypes {
+  Query: Query; // the root query and each semi-join or anti-join query
+  Subquery: Subquery;
+  Field: Field;
+  FieldFunctionExpression: FieldFunctionExpression;
+  FieldRelationship: FieldRelationship;
+  FieldSubquery: FieldSubquery;
+  FieldTypeof: FieldTypeOf;
+  FieldFieldsFunction: FieldFieldsFunction;
+  Condition: Condition & ValueQuery; // conditions of the where and having clauses
+  OrderBy: OrderByClause;
+  GroupBy: GroupByClause | LegacyGroupByClause;
+  FunctionExp: FunctionExp; // functions of conditions, order by and group by and their function parameters
+}
+
+export type QueryNodeType = keyof QueryNodeTypes;
+export type QueryNode = QueryNodeTypes[QueryNodeType];
+
+export interface QueryNodeContext<T = QueryNode> {
+  node: T;
+  type: QueryNodeType;
+  path: string; // path to the node from the root query, e.x. fields[2].subquery.where.right.left, empty for the root query
+  parent?: QueryNodeContext; // context of the closest visited ancestor, not populated for the root query
+}
+
+/**
+ * A node can be replaced with any field, or with a node of the same type for all other nodes
+ */
+export interface QueryNodeReplacementTypes
+  extends Pick<QueryNodeTypes, 'Query' | 'Subquery' | 'Condition' | 'OrderBy' | 'GroupBy' | 'FunctionExp'> {
+  Field: FieldType;
+  FieldFunctionExpression: FieldType;
+  FieldRelationship: FieldType;
+  FieldSubquery: FieldType;
+  FieldTypeof: FieldType;
+  FieldFieldsFunction: FieldType;
+}
+
+// return false from enter() to skip the children of the node, any other value is ignored
+export type QueryWalkCallback<T> = (node: T, context: QueryNodeContext<T>) => unknown;
+export type QueryTransformCallback<T, R> = (node: T, context: QueryNodeContext<T>) => R | null | undefined | void;
+
+/**
+ * Callbacks keyed by node type, a function is called when the node is entered
+ * enter() is called before the children of the node are visited and can return false to skip the children
+ * leave() is called after the children of the node are visited
+ */
+export type QueryWalkVisitor = {
+  [K in QueryNodeType]?:
+    | QueryWalkCallback<QueryNodeTypes[K]>
+    | {
+        enter?: QueryWalkCallback<QueryNodeTypes[K]>;
+        leave?: (node: QueryNodeTypes[K], context: QueryNodeContext<QueryNodeTypes[K]>) => void;
+      };
+};
+
+/**
+ * Callbacks keyed by node type, a function is called when the node is entered
+ * Return a node to replace the node, null to remove the node or undefined to keep the node
+ * enter() is called before the children of the node are transformed, so the children of a replacement are also visited
+ * leave() is called with the node after the children of the node have been transformed
+ */
+export type QueryTransformVisitor = {
+  [K in QueryNodeType]?:
+    | QueryTransformCallback<QueryNodeTypes[K], QueryNodeReplacementTypes[K]>
+    | {
+        enter?: QueryTransformCallback<QueryNodeTypes[K], QueryNodeReplacementTypes[K]>;
+        leave?: QueryTransformCallback<QueryNodeTypes[K], QueryNodeReplacementTypes[K]>;
+      };
+};
+
+type QueryVisitorCallback<K extends QueryNodeType> = (node: QueryNodeTypes[K], context: QueryNodeContext<QueryNodeTypes[K]>) => unknown;
+type QueryVisitorCallbacks<K extends QueryNodeType> =
+  | QueryVisitorCallback<K>
+  | { enter?: QueryVisitorCallback<K>; leave?: QueryVisitorCallback<K> };
+
+/**
+ * Shape shared by QueryWalkVisitor and QueryTransformVisitor, the result of each callback is interpreted by visitNode()
+ */
+type QueryVisitor = { [K in QueryNodeType]?: QueryVisitorCallbacks<K> };
+
+interface TraversalState {
+  visitor: QueryVisitor;
+  isTransform: boolean;
+}
+
+/**
+ * Visits every node of the query in the order that it would be composed, including subqueries, semi-join queries and function parameters
+ * If where and whereGroup are both populated, only the conditions of where are visited, the same applies to having
+ * e.x. `walkQuery(query, { Field: (field, { path }) => console.log(path, field.field) })`
+ * @param query
+ * @param visitor
+ */
+export function walkQuery(query: Query, visitor: QueryWalkVisitor): void {
+  visitQuery(query, 'Query', '', undefined, { visitor, isTransform: false });
+}
+
+/**
+ * Returns a new query with the nodes that were replaced or removed by the visitor, the query that is passed in is not modified
+ * If a node that is required by its parent is removed, such as the subquery of a FieldSubquery or the fn of a group by, the parent is also removed
+ * If a condition is removed, the parentheses of the where or having clause are updated, whereGroup and havingGroup are updated if populated
+ * e.x. `transformQuery(query, { Field: field => (field.field === 'Secret__c' ? null : undefined) })`
+ * @param query
+ * @param visitor
+ * @throws Error if the root query is removed
+ */
+export function transformQuery(query: Query, visitor: QueryTransformVisitor): Query {
+  const output = visitQuery(query, 'Query', '', undefined, { visitor, isTransform: true });
+  if (!output) {
+    throw new Error('The root query cannot be removed');
+  }
+  return output;
+}
+
+/**
+ * Calls the callbacks of the visitor for the node and visits the children of the node
+ * @returns the node, the replacement of the node or null if the node was removed
+ */
+function visitNode<K extends QueryNodeType, T extends QueryNodeTypes[K]>(
+  type: K,
+  node: T,
+  path: string,
+  parent: QueryNodeContext | undefined,
+  state: TraversalState,
+  visitChildren: (node: T, context: QueryNodeContext<T>) => T | null,
+): T | null {
+  // QueryVisitor[K] is not resolved to QueryVisitorCallbacks<K> for a generic key, so the type is narrowed here
+  const callbacks = state.visitor[type] as QueryVisitorCallbacks<K> | undefined;
+  const enter = typeof callbacks === 'function' ? callbacks : callbacks && callbacks.enter;
+  const leave = typeof callbacks === 'function' ? undefined : callbacks && callbacks.leave;
+  const context: QueryNodeContext<T> = { node, type, path, parent };
+  let skipChildren = false;
+
+  if (enter) {
+    const result = enter(node, context);
+    if (!state.isTransform) {
+      skipChildren = result === false;
+    } else if (result === null) {
+      return null;
+    } else if (result) {
+      // a replacement has the type of the node, or any field type for a field, visitChildren() checks the type of fields
+      node = context.node = result as T;
+    }
+  }
+  if (!skipChildren) {
+    const output = visitChildren(node, context);
+    if (!output) {
+      return null;
+    }
+    node = context.node = output;
+  }
+  if (leave) {
+    const result = leave(node, context);
+    if (state.isTransform && result !== undefined) {
+      return result as T | null;
+    }
+  }
+  return node;
+}
+
+function visitQuery<T extends Query | Subquery>(
+  query: T,
+  type: 'Query' | 'Subquery',
+  path: string,
+  parent: QueryNodeContext | undefined,
+  state: TraversalState,
+): T | null {
+  return visitNode(type, query, path, parent, state, (node, context) => {
+    const prefix = path ? `${path}.` : '';
+    const output = new NodeUpdate(node);
+    output.set(
+      'fields',
+      mapNodes(node.fields, (field, i) => visitField(field, `${prefix}fields[${i}]`, context, state)),
+    );
+
+    if (node.where) {
+      output.set('where', visitConditions(node.where, `${prefix}where`, context, state));
+      if (node.whereGroup && output.isChanged('where')) {
+        output.set('whereGroup', output.value.where && getConditionGroupFromWhereClause(output.value.where));
+      }
+    } else if (node.whereGroup) {
+      output.set('whereGroup', visitConditionGroup(node.whereGroup, `${prefix}whereGroup`, context, state));
+    }
+
+    if (Array.isArray(node.groupBy)) {
+      output.set(
+        'groupBy',
+        mapNodes(node.groupBy, (groupBy, i) => visitGroupBy(groupBy, `${prefix}groupBy[${i}]`, context, state)),
+      );
+    } else if (node.groupBy) {
+      output.set('groupBy', visitGroupBy(node.groupBy, `${prefix}groupBy`, context, state));
+    }
+
+    if (node.having) {
+      output.set('having', visitConditions(node.having, `${prefix}having`, context, state));
+      if (node.havingGroup && output.isChanged('having')) {
+        output.set('havingGroup', output.value.having && getConditionGroupFromWhereClause(output.value.having));
+      }
+    } else if (node.havingGroup) {
+      output.set('havingGroup', visitConditionGroup(node.havingGroup, `${prefix}havingGroup`, context, state));
+    }
+
+    if (Array.isArray(node.orderBy)) {
+      output.set(
+        'orderBy',
+        mapNodes(node.orderBy, (orderBy, i) => visitOrderBy(orderBy, `${prefix}orderBy[${i}]`, context, state)),
+      );
+    } else if (node.orderBy) {
+      output.set('orderBy', visitOrderBy(node.orderBy, `${prefix}orderBy`, context, state));
+    }
+    return output.value;
+  });
+}
+
+function visitField(field: FieldType, path: string, parent: QueryNodeContext, state: TraversalState): FieldType | null {
+  return visitNode(field.type, field, path, parent, state, (node, context) => {
+    switch (node.type) {
+      case 'FieldFunctionExpression': {
+        if (!node.parameters) {
+          return node;
+        }
+        const parameters = mapNodes(node.parameters, (param, i) =>
+          isString(param) ? param : (visitField(param, `${path}.parameters[${i}]`, context, state) as FieldFunctionExpression),
+        );
+        return parameters === node.parameters ? node : { ...node, parameters };
+      }
+      case 'FieldSubquery': {
+        const subquery = visitQuery(node.subquery, 'Subquery', `${path}.subquery`, context, state);
+        return subquery && (subquery === node.subquery ? node : { ...node, subquery });
+      }
+      default:
+        return node;
+    }
+  });
+}
+
+/**
+ * Visits each condition of a where or having clause
+ * If a condition was replaced or removed, the clause is rebuilt from the condition tree so the parentheses remain balanced
+ */
+function visitConditions<T extends WhereClause | HavingClause>(
+  where: T,
+  path: string,
+  parent: QueryNodeContext,
+  state: TraversalState,
+): T | undefined {
+  const conditions: (Condition & ValueQuery)[] = [];
+  const outputConditions: ((Condition & ValueQuery) | null)[] = [];
+  let current: WhereClause | HavingClause | undefined = where;
+  let currentPath = path;
+  while (current) {
+    conditions.push(current.left);
+    outputConditions.push(visitCondition(current.left, `${currentPath}.left`, parent, state));
+    current = current.right;
+    currentPath = `${currentPath}.right`;
+  }
+  if (outputConditions.every((condition, i) => condition === conditions[i])) {
+    return where;
+  }
+
+  let index = 0;
+  const replaceConditions = (node: ConditionTreeNode): ConditionTreeNode | undefined => {
+    switch (node.type) {
+      case 'logical': {
+        const children = node.children.map(replaceConditions).filter(child => !!child);
+        return children.length > 1 ? { ...node, children } : children[0];
+      }
+      case 'paren': {
+        const child = replaceConditions(node.child);
+        // parentheses are not needed if only one condition remains
+        return child && (child.type === 'condition' && !node.negated ? child : { ...node, child });
+      }
+      default: {
+        const condition = outputConditions[index++];
+        return condition ? { ...node, condition, negated: condition.logicalPrefix === 'NOT' } : undefined;
+      }
+    }
+  };
+  const conditionTree = replaceConditions(getConditionTreeFromWhereClause(where));
+  return conditionTree ? (getWhereClauseFromConditionTree(conditionTree) as T) : undefined;
+}
+
+/**
+ * Visits each condition of the group and nested groups, groups without any remaining conditions are removed
+ */
+function visitConditionGroup(
+  group: ConditionGroup,
+  path: string,
+  parent: QueryNodeContext,
+  state: TraversalState,
+): ConditionGroup | undefined {
+  const children = mapNodes(group.children, (child, i) =>
+    isConditionGroup(child)
+      ? visitConditionGroup(child, `${path}.children[${i}]`, parent, state) || null
+      : visitCondition(child, `${path}.children[${i}]`, parent, state),
+  );
+  if (children.length === 0) {
+    return undefined;
+  }
+  return children === group.children ? group : { ...group, children };
+}
+
+function visitCondition(
+  condition: Condition & ValueQuery,
+  path: string,
+  parent: QueryNodeContext,
+  state: TraversalState,
+): (Condition & ValueQuery) | null {
+  return visitNode('Condition', condition, path, parent, state, (node, context) => {
+    const output = new NodeUpdate(node);
+    if (node.fn) {
+      const fn = visitFunction(node.fn, `${path}.fn`, context, state);
+      if (!fn) {
+        return null;
+      }
+      output.set('fn', fn);
+    }
+    if (node.valueQuery) {
+      const valueQuery = visitQuery(node.valueQuery, 'Query', `${path}.valueQuery`, context, state);
+      if (!valueQuery) {
+        return null;
+      }
+      output.set('valueQuery', valueQuery);
+    }
+    return output.value;
+  });
+}
+
+function visitGroupBy<T extends GroupByClause | LegacyGroupByClause>(
+  groupBy: T,
+  path: string,
+  parent: QueryNodeContext,
+  state: TraversalState,
+): T | null {
+  return visitNode('GroupBy', groupBy, path, parent, state, (node, context) => {
+    const output = new NodeUpdate<LegacyGroupByClause>(node);
+    const { fn, having } = node as LegacyGroupByClause;
+    if (fn) {
+      const outputFn = visitFunction(fn, `${path}.fn`, context, state);
+      if (!outputFn) {
+        return null;
+      }
+      output.set('fn', outputFn);
+    }
+    if (having) {
+      output.set('having', visitConditions(having, `${path}.having`, context, state));
+    }
+    return output.value as T;
+  });
+}
+
+function visitOrderBy(orderBy: OrderByClause, path: string, parent: QueryNodeContext, state: TraversalState): OrderByClause | null {
+  return visitNode('OrderBy', orderBy, path, parent, state, (node, context) => {
+    if (!node.fn) {
+      return node;
+    }
+    const fn = visitFunction(node.fn, `${path}.fn`, context, state);
+    return fn && (fn === node.fn ? node : { ...node, fn });
+  });
+}
+
+function visitFunction(fn: FunctionExp, path: string, parent: QueryNodeContext, state: TraversalState): FunctionExp | null {
+  return visitNode('FunctionExp', fn, path, parent, state, (node, context) => {
+    if (!node.parameters) {
+      return node;
+    }
+    const parameters = mapNodes(node.parameters, (param, i) =>
+      isString(param) ? param : visitFunction(param, `${path}.parameters[${i}]`, context, state),
+    );
+    return parameters === node.parameters ? node : { ...node, parameters };
+  });
+}
+
+/**
+ * Maps each item, items that are mapped to null are removed
+ * @returns the same array if every item is unchanged
+ */
+function mapNodes<T, R extends T>(items: T[], callback: (item: T, i: number) => R | null): T[] {
+  const output = items.map(callback);
+  if (output.every((item, i) => item === items[i])) {
+    return items;
+  }
+  return output.filter(item => item !== null);
+}
+
+/**
+ * Copies the node the first time a property is changed, so nodes without any changes are returned as-is
+ */
+class NodeUpdate<T> {
+  private original: T;
+  value: T;
+
+  constructor(node: T) {
+    this.original = node;
+    this.value = node;
+  }
+
+  set<K extends keyof T>(property: K, value: T[K] | null | undefined) {
+    if (value === this.value[property]) {
+      return;
+    }
+    if (this.value === this.original) {
+      this.value = { ...this.value };
+    }
+    if (value === null || value === undefined) {
+      delete this.value[property];
+    } else {
+      this.value[property] = value;
+    }
+  }
+
+  isChanged(property: keyof T): boolean {
+    return this.value[property] !== this.original[property];
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  Condition,
+  FieldFunctionExpression,
+  FieldType,
+  FunctionExp,
+  HavingClause,
+  Query,
+  QueryValidationCode,
+  QueryValidationDiagnostic,
+  SourceLocation,
+  Subquery,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { getFieldText, getLegacyGroupByFieldPath, isAggregateField, isGroupByField, isLegacyGroupBy, isNumber, isString } from '../utils';
+
+const MAX_OFFSET = 2000;
+const MAX_SUBQUERIES = 20;
+const MAX_RELATIONSHIP_DEPTH = 5;
+
+/**
+ * Checks a parsed or composed query against the restrictions that Salesforce enforces when the query is executed,
+ * which are not enforced by the grammar, e.x. `OFFSET` cannot be greater than 2000
+ * Subqueries and semi-join or anti-join queries in the where clause are also checked
+ * If the query was parsed with includeLocations=true, each diagnostic includes the location of the problem
+ * @param query
+ * @returns diagnostics for every violated restriction, or an empty array if the query is valid
+ */
+export function validateQuery(query: Query): QueryValidationDiagnostic[] {
+  const diagnostics: QueryValidationDiagnostic[] = [];
+  validateQueryOrSubquery(query, '', false, diagnostics);
+  return diagnostics;
+}
+
+function validateQueryOrSubquery(query: Query | Subquery, path: string, isSubquery: boolean, diagnostics: QueryValidationDiagnostic[]) {
+  const clauseLocations = query.clauseLocations || {};
+  const addDiagnostic = (code: QueryValidationCode, message: string, property: string, loc?: SourceLocation) =>
+    diagnostics.push({ code, severity: 'error', message, path: `${path}${property}`, loc });
+
+  if (isNumber(query.offset) && query.offset > MAX_OFFSET) {
+    addDiagnostic('OFFSET_TOO_LARGE', `OFFSET cannot be greater than ${MAX_OFFSET}.`, 'offset', clauseLocations.offset);
+  }
+
+  if (query.for === 'UPDATE' && query.orderBy) {
+    addDiagnostic('FOR_UPDATE_WITH_ORDER_BY', 'FOR UPDATE cannot be used with ORDER BY.', 'for', clauseLocations.for);
+  }
+
+  if (query.having && !query.groupBy) {
+    addDiagnostic('HAVING_WITHOUT_GROUP_BY', 'HAVING can only be used with GROUP BY.', 'having', clauseLocations.having);
+  }
+
+  const countFieldIndex = query.fields.findIndex(isCountWithoutParameters);
+  if (countFieldIndex >= 0 && query.fields.length > 1) {
+    addDiagnostic(
+      'COUNT_WITH_OTHER_FIELDS',
+      'COUNT() must be the only field in the SELECT clause.',
+      `fields[${countFieldIndex}]`,
+      query.fields[countFieldIndex].loc,
+    );
+  } else if (!query.groupBy && query.fields.some(isAggregateField)) {
+    query.fields.forEach((field, i) => {
+      if (field.type !== 'FieldSubquery' && !isAggregateField(field)) {
+        addDiagnostic(
+          'NON_GROUPED_FIELD_WITH_AGGREGATE',
+          `${getFieldText(field)} must be grouped or aggregated when aggregate functions are used without GROUP BY.`,
+          `fields[${i}]`,
+          field.loc,
+        );
+      }
+    });
+  }
+
+  const subqueryCount = query.fields.filter(field => field.type === 'FieldSubquery').length;
+  if (!isSubquery && subqueryCount > MAX_SUBQUERIES) {
+    addDiagnostic(
+      'TOO_MANY_SUBQUERIES',
+      `A query cannot have more than ${MAX_SUBQUERIES} subqueries, found ${subqueryCount}.`,
+      'fields',
+      clauseLocations.select,
+    );
+  }
+
+  query.fields.forEach((field, i) => {
+    if (field.type === 'FieldSubquery') {
+      if (isSubquery) {
+        addDiagnostic('NESTED_SUBQUERY', 'Subqueries cannot be nested within another subquery.', `fields[${i}]`, field.loc);
+      } else {
+        validateQueryOrSubquery(field.subquery, `${path}fields[${i}].subquery.`, true, diagnostics);
+      }
+    } else {
+      validateRelationshipDepth(getFieldPaths(field), query, `${path}fields[${i}]`, field.loc, diagnostics);
+    }
+  });
+
+  validateConditions(query.where, query, `${path}where`, diagnostics);
+  validateConditions(query.having, query, `${path}having`, diagnostics);
+
+  if (query.groupBy) {
+    if (isLegacyGroupBy(query.groupBy)) {
+      const { field, fn, having, loc } = query.groupBy;
+      const fields = Array.isArray(field) ? field : field ? [field] : [];
+      const fieldPaths = fields.map(getLegacyGroupByFieldPath).concat(getFunctionParameters(fn));
+      validateRelationshipDepth(fieldPaths, query, `${path}groupBy`, loc, diagnostics);
+      validateConditions(having, query, `${path}groupBy.having`, diagnostics);
+    } else {
+      query.groupBy.forEach((item, i) => {
+        const fieldPaths = isGroupByField(item) ? [item.field] : getFunctionParameters(item.fn);
+        validateRelationshipDepth(fieldPaths, query, `${path}groupBy[${i}]`, item.loc, diagnostics);
+      });
+    }
+  }
+
+  if (query.orderBy) {
+    const orderBy = Array.isArray(query.orderBy) ? query.orderBy : [query.orderBy];
+    orderBy.forEach((item, i) => {
+      const fieldPaths = item.field ? [item.field] : getFunctionParameters(item.fn);
+      const property = Array.isArray(query.orderBy) ? `orderBy[${i}]` : 'orderBy';
+      validateRelationshipDepth(fieldPaths, query, `${path}${property}`, item.loc, diagnostics);
+    });
+  }
+}
+
+/**
+ * Checks the relationship depth of each condition and validates any semi-join or anti-join queries
+ */
+function validateConditions(
+  where: WhereClause | HavingClause | undefined,
+  query: Query | Subquery,
+  path: string,
+  diagnostics: QueryValidationDiagnostic[],
+) {
+  while (where) {
+    const condition: Condition & ValueQuery = where.left;
+    const fieldPaths = condition.field ? [condition.field] : getFunctionParameters(condition.fn);
+    validateRelationshipDepth(fieldPaths, query, `${path}.left`, condition.loc, diagnostics);
+    if (condition.valueQuery) {
+      validateQueryOrSubquery(condition.valueQuery, `${path}.left.valueQuery.`, false, diagnostics);
+    }
+    path = `${path}.right`;
+    where = where.right;
+  }
+}
+
+function validateRelationshipDepth(
+  fieldPaths: string[],
+  query: Query | Subquery,
+  path: string,
+  loc: SourceLocation | undefined,
+  diagnostics: QueryValidationDiagnostic[],
+) {
+  fieldPaths
+    .filter(fieldPath => getRelationshipDepth(fieldPath, query.sObjectAlias) > MAX_RELATIONSHIP_DEPTH)
+    .forEach(fieldPath =>
+      diagnostics.push({
+        code: 'RELATIONSHIP_TOO_DEEP',
+        severity: 'error',
+        message: `${fieldPath} exceeds the maximum of ${MAX_RELATIONSHIP_DEPTH} levels of parent relationships.`,
+        path,
+        loc,
+      }),
+    );
+}
+
+function isCountWithoutParameters(field: FieldType): boolean {
+  return (
+    field.type === 'FieldFunctionExpression' &&
+    (field.functionName || '').toUpperCase() === 'COUNT' &&
+    (!field.parameters || field.parameters.length === 0)
+  );
+}
+
+/**
+ * Returns each field path that is referenced by the field, such as Account.Owner.Name
+ */
+function getFieldPaths(field: FieldType): string[] {
+  switch (field.type) {
+    case 'Field':
+      return [field.field];
+    case 'FieldRelationship':
+      return [[...field.relationships, field.field].join('.')];
+    case 'FieldFunctionExpression':
+      return getFunctionParameters(field);
+    default:
+      return [];
+  }
+}
+
+function getFunctionParameters(fn?: FunctionExp | FieldFunctionExpression): string[] {
+  if (!fn || !fn.parameters) {
+    return [];
+  }
+  const parameters: (string | FunctionExp | FieldFunctionExpression)[] = fn.parameters;
+  return parameters.reduce((output: string[], param) => output.concat(isString(param) ? [param] : getFunctionParameters(param)), []);
+}
+
+/**
+ * Returns the number of parent relationships in a field path, excluding the alias of the queried object
+ * e.x. Account.Owner.Name -> 2
+ */
+function getRelationshipDepth(fieldPath: string, sObjectAlias?: string): number {
+  const segments = fieldPath.split('.');
+  if (sObjectAlias && segments.length > 1 && segments[0].toLowerCase() === sObjectAlias.toLowerCase()) {
+    segments.shift();
+  }
+  return segments.length - 1;
+}
@@ -0,0 +1,501 @@
+import {
+  Condition,
+  DescribeFieldResult,
+  DescribeSObjectResult,
+  FieldFunctionExpression,
+  FieldType,
+  FieldTypeOfCondition,
+  FunctionExp,
+  HavingClause,
+  LiteralType,
+  Query,
+  QueryValidationCode,
+  QueryValidationDiagnostic,
+  SourceLocation,
+  Subquery,
+  ValueQuery,
+  WhereClause,
+} from './api-models';
+import { equalsIgnoreCase, getAsArrayStr, getEditDistance, isFieldPath, isGroupByField, isLegacyGroupBy, isNil, isString } from '../utils';
+
+const STRING_FIELD_TYPES = ['string', 'textarea', 'picklist', 'multipicklist', 'combobox', 'email', 'phone', 'url', 'encryptedstring'];
+const ID_FIELD_TYPES = ['id', 'reference'];
+const NUMBER_FIELD_TYPES = ['int', 'double', 'currency', 'percent', 'long'];
+const DATE_FIELD_TYPES = ['date', 'datetime'];
+
+// field types that each literal can be compared to, null and apex bind variables can be compared to any field
+// fields with other types, such as time or location, are not checked
+const LITERAL_FIELD_TYPES: { [literalType: string]: string[] } = {
+  STRING: [...STRING_FIELD_TYPES, ...ID_FIELD_TYPES],
+  INTEGER: NUMBER_FIELD_TYPES,
+  DECIMAL: NUMBER_FIELD_TYPES,
+  INTEGER_WITH_CURRENCY_PREFIX: ['currency'],
+  DECIMAL_WITH_CURRENCY_PREFIX: ['currency'],
+  BOOLEAN: ['boolean'],
+  DATE: ['date'],
+  DATETIME: ['datetime'],
+  DATE_LITERAL: DATE_FIELD_TYPES,
+  DATE_N_LITERAL: DATE_FIELD_TYPES,
+};
+const CHECKED_FIELD_TYPES = [...STRING_FIELD_TYPES, ...ID_FIELD_TYPES, ...NUMBER_FIELD_TYPES, ...DATE_FIELD_TYPES, 'boolean'];
+
+/**
+ * Fields and relationships are resolved relative to the object of the query or subquery
+ */
+interface ValidationScope {
+  describe: DescribeSObjectResult;
+  sObjectAlias?: string;
+  diagnostics: QueryValidationDiagnostic[];
+}
+
+/**
+ * Validates the objects, fields and relationships in a query against the describe results of each object,
+ * which can be obtained from the describe API, e.x. `/services/data/vXX.X/sobjects/Account/describe`
+ *
+ * Relationships to objects that do not have a describe result are not checked beyond the relationship name,
+ * and fields of polymorphic relationships, such as Owner or What, are not checked
+ *
+ * const validator = new SchemaValidator([accountDescribe, contactDescribe]);
+ * const diagnostics = validator.validate(parseQuery('SELECT Nmae FROM Account'));
+ */
+export class SchemaValidator {
+  private describes: { [sObject: string]: DescribeSObjectResult } = {};
+
+  constructor(describeResults: DescribeSObjectResult[] = []) {
+    describeResults.forEach(describe => this.addDescribe(describe));
+  }
+
+  /**
+   * Adds or replaces the describe result of an object
+   * @param describe
+   */
+  addDescribe(describe: DescribeSObjectResult): void {
+    this.describes[describe.name.toLowerCase()] = describe;
+  }
+
+  /**
+   * Returns the describe result of an object, object names are not case sensitive
+   * @param sObject
+   */
+  getDescribe(sObject: string): DescribeSObjectResult | undefined {
+    return this.describes[sObject.toLowerCase()];
+  }
+
+  /**
+   * Returns a diagnostic for every object, field or relationship that does not exist
+   * and for every field that cannot be used in the clause it is used in
+   * If the query was parsed with includeLocations=true, each diagnostic includes the location of the problem
+   * @param query
+   * @returns diagnostics, or an empty array if the query is valid
+   */
+  validate(query: Query): QueryValidationDiagnostic[] {
+    const diagnostics: QueryValidationDiagnostic[] = [];
+    this.validateQuery(query, '', diagnostics);
+    return diagnostics;
+  }
+
+  private validateQuery(query: Query, path: string, diagnostics: QueryValidationDiagnostic[]) {
+    const describe = this.getDescribe(query.sObject);
+    if (!describe) {
+      const suggestion = getNameSuggestion(
+        query.sObject,
+        Object.keys(this.describes).map(key => this.describes[key].name),
+      );
+      diagnostics.push(
+        getDiagnostic(
+          'UNKNOWN_OBJECT',
+          `${query.sObject} is not a known object.`,
+          `${path}sObject`,
+          query.clauseLocations && query.clauseLocations.from,
+          suggestion,
+        ),
+      );
+      return;
+    }
+    this.validateQueryBase(query, path, { describe, sObjectAlias: query.sObjectAlias, diagnostics });
+  }
+
+  private validateQueryBase(query: Query | Subquery, path: string, scope: ValidationScope) {
+    query.fields.forEach((field, i) => this.validateField(field, `${path}fields[${i}]`, scope));
+
+    this.validateConditions(query.where, `${path}where`, scope, true);
+    this.validateConditions(query.having, `${path}having`, scope, false);
+
+    if (query.groupBy) {
+      if (isLegacyGroupBy(query.groupBy)) {
+        const groupBy = query.groupBy;
+        const fields = Array.isArray(groupBy.field) ? groupBy.field : groupBy.field ? [groupBy.field] : [];
+        fields.forEach(field => this.validateGroupByField(field, `${path}groupBy`, scope, groupBy.loc));
+        this.validateFunctionParameters(groupBy.fn, `${path}groupBy`, scope, groupBy.loc);
+      } else {
+        query.groupBy.forEach((item, i) => {
+          if (isGroupByField(item)) {
+            this.validateGroupByField(item.field, `${path}groupBy[${i}]`, scope, item.loc);
+          } else {
+            this.validateFunctionParameters(item.fn, `${path}groupBy[${i}]`, scope, item.loc);
+          }
+        });
+      }
+    }
+
+    if (query.orderBy) {
+      const orderBy = Array.isArray(query.orderBy) ? query.orderBy : [query.orderBy];
+      orderBy.forEach((item, i) => {
+        const itemPath = Array.isArray(query.orderBy) ? `${path}orderBy[${i}]` : `${path}orderBy`;
+        if (item.field) {
+          const field = this.resolveField(item.field, itemPath, scope, item.loc);
+          if (field && field.sortable === false) {
+            scope.diagnostics.push(
+              getDiagnostic('FIELD_NOT_SORTABLE', `${item.field} cannot be used in the ORDER BY clause.`, itemPath, item.loc),
+            );
+          }
+        } else {
+          this.validateFunctionParameters(item.fn, itemPath, scope, item.loc);
+        }
+      });
+    }
+  }
+
+  private validateField(field: FieldType, path: string, scope: ValidationScope) {
+    switch (field.type) {
+      case 'Field':
+        this.resolveField(field.field, path, { ...scope, sObjectAlias: undefined }, field.loc);
+        break;
+      case 'FieldRelationship':
+        this.resolveField([...field.relationships, field.field].join('.'), path, { ...scope, sObjectAlias: undefined }, field.loc);
+        break;
+      case 'FieldFunctionExpression':
+        this.validateFunctionParameters(field, path, scope, field.loc);
+        break;
+      case 'FieldTypeof':
+        this.validateTypeof(field.field, field.conditions, path, scope, field.loc);
+        break;
+      case 'FieldSubquery': {
+        const { subquery } = field;
+        const childRelationship = (scope.describe.childRelationships || []).find(item =>
+          equalsIgnoreCase(item.relationshipName, subquery.relationshipName),
+        );
+        if (!childRelationship) {
+          const suggestion = getNameSuggestion(
+            subquery.relationshipName,
+            (scope.describe.childRelationships || []).map(item => item.relationshipName),
+          );
+          scope.diagnostics.push(
+            getDiagnostic(
+              'UNKNOWN_CHILD_RELATIONSHIP',
+              `${subquery.relationshipName} is not a child relationship of ${scope.describe.name}.`,
+              `${path}.subquery.relationshipName`,
+              field.loc,
+              suggestion,
+            ),
+          );
+          return;
+        }
+        const childDescribe = this.getDescribe(childRelationship.childSObject);
+        if (childDescribe) {
+          this.validateQueryBase(subquery, `${path}.subquery.`, {
+            describe: childDescribe,
+            sObjectAlias: subquery.sObjectAlias,
+            diagnostics: scope.diagnostics,
+          });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  private validateTypeof(
+    relationshipName: string,
+    conditions: FieldTypeOfCondition[],
+    path: string,
+    scope: ValidationScope,
+    loc?: SourceLocation,
+  ) {
+    const relationshipField = this.resolveRelationship(relationshipName, scope.describe, path, scope, loc);
+    if (!relationshipField) {
+      return;
+    }
+    const referenceTo = relationshipField.referenceTo || [];
+    conditions.forEach((condition, i) => {
+      if (condition.type !== 'WHEN' || !condition.objectType) {
+        return;
+      }
+      if (!referenceTo.some(sObject => equalsIgnoreCase(sObject, condition.objectType))) {
+        scope.diagnostics.push(
+          getDiagnostic(
+            'INVALID_TYPEOF_TYPE',
+            `${condition.objectType} is not a valid type for ${relationshipName}, expected one of: ${referenceTo.join(', ')}.`,
+            `${path}.conditions[${i}].objectType`,
+            loc,
+            getNameSuggestion(condition.objectType, referenceTo),
+          ),
+        );
+        return;
+      }
+      const describe = this.getDescribe(condition.objectType);
+      if (describe) {
+        condition.fieldList.forEach((field, j) =>
+          this.resolveField(field, `${path}.conditions[${i}].fieldList[${j}]`, { describe, diagnostics: scope.diagnostics }, loc),
+        );
+      }
+    });
+  }
+
+  /**
+   * Checks the fields of each condition and validates any semi-join or anti-join queries
+   */
+  private validateConditions(where: WhereClause | HavingClause | undefined, path: string, scope: ValidationScope, isWhere: boolean) {
+    while (where) {
+      const condition: Condition & ValueQuery = where.left;
+      const conditionPath = `${path}.left`;
+      if (condition.field) {
+        const field = this.resolveField(condition.field, conditionPath, scope, condition.loc);
+        if (isWhere && field && field.filterable === false) {
+          scope.diagnostics.push(
+            getDiagnostic('FIELD_NOT_FILTERABLE', `${condition.field} cannot be used in the WHERE clause.`, conditionPath, condition.loc),
+          );
+        }
+        if (field) {
+          validateConditionValue(condition, field, conditionPath, scope.diagnostics);
+        }
+      } else {
+        this.validateFunctionParameters(condition.fn, conditionPath, scope, condition.loc);
+      }
+      if (condition.valueQuery) {
+        this.validateQuery(condition.valueQuery, `${conditionPath}.valueQuery.`, scope.diagnostics);
+      }
+      path = `${path}.right`;
+      where = where.right;
+    }
+  }
+
+  private validateGroupByField(fieldPath: string, path: string, scope: ValidationScope, loc?: SourceLocation) {
+    const field = this.resolveField(fieldPath, path, scope, loc);
+    if (field && field.groupable === false) {
+      scope.diagnostics.push(getDiagnostic('FIELD_NOT_GROUPABLE', `${fieldPath} cannot be used in the GROUP BY clause.`, path, loc));
+    }
+  }
+
+  private validateFunctionParameters(
+    fn: FunctionExp | FieldFunctionExpression | undefined,
+    path: string,
+    scope: ValidationScope,
+    loc?: SourceLocation,
+  ) {
+    if (!fn || !fn.parameters) {
+      return;
+    }
+    const parameters: (string | FunctionExp | FieldFunctionExpression)[] = fn.parameters;
+    parameters.forEach(param => {
+      if (!isString(param)) {
+        this.validateFunctionParameters(param, path, scope, loc);
+      } else if (isFieldPath(param)) {
+        this.resolveField(param, path, scope, loc);
+      }
+    });
+  }
+
+  /**
+   * Resolves each relationship in the field path, e.x. Account.Owner.Name, and returns the describe result of the field
+   * Returns undefined if the field does not exist or if the object of a relationship does not have a describe result
+   */
+  private resolveField(fieldPath: string, path: string, scope: ValidationScope, loc?: SourceLocation): DescribeFieldResult | undefined {
+    const relationships = fieldPath.split('.');
+    if (scope.sObjectAlias && relationships.length > 1 && equalsIgnoreCase(relationships[0], scope.sObjectAlias)) {
+      relationships.shift();
+    }
+    const fieldName = relationships.pop();
+    let describe = scope.describe;
+    for (let i = 0; i < relationships.length; i++) {
+      const relationshipField = this.resolveRelationship(relationships[i], describe, path, scope, loc);
+      const referenceTo = relationshipField ? relationshipField.referenceTo || [] : [];
+      // polymorphic relationships can reference more than one object, so the fields cannot be checked
+      describe = referenceTo.length === 1 ? this.getDescribe(referenceTo[0]) : undefined;
+      if (!describe) {
+        return;
+      }
+    }
+    const field = describe.fields.find(item => equalsIgnoreCase(item.name, fieldName));
+    if (!field) {
+      scope.diagnostics.push(
+        getDiagnostic(
+          'UNKNOWN_FIELD',
+          `${fieldName} is not a field on ${describe.name}.`,
+          path,
+          loc,
+          getNameSuggestion(
+            fieldName,
+            describe.fields.map(item => item.name),
+          ),
+        ),
+      );
+    }
+    return field;
+  }
+
+  private resolveRelationship(
+    relationshipName: string,
+    describe: DescribeSObjectResult,
+    path: string,
+    scope: ValidationScope,
+    loc?: SourceLocation,
+  ): DescribeFieldResult | undefined {
+    const relationshipField = describe.fields.find(item => equalsIgnoreCase(item.relationshipName, relationshipName));
+    if (!relationshipField) {
+      scope.diagnostics.push(
+        getDiagnostic(
+          'UNKNOWN_RELATIONSHIP',
+          `${relationshipName} is not a relationship on ${describe.name}.`,
+          path,
+          loc,
+          getNameSuggestion(
+            relationshipName,
+            describe.fields.map(item => item.relationshipName),
+          ),
+        ),
+      );
+    }
+    return relationshipField;
+  }
+}
+
+/**
+ * Checks that the operator is supported by the type of the field and that each value can be compared to the field
+ * A replacement condition is suggested if the value can be converted to the correct type,
+ * e.x. `CreatedDate = 2020-01-01` -> `DAY_ONLY(CreatedDate) = 2020-01-01`
+ */
+function validateConditionValue(condition: Condition, field: DescribeFieldResult, path: string, diagnostics: QueryValidationDiagnostic[]) {
+  // the parser keeps the casing from the source, e.x. `like`
+  const operator = condition.operator.toUpperCase();
+  const fieldType = (field.type || '').toLowerCase();
+  if (!CHECKED_FIELD_TYPES.includes(fieldType)) {
+    return;
+  }
+
+  if ((operator === 'INCLUDES' || operator === 'EXCLUDES') && fieldType !== 'multipicklist') {
+    const replacementOperator = operator === 'INCLUDES' ? 'IN' : 'NOT IN';
+    diagnostics.push(
+      getDiagnostic(
+        'OPERATOR_NOT_SUPPORTED',
+        `${operator} can only be used with multi-select picklist fields, ${condition.field} is of type ${fieldType}.`,
+        path,
+        condition.loc,
+        fieldType === 'picklist' ? getConditionText(condition.field, replacementOperator, condition.value) : undefined,
+      ),
+    );
+    return;
+  }
+
+  if (operator === 'LIKE' && !STRING_FIELD_TYPES.includes(fieldType)) {
+    diagnostics.push(
+      getDiagnostic(
+        'OPERATOR_NOT_SUPPORTED',
+        `LIKE can only be used with string fields, ${condition.field} is of type ${fieldType}.`,
+        path,
+        condition.loc,
+      ),
+    );
+    return;
+  }
+
+  if (isNil(condition.value) || isNil(condition.literalType)) {
+    return;
+  }
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+  const literalTypes = Array.isArray(condition.literalType)
+    ? condition.literalType
+    : values.map(() => condition.literalType as LiteralType);
+  const invalidIndex = literalTypes.findIndex(literalType => !isLiteralTypeAllowed(literalType, fieldType));
+  if (invalidIndex === -1) {
+    return;
+  }
+
+  const replacementValues = values.map((value, i) => getReplacementValue(value, literalTypes[i], fieldType));
+  let message = `${values[invalidIndex]} cannot be compared to ${condition.field}, which is of type ${fieldType}.`;
+  let suggestion = replacementValues.every(isString)
+    ? getConditionText(condition.field, operator, Array.isArray(condition.value) ? replacementValues : replacementValues[0])
+    : undefined;
+  if (fieldType === 'datetime' && literalTypes[invalidIndex] === 'DATE') {
+    message = `${message} Use DAY_ONLY(${condition.field}) to compare the date or use a datetime literal, e.x. ${values[invalidIndex]}T00:00:00Z.`;
+    suggestion = getConditionText(`DAY_ONLY(${condition.field})`, operator, condition.value);
+  }
+  diagnostics.push(getDiagnostic('LITERAL_TYPE_MISMATCH', message, path, condition.loc, suggestion));
+}
+
+/**
+ * Returns the value as a literal of the correct type for the field if it can be converted
+ * e.x. `'true'` for a boolean field -> `true`, `5` for a string field -> `'5'`
+ */
+function getReplacementValue(value: string, literalType: LiteralType, fieldType: string): string | undefined {
+  if (isLiteralTypeAllowed(literalType, fieldType)) {
+    return value;
+  }
+  const unquotedValue = literalType === 'STRING' ? value.replace(/^'(.*)'$/, '$1') : value;
+  if (STRING_FIELD_TYPES.includes(fieldType) || ID_FIELD_TYPES.includes(fieldType)) {
+    return `'${unquotedValue}'`;
+  }
+  if (fieldType === 'boolean' && /^(true|false)$/i.test(unquotedValue)) {
+    return unquotedValue.toLowerCase();
+  }
+  if (NUMBER_FIELD_TYPES.includes(fieldType)) {
+    // currency prefixes are only allowed for currency fields, e.x. USD5000 -> 5000
+    const numberValue = unquotedValue.replace(/^[A-Z]{3}(?=-?\d)/, '');
+    return /^-?\d+(\.\d+)?$/.test(numberValue) ? numberValue : undefined;
+  }
+  if (fieldType === 'date' && /^\d{4}-\d{2}-\d{2}/.test(unquotedValue)) {
+    return unquotedValue.substring(0, 10);
+  }
+  if (fieldType === 'datetime' && /^\d{4}-\d{2}-\d{2}T/.test(unquotedValue)) {
+    return unquotedValue;
+  }
+  return undefined;
+}
+
+function isLiteralTypeAllowed(literalType: LiteralType, fieldType: string): boolean {
+  return !LITERAL_FIELD_TYPES[literalType] || LITERAL_FIELD_TYPES[literalType].includes(fieldType);
+}
+
+function getConditionText(field: string, operator: string, value: string | string[]): string {
+  return `${field} ${operator} ${Array.isArray(value) ? getAsArrayStr(value) : value}`;
+}
+
+function getDiagnostic(
+  code: QueryValidationCode,
+  message: string,
+  path: string,
+  loc?: SourceLocation,
+  suggestion?: string,
+): QueryValidationDiagnostic {
+  const output: QueryValidationDiagnostic = {
+    code,
+    severity: 'error',
+    message: suggestion ? `${message} Did you mean ${suggestion}?` : message,
+    path,
+    loc,
+  };
+  if (suggestion) {
+    output.suggestion = suggestion;
+  }
+  return output;
+}
+
+/**
+ * Returns the closest name if the value is close enough to be considered a misspelling
+ */
+function getNameSuggestion(value: string, names: (string | null | undefined)[]): string | undefined {
+  const lowerValue = value.toLowerCase();
+  // allow one typo for short values and two typos for longer values
+  const maxDistance = lowerValue.length < 8 ? 1 : 2;
+  let suggestion: string | undefined;
+  let suggestionDistance = maxDistance + 1;
+  names.filter(isString).forEach(name => {
+    const distance = getEditDistance(lowerValue, name.toLowerCase());
+    if (distance < suggestionDistance) {
+      suggestion = name;
+      suggestionDistance = distance;
+    }
+  });
+  return suggestion;
+}
@@ -1,19 +1,26 @@
 import {
+  ApexBindVariable,
   FieldType,
   FunctionExp,
   GroupByClause,
   HavingClause,
+  LegacyGroupByClause,
   OrderByClause,
   Query,
   WhereClause,
   WithDataCategoryClause,
+  WithRecordVisibilityClause,
   FieldTypeOf,
   Subquery,
   FieldFunctionExpression,
+  Search,
+  SearchReturningSpec,
 } from '../api/api-models';
 import * as utils from '../utils';
 import { FieldData, Formatter, FormatOptions } from '../formatter/formatter';
-import { parseQuery } from '../parser/visitor';
+import { parseQuery, parseSearch } from '../parser/visitor';
+import { getWhereClauseFromConditionGroup } from '../api/condition-groups';
+import { assertValidQueryModel } from '../api/query-model-validator';
 import { isArray } from 'util';
 
 export interface SoqlComposeConfig {
@@ -21,6 +28,7 @@ export interface SoqlComposeConfig {
   format: boolean; // default=false
   formatOptions?: FormatOptions;
   autoCompose: boolean; // default=true
+  strict: boolean; // default=false, if true the query is checked with assertValidQueryModel() and a QueryModelError is thrown if it is invalid
 }
 /**
  * Formats query - This will compose and then parse a query with the provided format options
@@ -33,6 +41,17 @@ export function formatQuery(soql: string, formatOptions?: FormatOptions) {
   return composeQuery(parseQuery(soql), { format: true, formatOptions });
 }
 
+/**
+ * Formats SOSL search - This will compose and then parse a search with the provided format options
+ * or the defaults if omitted
+ * @param sosl
+ * @param [formatOptions]
+ * @returns
+ */
+export function formatSearch(sosl: string, formatOptions?: FormatOptions) {
+  return composeSearch(parseSearch(sosl), { format: true, formatOptions });
+}
+
 /**
  * Composes a parsed query back to a SOQL query
  * The parsing methods are public in case there is a need to parse just a part of a query,
@@ -47,6 +66,9 @@ export function composeQuery(soql: Query, config: Partial<SoqlComposeConfig> = {
   }
   config = config || {};
   config.format = config.format ? true : false;
+  if (config.strict) {
+    assertValidQueryModel(soql);
+  }
   if (config.logging) {
     console.time('composer');
     console.log('Composing Query:', soql);
@@ -62,9 +84,36 @@ export function composeQuery(soql: Query, config: Partial<SoqlComposeConfig> = {
   return query;
 }
 
+/**
+ * Composes a parsed search back to a SOSL search
+ * @param sosl
+ * @param [config]
+ * @returns search
+ */
+export function composeSearch(sosl: Search, config: Partial<SoqlComposeConfig> = {}): string {
+  if (!sosl) {
+    return '';
+  }
+  config = config || {};
+  config.format = config.format ? true : false;
+  if (config.logging) {
+    console.time('composer');
+    console.log('Composing Search:', sosl);
+    console.log('Format output:', config.format);
+  }
+
+  const search = new Compose(sosl, config).query;
+
+  if (config.logging) {
+    console.timeEnd('composer');
+  }
+
+  return search;
+}
+
 /**
  * Compose
- * This class handles all the logic for turning a Query into a SOQL query
+ * This class handles all the logic for turning a Query into a SOQL query, or a Search into a SOSL search
  * This depends on the Format class for parts of the processing
  */
 export class Compose {
@@ -73,7 +122,7 @@ export class Compose {
   public query: string;
   public formatter: Formatter;
 
-  constructor(private soql: Query, config: Partial<SoqlComposeConfig> = {}) {
+  constructor(private soql: Query | Search, config: Partial<SoqlComposeConfig> = {}) {
     config = { autoCompose: true, ...config };
     const { logging, format } = config;
     this.logging = logging;
@@ -93,7 +142,7 @@ export class Compose {
    * Starts compose
    */
   public start(): void {
-    this.query = this.parseQuery(this.soql);
+    this.query = utils.isSearch(this.soql) ? this.parseSearch(this.soql) : this.parseQuery(this.soql);
   }
 
   /**
@@ -106,6 +155,17 @@ export class Compose {
     }
   }
 
+  /**
+   * Quotes a value of a search WITH clause
+   * Parsed values keep their escape sequences, so the value is only escaped if it is not a valid string literal once quoted
+   * e.x. Global -> 'Global', O\'Brien -> 'O\'Brien', x' OR -> 'x\' OR'
+   * @param value
+   * @returns string literal
+   */
+  private getSearchWithValue(value: string): string {
+    return utils.isQuotedString(`'${value}'`) ? `'${value}'` : utils.getStringLiteral(value);
+  }
+
   /**
    * Parses FunctionExp object
    * Prefers functionName if populated, otherwise will fallback to rawValue
@@ -174,19 +234,35 @@ export class Compose {
       this.log(output);
     }
 
-    if (query.where) {
+    const where = query.where || (query.whereGroup && getWhereClauseFromConditionGroup(query.whereGroup));
+    if (where) {
       output += this.formatter.formatClause('WHERE');
-      output += ` ${this.parseWhereOrHavingClause(query.where)}`;
+      output += ` ${this.parseWhereOrHavingClause(where)}`;
+      this.log(output);
+    }
+
+    if (query.withAccessLevel) {
+      output += this.formatter.formatClause(`WITH ${query.withAccessLevel}`);
       this.log(output);
     }
 
-    if (query.groupBy) {
+    if (query.withRecordVisibility) {
+      output += this.formatter.formatClause('WITH RecordVisibilityContext');
+      output += ` ${this.parseWithRecordVisibility(query.withRecordVisibility)}`;
+      this.log(output);
+    }
+
+    if (query.groupBy && (!isArray(query.groupBy) || query.groupBy.length > 0)) {
       output += this.formatter.formatClause('GROUP BY');
       output += ` ${this.parseGroupByClause(query.groupBy)}`;
       this.log(output);
-      if (query.groupBy.having) {
+      const having =
+        query.having ||
+        (utils.isLegacyGroupBy(query.groupBy) && query.groupBy.having) ||
+        (query.havingGroup && getWhereClauseFromConditionGroup(query.havingGroup));
+      if (having) {
         output += this.formatter.formatClause('HAVING');
-        output += ` ${this.parseWhereOrHavingClause(query.groupBy.having)}`;
+        output += ` ${this.parseWhereOrHavingClause(having)}`;
         this.log(output);
       }
     }
@@ -197,15 +273,15 @@ export class Compose {
       this.log(output);
     }
 
-    if (utils.isNumber(query.limit)) {
+    if (utils.isNumber(query.limit) || utils.isApexBindVariable(query.limit)) {
       output += this.formatter.formatClause('LIMIT');
-      output += ` ${query.limit}`;
+      output += ` ${this.parseLimitOrOffset(query.limit)}`;
       this.log(output);
     }
 
-    if (utils.isNumber(query.offset)) {
+    if (utils.isNumber(query.offset) || utils.isApexBindVariable(query.offset)) {
       output += this.formatter.formatClause('OFFSET');
-      output += ` ${query.offset}`;
+      output += ` ${this.parseLimitOrOffset(query.offset)}`;
       this.log(output);
     }
 
@@ -235,6 +311,138 @@ export class Compose {
     return output;
   }
 
+  /**
+   * Parses SOSL search
+   * Base entry point for a search
+   * @param search
+   * @returns search
+   */
+  public parseSearch(search: Search): string {
+    let output = `FIND ${this.parseSearchTerm(search.searchTerm)}`;
+    this.log(output);
+
+    if (search.searchGroup) {
+      output += this.formatter.formatClause('IN');
+      output += ` ${search.searchGroup} FIELDS`;
+      this.log(output);
+    }
+
+    if (search.returning && search.returning.length > 0) {
+      output += this.formatter.formatClause('RETURNING');
+      output += ` ${this.formatter.formatReturningSpecs(search.returning.map(spec => this.parseReturningSpec(spec)))}`;
+      this.log(output);
+    }
+
+    if (search.withDivision) {
+      output += this.formatter.formatClause('WITH DIVISION');
+      output += ` = ${this.getSearchWithValue(search.withDivision)}`;
+      this.log(output);
+    }
+
+    if (search.withDataCategory) {
+      output += this.formatter.formatClause('WITH DATA CATEGORY');
+      output += ` ${this.parseWithDataCategory(search.withDataCategory)}`;
+      this.log(output);
+    }
+
+    if (search.withSnippet) {
+      output += this.formatter.formatClause('WITH SNIPPET');
+      output += utils.isNumber(search.withSnippet.targetLength) ? ` (target_length=${search.withSnippet.targetLength})` : '';
+      this.log(output);
+    }
+
+    if (search.withNetwork && search.withNetwork.length > 0) {
+      output += this.formatter.formatClause('WITH NETWORK');
+      const networks = search.withNetwork.map(network => this.getSearchWithValue(network));
+      output += networks.length === 1 ? ` = ${networks[0]}` : ` IN ${utils.getAsArrayStr(networks)}`;
+      this.log(output);
+    }
+
+    if (search.withPricebookId) {
+      output += this.formatter.formatClause('WITH PricebookId');
+      output += ` = ${this.getSearchWithValue(search.withPricebookId)}`;
+      this.log(output);
+    }
+
+    if (search.withMetadata) {
+      output += this.formatter.formatClause('WITH METADATA');
+      output += ` = ${this.getSearchWithValue(search.withMetadata)}`;
+      this.log(output);
+    }
+
+    if (search.withHighlight) {
+      output += this.formatter.formatClause('WITH HIGHLIGHT');
+      this.log(output);
+    }
+
+    if (utils.isBoolean(search.withSpellCorrection)) {
+      output += this.formatter.formatClause('WITH SPELL_CORRECTION');
+      output += ` = ${search.withSpellCorrection}`;
+      this.log(output);
+    }
+
+    if (utils.isNumber(search.limit) || utils.isApexBindVariable(search.limit)) {
+      output += this.formatter.formatClause('LIMIT');
+      output += ` ${this.parseLimitOrOffset(search.limit)}`;
+      this.log(output);
+    }
+
+    if (search.update) {
+      output += this.formatter.formatClause('UPDATE');
+      output += ` ${search.update}`;
+      this.log(output);
+    }
+
+    return output;
+  }
+
+  /**
+   * Parses search term, the term is wrapped in braces if it is not already wrapped in braces or quotes
+   * e.x.: {Acme*} or 'Acme*'
+   * @param searchTerm
+   * @returns search term
+   */
+  public parseSearchTerm(searchTerm: string): string {
+    return /^(\{[\s\S]*\}|'[\s\S]*')$/.test(searchTerm) ? searchTerm : `{${searchTerm}}`;
+  }
+
+  /**
+   * Parses returning spec
+   * The clauses within the parentheses are always kept on the same line as the object
+   * e.x.: Account(Id, Name WHERE Industry = 'Tech' ORDER BY Name LIMIT 10)
+   * @param spec
+   * @returns returning spec
+   */
+  public parseReturningSpec(spec: SearchReturningSpec): string {
+    const clauses: string[] = [];
+    const { enabled } = this.formatter;
+    this.formatter.enabled = false;
+    try {
+      if (spec.fields && spec.fields.length > 0) {
+        clauses.push(this.parseFields(spec.fields).join(', '));
+      }
+      const where = spec.where || (spec.whereGroup && getWhereClauseFromConditionGroup(spec.whereGroup));
+      if (where) {
+        clauses.push(`WHERE ${this.parseWhereOrHavingClause(where)}`);
+      }
+      if (spec.usingListView) {
+        clauses.push(`USING LISTVIEW = ${spec.usingListView}`);
+      }
+      if (spec.orderBy && (!isArray(spec.orderBy) || spec.orderBy.length > 0)) {
+        clauses.push(`ORDER BY ${this.parseOrderBy(spec.orderBy)}`);
+      }
+      if (utils.isNumber(spec.limit) || utils.isApexBindVariable(spec.limit)) {
+        clauses.push(`LIMIT ${this.parseLimitOrOffset(spec.limit)}`);
+      }
+      if (utils.isNumber(spec.offset) || utils.isApexBindVariable(spec.offset)) {
+        clauses.push(`OFFSET ${this.parseLimitOrOffset(spec.offset)}`);
+      }
+    } finally {
+      this.formatter.enabled = enabled;
+    }
+    return clauses.length > 0 ? `${spec.sObject}(${clauses.join(' ')})` : spec.sObject;
+  }
+
   /**
    * Parses fields
    * e.x.: SELECT amount, FORMAT(amount) Amt, (SELECT Id, Name FROM Contacts)
@@ -266,6 +474,9 @@ export class Compose {
         case 'FieldTypeof': {
           return this.parseTypeOfField(field);
         }
+        case 'FieldFieldsFunction': {
+          return `FIELDS(${field.scope})`;
+        }
         default:
           break;
       }
@@ -299,9 +510,13 @@ export class Compose {
   public parseWhereOrHavingClause(whereOrHaving: WhereClause | HavingClause): string {
     let output = '';
     if (whereOrHaving.left) {
+      const negatedParens = whereOrHaving.left.negatedParens || [];
       output +=
         utils.isNumber(whereOrHaving.left.openParen) && whereOrHaving.left.openParen > 0
-          ? new Array(whereOrHaving.left.openParen).fill('(').join('')
+          ? new Array(whereOrHaving.left.openParen)
+              .fill('(')
+              .map((paren, i) => (negatedParens.includes(i) ? `NOT ${paren}` : paren))
+              .join('')
           : '';
       output += `${utils.get(whereOrHaving.left.logicalPrefix, ' ')}`;
       output += whereOrHaving.left.fn ? this.parseFn(whereOrHaving.left.fn) : whereOrHaving.left.field;
@@ -329,17 +544,31 @@ export class Compose {
     }
   }
 
+  /**
+   * Parses the value of the limit or offset clause
+   * e.x.: 10 or :pageSize
+   * @param value
+   * @returns limit or offset
+   */
+  public parseLimitOrOffset(value: number | ApexBindVariable): string {
+    return utils.isApexBindVariable(value) ? `:${value.value}` : `${value}`;
+  }
+
   /**
    * Parses group by clause
-   * e.x.: GROUP BY CampaignId
+   * e.x.: GROUP BY CALENDAR_YEAR(CloseDate), StageName
    * @param groupBy
    * @returns group by clause
    */
-  public parseGroupByClause(groupBy: GroupByClause): string {
-    if (groupBy.fn) {
-      return this.parseFn(groupBy.fn);
+  public parseGroupByClause(groupBy: GroupByClause | GroupByClause[] | LegacyGroupByClause): string {
+    if (Array.isArray(groupBy)) {
+      return this.formatter.formatOrderByArray(groupBy.map(item => this.parseGroupByClause(item)));
+    }
+    const { field, fn } = groupBy as LegacyGroupByClause;
+    if (fn) {
+      return this.parseFn(fn);
     } else {
-      return (Array.isArray(groupBy.field) ? groupBy.field : [groupBy.field]).join(', ');
+      return (Array.isArray(field) ? field : [field]).join(', ');
     }
   }
 
@@ -354,12 +583,25 @@ export class Compose {
       return this.formatter.formatOrderByArray(orderBy.map(ob => this.parseOrderBy(ob)));
     } else {
       let output = `${utils.get(orderBy.field, ' ')}`;
-      output += orderBy.fn ? this.parseFn(orderBy.fn) : '';
+      output += orderBy.fn ? `${this.parseFn(orderBy.fn)} ` : '';
       output += `${utils.get(orderBy.order, ' ')}${utils.get(orderBy.nulls, '', 'NULLS ')}`;
       return output.trim();
     }
   }
 
+  /**
+   * Parses with record visibility context
+   * e.x.: WITH RecordVisibilityContext (maxDescriptorPerRecord=100, supportsDomains=true)
+   * @param withRecordVisibility
+   * @returns with record visibility context parameters
+   */
+  public parseWithRecordVisibility(withRecordVisibility: WithRecordVisibilityClause): string {
+    const params = (Object.keys(withRecordVisibility) as (keyof WithRecordVisibilityClause)[])
+      .filter(param => !utils.isNil(withRecordVisibility[param]))
+      .map(param => `${param}=${withRecordVisibility[param]}`);
+    return `(${params.join(', ')})`;
+  }
+
   /**
    * Parses with data category
    * e.x.: WITH DATA CATEGORY Geography__c AT (usa__c, uk__c)
@@ -157,6 +157,16 @@ export class Formatter {
     }
   }
 
+  /**
+   * Formats the object specs of a SOSL returning clause
+   * If formatting is enabled, then each spec after the first is put on a new indented line
+   * @param returningSpecs
+   * @returns returning specs
+   */
+  formatReturningSpecs(returningSpecs: string[]): string {
+    return returningSpecs.join(this.enabled ? `,\n${this.getIndent()}` : ', ');
+  }
+
   formatWhereClauseOperators(operator: string, whereClause: string): string {
     if (this.enabled && this.options.whereClauseOperatorsIndented) {
       return `\n\t${operator} ${whereClause}`;
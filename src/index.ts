@@ -3,8 +3,73 @@
  * The software in this package is published under the terms of the MIT license,
  * a copy of which has been included with this distribution in the LICENSE.txt file.
  */
-export { parseQuery, isQueryValid } from './parser/visitor';
+export { parseQuery, parseQueryWithDiagnostics, isQueryValid, parseSearch } from './parser/visitor';
+export { ParseQueryConfig } from './parser/parser';
+export { SoqlSyntaxError, LexingError, ParsingError } from './parser/errors';
+export { getFriendlyErrorMessage, getCodeFrame, getKeywordSuggestion, FriendlyErrorMessageOptions } from './parser/error-messages';
 export * from './api/api-models';
 export * from './api/public-utils';
+export { getConditionGroupFromWhereClause, getWhereClauseFromConditionGroup } from './api/condition-groups';
+export { extractQueriesFromApex } from './api/apex-queries';
+export { DebugLogAnalyzer, analyzeDebugLog, getQueryFingerprint } from './api/debug-log';
+export { validateQuery } from './api/query-validator';
+export { SchemaValidator } from './api/schema-validator';
+export { estimateQueryCost, getSelectivityThreshold } from './api/query-cost';
+export { bindParameters, analyzeStringLiterals, escapeSoqlString } from './api/query-parameters';
+export { QueryBuilder, QueryBuilderField, QueryBuilderFieldOrFn, QueryBuilderCondition, select } from './api/query-builder';
+export { validateQueryModel, assertValidQueryModel, QueryModelError } from './api/query-model-validator';
+export { querySchema, isQuery, JsonSchema, JsonSchemaType } from './api/query-schema';
+export {
+  walkQuery,
+  transformQuery,
+  QueryNodeTypes,
+  QueryNodeType,
+  QueryNode,
+  QueryNodeContext,
+  QueryNodeReplacementTypes,
+  QueryWalkCallback,
+  QueryTransformCallback,
+  QueryWalkVisitor,
+  QueryTransformVisitor,
+} from './api/query-traversal';
+export { getFieldReferences } from './api/field-references';
+export {
+  and,
+  or,
+  not,
+  eq,
+  ne,
+  lt,
+  lte,
+  gt,
+  gte,
+  like,
+  inList,
+  notInList,
+  includes,
+  excludes,
+  inSubquery,
+  notInSubquery,
+  dateLiteral,
+  ConditionField,
+} from './api/condition-builder';
+export {
+  lintQuery,
+  applyLintFixes,
+  builtInLintRules,
+  noLeadingWildcard,
+  noNegativeFilter,
+  requireLimit,
+  noDuplicateFields,
+  noUnboundedOffset,
+  requireSecurityEnforced,
+  LintRule,
+  LintRuleContext,
+  LintReport,
+  LintFinding,
+  LintFix,
+  LintQueryOptions,
+  LintQueryType,
+} from './api/query-linter';
 export * from './composer/composer';
 export { FormatOptions } from './formatter/formatter';
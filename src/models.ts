@@ -1,5 +1,5 @@
 import { CstNode, IToken } from 'chevrotain';
-import { LiteralType } from './api/api-models';
+import { Condition, LiteralType, LogicalOperator, ValueQuery } from './api/api-models';
 
 export type LiteralTypeWithSubquery = (LiteralType | 'SUBQUERY') | LiteralType[];
 
@@ -8,9 +8,28 @@ export interface ArrayExpressionWithType {
   value: string;
 }
 
-export interface ExpressionTree<T> {
-  expressionTree?: T;
-  prevExpression?: T;
+/**
+ * Intermediate representation of a WHERE or HAVING clause that retains every parenthesis from the query
+ * Used to build both the WhereClause linked list and the ConditionGroup tree
+ */
+export type ConditionTreeNode = ConditionTreeLogicalNode | ConditionTreeParenNode | ConditionTreeConditionNode;
+
+export interface ConditionTreeLogicalNode {
+  type: 'logical';
+  operator: LogicalOperator;
+  children: ConditionTreeNode[];
+}
+
+export interface ConditionTreeParenNode {
+  type: 'paren';
+  negated: boolean;
+  child: ConditionTreeNode;
+}
+
+export interface ConditionTreeConditionNode {
+  type: 'condition';
+  negated: boolean;
+  condition: Condition & ValueQuery;
 }
 
 /**
@@ -55,6 +74,11 @@ export interface SelectClauseFunctionIdentifierContext extends WithIdentifier {
   alias?: IToken[];
 }
 
+export interface SelectClauseFieldsIdentifierContext {
+  fn: IToken[];
+  params: IToken[];
+}
+
 export interface SelectClauseSubqueryIdentifierContext extends WithIdentifier {
   selectStatement?: CstNode[];
 }
@@ -84,23 +108,43 @@ export interface usingScopeClauseContext {
 }
 
 export interface WhereClauseContext {
-  conditionExpression: CstNode[];
+  conditionGroupOr: CstNode[];
 }
 
 export interface WhereClauseSubqueryContext {
   selectStatement: CstNode[];
 }
 
-export interface ConditionExpressionContext {
-  logicalOperator?: IToken[];
-  expression: CstNode[];
+export interface ConditionGroupOrContext {
+  conditionGroupAnd: CstNode[];
+}
+
+export interface ConditionGroupAndContext {
+  conditionGroupUnary: CstNode[];
+}
+
+export interface ConditionGroupUnaryContext {
+  logicalPrefix?: IToken[];
+  conditionGroupOr?: CstNode[];
+  expression?: CstNode[];
 }
 
 export interface WithClauseContext {
   withSecurityEnforced?: CstNode[];
+  withAccessLevel?: IToken[];
+  withRecordVisibility?: CstNode[];
   withDataCategory?: CstNode[];
 }
 
+export interface WithRecordVisibilityContext {
+  withRecordVisibilityParam: CstNode[];
+}
+
+export interface WithRecordVisibilityParamContext {
+  param: IToken[];
+  value: IToken[];
+}
+
 export interface WithDateCategoryContext {
   withDataCategoryArr: CstNode[];
 }
@@ -112,17 +156,13 @@ export interface WithDateCategoryConditionContext {
 }
 
 export interface GroupByClauseContext {
-  groupByFieldList?: CstNode[];
-  fn: CstNode[];
-  havingClause: CstNode[];
-}
-
-export interface GroupByFieldListContext {
-  field: IToken[];
+  GROUP_BY: IToken[];
+  groupBy: (CstNode | IToken)[];
+  havingClause?: CstNode[];
 }
 
 export interface HavingClauseContext {
-  conditionExpression: CstNode[];
+  conditionGroupOr: CstNode[];
 }
 
 export interface OrderByClauseContext {
@@ -137,6 +177,7 @@ export interface OrderByExpressionContext extends WithIdentifier {
 
 export interface OrderByFunctionExpressionContext extends WithIdentifier {
   fn: IToken[];
+  functionExpression: CstNode[];
   order?: IToken[];
   nulls?: IToken[];
 }
@@ -151,6 +192,10 @@ export interface ValueContext {
   value: IToken[];
 }
 
+export interface ValueWithApexBindVariableContext {
+  value: (IToken | CstNode)[];
+}
+
 export interface OperatorContext {
   operator: IToken[];
 }
@@ -176,25 +221,22 @@ export interface FieldFunctionContext {
 
 export interface LocationFunctionContext {
   location1: IToken[];
-  location2: IToken[] | CstNode[];
+  location2: (IToken | CstNode)[];
   unit: IToken[];
 }
 
 export interface GeoLocationFunctionContext {
-  latitude: IToken[];
-  longitude: IToken[];
+  latitude: (IToken | CstNode)[];
+  longitude: (IToken | CstNode)[];
 }
 
 export interface ExpressionContext {
-  logicalPrefix?: IToken[];
   lhs: IToken[] | CstNode[];
   operator: CstNode[]; // ExpressionOperatorContext
-  L_PAREN?: IToken[];
-  R_PAREN?: IToken[];
 }
 
 export interface ApexBindVariableExpressionContext {
-  Identifier: IToken[];
+  apexBindVariableValue: CstNode[];
 }
 
 export interface ExpressionOperatorContext {
@@ -240,3 +282,65 @@ export interface ExpressionWithAggregateFunctionContext {
   relationalOperator?: CstNode[];
   setOperator?: CstNode[];
 }
+
+export interface SearchStatementContext {
+  findClause: CstNode[];
+  searchInClause?: CstNode[];
+  returningClause?: CstNode[];
+  searchWithClause?: CstNode[];
+  limitClause?: CstNode[];
+  updateTrackingViewstat?: CstNode[];
+}
+
+export interface FindClauseContext {
+  searchTerm: IToken[];
+}
+
+export interface SearchInClauseContext {
+  searchGroup: IToken[];
+}
+
+export interface ReturningClauseContext {
+  returningSpec: CstNode[];
+}
+
+export interface ReturningSpecContext {
+  sObject: IToken[];
+  returningSpecFields?: CstNode[];
+  whereClause?: CstNode[];
+  usingListViewClause?: CstNode[];
+  orderByClause?: CstNode[];
+  limitClause?: CstNode[];
+  offsetClause?: CstNode[];
+}
+
+export interface ReturningSpecFieldsContext {
+  field: CstNode[];
+}
+
+export interface UsingListViewClauseContext {
+  listView: IToken[];
+}
+
+export interface SearchWithClauseContext {
+  withDataCategory?: CstNode[];
+  searchWithSnippet?: CstNode[];
+  searchWithNetwork?: CstNode[];
+  searchWithStringValue?: CstNode[];
+  searchWithSpellCorrection?: CstNode[];
+  withHighlight?: IToken[];
+}
+
+export interface SearchWithSnippetContext {
+  param?: IToken[];
+  value?: IToken[];
+}
+
+export interface SearchWithStringValueContext {
+  param: IToken[];
+  value: IToken[];
+}
+
+export interface SearchWithSpellCorrectionContext {
+  booleanValue: CstNode[];
+}
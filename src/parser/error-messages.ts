@@ -0,0 +1,245 @@
+import { TokenType } from 'chevrotain';
+import { getEditDistance, getLastItem } from '../utils';
+import { SoqlSyntaxError } from './errors';
+import * as lexer from './lexer';
+
+export interface FriendlyErrorMessageOptions {
+  includeCodeFrame?: boolean; // default=true
+  linesAround?: number; // default=2
+}
+
+const MAX_EXPECTED_DESCRIPTIONS = 8;
+
+const TOKEN_DESCRIPTIONS: { [tokenName: string]: string } = {
+  Identifier: 'a field or object name',
+  IdentifierNotKeyword: 'a field or object name',
+  StringIdentifier: 'a string',
+  NumberIdentifier: 'a number',
+  DecimalNumberIdentifier: 'a number',
+  IntegerNumberIdentifier: 'a number',
+  UNSIGNED_INTEGER: 'a number',
+  SIGNED_INTEGER: 'a number',
+  UNSIGNED_DECIMAL: 'a number',
+  SIGNED_DECIMAL: 'a number',
+  DateIdentifier: 'a date',
+  DATE: 'a date',
+  DATETIME: 'a date',
+  CURRENCY_PREFIXED_DECIMAL: 'a currency value',
+  CURRENCY_PREFIXED_INTEGER: 'a currency value',
+  GEOLOCATION_UNIT: `'mi' or 'km'`,
+  UsingScopeEnumeration: 'a scope',
+  FieldsFunctionParamIdentifier: 'ALL, STANDARD or CUSTOM',
+  SearchTerm: 'a search term',
+  SearchGroupIdentifier: 'ALL, NAME, EMAIL, PHONE or SIDEBAR',
+  EOF: 'the end of the query',
+};
+
+const CATEGORY_DESCRIPTIONS: [TokenType, string][] = [
+  [lexer.DateFunction, 'a date function'],
+  [lexer.AggregateFunction, 'an aggregate function'],
+  [lexer.LocationFunction, 'a function'],
+  [lexer.OtherFunction, 'a function'],
+  [lexer.DateLiteral, 'a date literal'],
+  [lexer.DateNLiteral, 'a date literal'],
+];
+
+// Category tokens are never lexed directly, so they are collected from the tokens that belong to them
+const tokensByName: { [tokenName: string]: TokenType } = lexer.allTokens.reduce((output: { [tokenName: string]: TokenType }, token) => {
+  [token].concat(token.CATEGORIES || []).forEach(item => {
+    output[item.name] = item;
+  });
+  return output;
+}, {});
+
+// Keywords, functions and date literals - any token that is matched by a plain word (or words)
+const keywordTokens: { keyword: string; token: TokenType }[] = lexer.allTokens
+  .filter(token => getKeyword(token))
+  .map(token => ({ keyword: getKeyword(token), token }));
+
+/**
+ * Builds a human friendly error message from a syntax error, including a code frame pointing to the error
+ * and a suggested keyword if the error was caused by a misspelled keyword
+ * e.x.
+ * Unexpected "Account" at line 1, column 16. Expected a field or object name or FROM. Did you mean "FROM" instead of "FORM"?
+ *
+ * > 1 | SELECT Id FORM Account
+ *     |                ^^^^^^^
+ *
+ * @param soql query that was parsed
+ * @param error
+ * @param [options]
+ */
+export function getFriendlyErrorMessage(soql: string, error: SoqlSyntaxError, options: FriendlyErrorMessageOptions = {}): string {
+  const { includeCodeFrame, linesAround } = { includeCodeFrame: true, linesAround: 2, ...options };
+  let message = getErrorSentence(error);
+  const suggestion = getErrorSuggestion(soql, error);
+  if (suggestion) {
+    message += ` Did you mean "${suggestion.suggestion}" instead of "${suggestion.value}"?`;
+  }
+  if (includeCodeFrame) {
+    message += `\n\n${getCodeFrame(soql, error.line, error.column, error.length, linesAround)}`;
+  }
+  return message;
+}
+
+/**
+ * Returns the lines of the query surrounding the line and column with a caret under the provided column
+ * @param soql
+ * @param line one-based line
+ * @param column one-based column
+ * @param [length] number of characters to underline
+ * @param [linesAround] number of lines to include before and after the line
+ */
+export function getCodeFrame(soql: string, line: number, column: number, length: number = 1, linesAround: number = 2): string {
+  const lines = soql.split(/\r\n|\r|\n/);
+  const firstLine = Math.max(line - linesAround, 1);
+  const lastLine = Math.min(line + linesAround, lines.length);
+  const gutterWidth = String(lastLine).length;
+  const output: string[] = [];
+
+  for (let currLine = firstLine; currLine <= lastLine; currLine++) {
+    const text = lines[currLine - 1];
+    const gutter = String(currLine).padStart(gutterWidth);
+    if (currLine === line) {
+      output.push(`> ${gutter} | ${text}`.trimRight());
+      // preserve tabs so the caret lines up with the text above
+      const padding = text
+        .substring(0, column - 1)
+        .replace(/[^\t]/g, ' ')
+        .padEnd(column - 1);
+      output.push(`  ${' '.repeat(gutterWidth)} | ${padding}${'^'.repeat(Math.max(length, 1))}`);
+    } else {
+      output.push(`  ${gutter} | ${text}`.trimRight());
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Returns the keyword, function or date literal that is the closest match to the provided value
+ * if the value is close enough to be considered a misspelling
+ * e.x. SELEC -> SELECT, ORDERBY -> ORDER BY, LAST_N_DAY -> LAST_N_DAYS
+ * @param value
+ * @returns keyword
+ */
+export function getKeywordSuggestion(value: string): string | undefined {
+  if (!value || value.length < 4) {
+    return;
+  }
+  const upperValue = value.toUpperCase();
+  if (keywordTokens.some(({ keyword }) => keyword === upperValue)) {
+    return;
+  }
+  // allow one typo for short values and two typos for longer values
+  const maxDistance = upperValue.length < 8 ? 1 : 2;
+  let suggestion: string | undefined;
+  let suggestionDistance = maxDistance + 1;
+  keywordTokens.forEach(({ keyword }) => {
+    const distance = getEditDistance(upperValue, keyword);
+    if (distance < suggestionDistance) {
+      suggestion = keyword;
+      suggestionDistance = distance;
+    }
+  });
+  return suggestion;
+}
+
+function getErrorSentence(error: SoqlSyntaxError): string {
+  const position = `at line ${error.line}, column ${error.column}`;
+  const { foundToken } = error;
+
+  if (error.name === 'LexingError') {
+    return `Unexpected character "${foundToken ? foundToken.image : ''}" ${position}.`;
+  }
+
+  // the closing paren of a group of conditions is the only token consumed directly by conditionGroupUnary
+  if (error.name === 'MismatchedTokenException' && getLastItem(error.ruleStack) === 'conditionGroupUnary') {
+    const clause = error.ruleStack.includes('havingClause') ? 'HAVING' : 'WHERE';
+    return `Missing closing parenthesis ")" in the ${clause} clause ${position}.`;
+  }
+
+  let sentence =
+    !foundToken || foundToken.tokenType === 'EOF'
+      ? `Unexpected end of query ${position}.`
+      : `Unexpected "${foundToken.image}" ${position}.`;
+
+  const expected = getExpectedDescriptions(error.expectedTokens);
+  if (expected.length > MAX_EXPECTED_DESCRIPTIONS) {
+    sentence += ` Expected one of ${expected.slice(0, MAX_EXPECTED_DESCRIPTIONS).join(', ')} or ${
+      expected.length - MAX_EXPECTED_DESCRIPTIONS
+    } more.`;
+  } else if (expected.length > 1) {
+    sentence += ` Expected ${expected.slice(0, -1).join(', ')} or ${expected[expected.length - 1]}.`;
+  } else if (expected.length === 1) {
+    sentence += ` Expected ${expected[0]}.`;
+  }
+
+  return sentence;
+}
+
+/**
+ * The token that caused the error is checked first, then the word preceding it
+ * because a misspelled keyword is often parsed as an alias and the error is reported on the next token
+ * e.x. SELECT Id FORM Account
+ */
+function getErrorSuggestion(soql: string, error: SoqlSyntaxError): { value: string; suggestion: string } | undefined {
+  if (error.foundToken && error.foundToken.tokenType === 'Identifier') {
+    const suggestion = getKeywordSuggestion(error.foundToken.image);
+    if (suggestion) {
+      const dateNLiteralVariable = getDateNLiteralVariable(soql, suggestion, error.offset + error.length);
+      return {
+        value: `${error.foundToken.image}${dateNLiteralVariable}`,
+        suggestion: `${suggestion}${dateNLiteralVariable}`,
+      };
+    }
+  }
+  const precedingWord = /([a-zA-Z_][a-zA-Z0-9_]*)\s+$/.exec(soql.substring(0, error.offset));
+  if (precedingWord) {
+    const suggestion = getKeywordSuggestion(precedingWord[1]);
+    if (suggestion) {
+      return { value: precedingWord[1], suggestion };
+    }
+  }
+}
+
+/**
+ * If the suggestion is a date literal that requires a variable, include the variable that follows the value
+ * e.x. LAST_N_DAY:5 -> LAST_N_DAYS:5
+ */
+function getDateNLiteralVariable(soql: string, suggestion: string, offset: number): string {
+  const token = keywordTokens.find(({ keyword }) => keyword === suggestion).token;
+  if (!(token.CATEGORIES || []).includes(lexer.DateNLiteral)) {
+    return '';
+  }
+  const match = /^:-?[0-9]+/.exec(soql.substring(offset));
+  return match ? match[0] : '';
+}
+
+function getExpectedDescriptions(expectedTokens: string[]): string[] {
+  return Array.from(new Set(expectedTokens.map(getTokenDescription)));
+}
+
+function getTokenDescription(tokenName: string): string {
+  if (TOKEN_DESCRIPTIONS[tokenName]) {
+    return TOKEN_DESCRIPTIONS[tokenName];
+  }
+  const token = tokensByName[tokenName];
+  if (!token) {
+    return tokenName;
+  }
+  const category = CATEGORY_DESCRIPTIONS.find(([categoryToken]) => (token.CATEGORIES || []).includes(categoryToken));
+  if (category) {
+    return category[1];
+  }
+  if (typeof token.PATTERN === 'string') {
+    return `"${token.PATTERN}"`;
+  }
+  return getKeyword(token) || tokenName;
+}
+
+function getKeyword(token: TokenType): string | undefined {
+  if (token.PATTERN instanceof RegExp && /^[a-zA-Z0-9_ ]+$/.test(token.PATTERN.source)) {
+    return token.PATTERN.source.toUpperCase();
+  }
+}
@@ -0,0 +1,125 @@
+import { ILexingError, IRecognitionException, IToken } from 'chevrotain';
+import { DiagnosticToken } from '../api/api-models';
+
+export interface SoqlSyntaxErrorDetails {
+  line: number;
+  column: number;
+  offset: number;
+  length: number;
+  expectedTokens?: string[] | (() => string[]); // a function is only called the first time expectedTokens is read
+  foundToken?: DiagnosticToken;
+  previousToken?: DiagnosticToken;
+  ruleStack?: string[];
+}
+
+/**
+ * Base class for all errors thrown when a query cannot be lexed or parsed
+ * line and column are one-based, offset is zero-based
+ * If the error was at the end of the query, the position is immediately after the last token and the length is 0
+ */
+export class SoqlSyntaxError extends Error {
+  line: number;
+  column: number;
+  offset: number;
+  length: number;
+  expectedTokens: string[];
+  foundToken?: DiagnosticToken;
+  previousToken?: DiagnosticToken;
+  ruleStack: string[];
+
+  constructor(message: string, details: SoqlSyntaxErrorDetails) {
+    super(message);
+    // required for instanceof to work when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SoqlSyntaxError';
+    this.line = details.line;
+    this.column = details.column;
+    this.offset = details.offset;
+    this.length = details.length;
+    const { expectedTokens } = details;
+    if (typeof expectedTokens === 'function') {
+      // determining the expected tokens is expensive and not required when only checking if a query is valid
+      let resolvedTokens: string[] | undefined;
+      Object.defineProperty(this, 'expectedTokens', {
+        configurable: true,
+        enumerable: true,
+        get: () => (resolvedTokens = resolvedTokens || expectedTokens()),
+      });
+    } else {
+      this.expectedTokens = expectedTokens || [];
+    }
+    this.foundToken = details.foundToken;
+    this.previousToken = details.previousToken;
+    this.ruleStack = details.ruleStack || [];
+  }
+}
+
+export class LexingError extends SoqlSyntaxError {
+  constructor(lexingError: ILexingError, soql?: string) {
+    super(`${lexingError.message} (${lexingError.line}:${lexingError.column})`, {
+      line: lexingError.line,
+      column: lexingError.column,
+      offset: lexingError.offset,
+      length: lexingError.length,
+      foundToken: soql ? { image: soql.substr(lexingError.offset, lexingError.length) } : undefined,
+    });
+    this.name = 'LexingError';
+  }
+}
+
+// Chevrotain populates the previous token on MismatchedTokenException, NoViableAltException and EarlyExitException
+type RecognitionException = IRecognitionException & { previousToken?: IToken };
+
+/**
+ * The name is set to the name of the underlying exception, such as MismatchedTokenException or NoViableAltException
+ */
+export class ParsingError extends SoqlSyntaxError {
+  constructor(parsingError: RecognitionException, tokens: IToken[], expectedTokens: string[] | (() => string[]) = []) {
+    const { token, previousToken } = parsingError;
+    super(parsingError.message, {
+      ...getTokenPosition(token, tokens),
+      expectedTokens,
+      foundToken: getDiagnosticToken(token),
+      previousToken: previousToken && !isEofToken(previousToken) ? getDiagnosticToken(previousToken) : undefined,
+      ruleStack: parsingError.context ? parsingError.context.ruleStack : [],
+    });
+    this.name = parsingError.name;
+  }
+}
+
+export function isEofToken(token: IToken): boolean {
+  return isNaN(token.startOffset);
+}
+
+export function getDiagnosticToken(token: IToken): DiagnosticToken {
+  return {
+    image: token.image,
+    tokenType: token.tokenType.name,
+  };
+}
+
+/**
+ * EOF tokens do not have a position, so the position immediately following the last token is used
+ * @param token
+ * @param tokens all tokens from the query
+ */
+export function getTokenPosition(token: IToken, tokens: IToken[]): Pick<SoqlSyntaxErrorDetails, 'line' | 'column' | 'offset' | 'length'> {
+  if (!isEofToken(token)) {
+    return {
+      line: token.startLine,
+      column: token.startColumn,
+      offset: token.startOffset,
+      length: token.endOffset - token.startOffset + 1,
+    };
+  }
+  const lastToken = tokens[tokens.length - 1];
+  if (!lastToken) {
+    return { line: 1, column: 1, offset: 0, length: 0 };
+  }
+  return {
+    line: lastToken.endLine,
+    column: lastToken.endColumn + 1,
+    offset: lastToken.endOffset + 1,
+    length: 0,
+  };
+}
@@ -89,9 +89,13 @@ export const UsingScopeEnumeration = createToken({
   pattern: Lexer.NA,
 });
 
-// This is a token that will be invoked to force a parsing error if there is a paren mismatch
-export const RParenMismatch = createToken({
-  name: 'RParenMismatch',
+export const FieldsFunctionParamIdentifier = createToken({
+  name: 'FieldsFunctionParamIdentifier',
+  pattern: Lexer.NA,
+});
+
+export const SearchGroupIdentifier = createToken({
+  name: 'SearchGroupIdentifier',
   pattern: Lexer.NA,
 });
 
@@ -177,6 +181,8 @@ export const Identifier = createToken({
 });
 
 export const StringIdentifier = createToken({ name: 'StringIdentifier', line_breaks: true, pattern: /(')(?:(?=(\\?))\2.)*?\1/ });
+// SOSL search term, reserved characters within the braces are escaped with a backslash, e.x. {Acme\}*}
+export const SearchTerm = createToken({ name: 'SearchTerm', line_breaks: true, pattern: /\{(?:\\.|[^\\}])*\}/ });
 
 export const WhiteSpace = createToken({
   name: 'WhiteSpace',
@@ -262,6 +268,8 @@ export const DataCategory = createToken({
   categories: [Keyword],
 });
 export const End = createToken({ name: 'END', pattern: /END/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+// only used to instantiate apex objects in a bind variable, e.x. :new Set<Id>(ids)
+export const New = createToken({ name: 'NEW', pattern: /NEW/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
 
 export const Offset = createToken({ name: 'OFFSET', pattern: /OFFSET/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
 
@@ -284,6 +292,24 @@ export const SecurityEnforced = createToken({
   longer_alt: Identifier,
   categories: [Keyword, Identifier],
 });
+export const UserMode = createToken({
+  name: 'USER_MODE',
+  pattern: /USER_MODE/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+export const SystemMode = createToken({
+  name: 'SYSTEM_MODE',
+  pattern: /SYSTEM_MODE/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+export const RecordVisibilityContext = createToken({
+  name: 'RecordVisibilityContext',
+  pattern: /RecordVisibilityContext/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
 
 // DATE FUNCTIONS
 export const CalendarMonth = createToken({
@@ -425,6 +451,90 @@ export const Grouping = createToken({
   categories: [OtherFunction, Identifier],
 });
 
+// FIELDS FUNCTION
+// https://developer.salesforce.com/docs/atlas.en-us.soql_sosl.meta/soql_sosl/sforce_api_calls_soql_select_fields.htm
+export const Fields = createToken({
+  name: 'FIELDS',
+  pattern: /FIELDS/i,
+  longer_alt: Identifier,
+  categories: [Identifier],
+});
+export const All = createToken({
+  name: 'ALL',
+  pattern: /ALL/i,
+  longer_alt: Identifier,
+  categories: [FieldsFunctionParamIdentifier, SearchGroupIdentifier, Identifier],
+});
+export const Standard = createToken({
+  name: 'STANDARD',
+  pattern: /STANDARD/i,
+  longer_alt: Identifier,
+  categories: [FieldsFunctionParamIdentifier, Identifier],
+});
+export const Custom = createToken({
+  name: 'CUSTOM',
+  pattern: /CUSTOM/i,
+  longer_alt: Identifier,
+  categories: [FieldsFunctionParamIdentifier, Identifier],
+});
+
+// SOSL
+// https://developer.salesforce.com/docs/atlas.en-us.soql_sosl.meta/soql_sosl/sforce_api_calls_sosl_syntax.htm
+export const Find = createToken({ name: 'FIND', pattern: /FIND/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const Returning = createToken({
+  name: 'RETURNING',
+  pattern: /RETURNING/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+export const Name = createToken({
+  name: 'NAME',
+  pattern: /NAME/i,
+  longer_alt: Identifier,
+  categories: [SearchGroupIdentifier, Identifier],
+});
+export const Email = createToken({
+  name: 'EMAIL',
+  pattern: /EMAIL/i,
+  longer_alt: Identifier,
+  categories: [SearchGroupIdentifier, Identifier],
+});
+export const Phone = createToken({
+  name: 'PHONE',
+  pattern: /PHONE/i,
+  longer_alt: Identifier,
+  categories: [SearchGroupIdentifier, Identifier],
+});
+export const Sidebar = createToken({
+  name: 'SIDEBAR',
+  pattern: /SIDEBAR/i,
+  longer_alt: Identifier,
+  categories: [SearchGroupIdentifier, Identifier],
+});
+export const Listview = createToken({ name: 'LISTVIEW', pattern: /LISTVIEW/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const Division = createToken({ name: 'DIVISION', pattern: /DIVISION/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const Highlight = createToken({
+  name: 'HIGHLIGHT',
+  pattern: /HIGHLIGHT/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+export const Metadata = createToken({ name: 'METADATA', pattern: /METADATA/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const Network = createToken({ name: 'NETWORK', pattern: /NETWORK/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const PricebookId = createToken({
+  name: 'PRICEBOOKID',
+  pattern: /PRICEBOOKID/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+export const Snippet = createToken({ name: 'SNIPPET', pattern: /SNIPPET/i, longer_alt: Identifier, categories: [Keyword, Identifier] });
+export const SpellCorrection = createToken({
+  name: 'SPELL_CORRECTION',
+  pattern: /SPELL_CORRECTION/i,
+  longer_alt: Identifier,
+  categories: [Keyword, Identifier],
+});
+
 // DATE LITERALS
 export const Yesterday = createToken({
   name: 'YESTERDAY',
@@ -709,6 +819,8 @@ export const Comma = createToken({ name: 'COMMA', pattern: ',', categories: [Sym
 export const Asterisk = createToken({ name: 'ASTERISK', pattern: '*', categories: [SymbolIdentifier] });
 export const LParen = createToken({ name: 'L_PAREN', pattern: '(', categories: [SymbolIdentifier] });
 export const RParen = createToken({ name: 'R_PAREN', pattern: ')', categories: [SymbolIdentifier] });
+export const LSquareBracket = createToken({ name: 'L_SQUARE_BRACKET', pattern: '[', categories: [SymbolIdentifier] });
+export const RSquareBracket = createToken({ name: 'R_SQUARE_BRACKET', pattern: ']', categories: [SymbolIdentifier] });
 export const Plus = createToken({ name: 'PLUS', pattern: '+', categories: [SymbolIdentifier] });
 export const Minus = createToken({ name: 'MINUS', pattern: '-', categories: [SymbolIdentifier] });
 
@@ -877,6 +989,7 @@ export const allTokens = [
   Below,
   DataCategory,
   End,
+  New,
   Offset,
   Reference,
   Scope,
@@ -887,6 +1000,9 @@ export const allTokens = [
   View,
   When,
   SecurityEnforced,
+  UserMode,
+  SystemMode,
+  RecordVisibilityContext,
   CalendarMonth,
   CalendarQuarter,
   CalendarYear,
@@ -912,6 +1028,25 @@ export const allTokens = [
   Tolabel,
   ConvertTimeZone,
   ConvertCurrency,
+  Fields,
+  // ALL must appear after ALLPRIVATE
+  All,
+  Standard,
+  Custom,
+  Find,
+  Returning,
+  Name,
+  Email,
+  Phone,
+  Sidebar,
+  Listview,
+  Division,
+  Highlight,
+  Metadata,
+  Network,
+  PricebookId,
+  Snippet,
+  SpellCorrection,
   Yesterday,
   Today,
   Tomorrow,
@@ -970,6 +1105,7 @@ export const allTokens = [
   CurrencyPrefixedDecimal,
   CurrencyPrefixedInteger,
   StringIdentifier,
+  SearchTerm,
   Identifier,
   DateTime,
   DateToken,
@@ -990,6 +1126,8 @@ export const allTokens = [
   Asterisk,
   LParen,
   RParen,
+  LSquareBracket,
+  RSquareBracket,
   Plus,
   Minus,
 ];
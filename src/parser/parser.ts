@@ -1,28 +1,23 @@
-import { CstParser, IRecognitionException, ILexingError } from 'chevrotain';
+import {
+  CstNode,
+  CstParser,
+  defaultParserErrorProvider,
+  IParserErrorMessageProvider,
+  IRecognitionException,
+  ILexingError,
+  IToken,
+  TokenType,
+} from 'chevrotain';
 import * as lexer from './lexer';
+import { SoqlDiagnostic, SourceLocation } from '../api/api-models';
+import { getDiagnosticToken, getTokenPosition, isEofToken, LexingError, ParsingError } from './errors';
 
 export interface ParseQueryConfig {
   allowApexBindVariables?: boolean;
   logErrors?: boolean;
-}
-
-interface ParenCount {
-  right: number;
-  left: number;
-}
-
-class LexingError extends Error {
-  constructor(lexingError: ILexingError) {
-    super(`${lexingError.message} (${lexingError.line}:${lexingError.column})`);
-    this.name = 'LexingError';
-  }
-}
-
-class ParsingError extends Error {
-  constructor(parsingError: IRecognitionException) {
-    super(parsingError.message);
-    this.name = parsingError.name;
-  }
+  includeLocations?: boolean;
+  legacyGroupBy?: boolean;
+  includeConditionGroups?: boolean;
 }
 
 export class SoqlParser extends CstParser {
@@ -31,21 +26,27 @@ export class SoqlParser extends CstParser {
   private $_dateFunctionOr: any = undefined;
   private $_aggregateFunction: any = undefined;
   private $_otherFunction: any = undefined;
+  private $_groupByOr: any = undefined;
   private $_atomicExpression: any = undefined;
   private $_arrayExpression: any = undefined;
   private $_relationalOperator: any = undefined;
   private $_selectClause: any = undefined;
   private $_selectClauseFunctionIdentifier: any = undefined;
   private $_withDataCategoryArr: any = undefined;
+  private $_searchWithClause: any = undefined;
 
   // Set to true to allow apex bind variables, such as "WHERE Id IN :accountIds"
   public allowApexBindVariables = false;
 
-  constructor() {
+  constructor(recoveryEnabled = false, errorMessageProvider?: IParserErrorMessageProvider) {
     super(lexer.allTokens, {
+      errorMessageProvider,
       // true in production (webpack replaces this string)
       skipValidations: false,
-      // nodeLocationTracking: 'full', // not sure if needed, could look at
+      // when enabled, the parser will attempt to continue parsing after an error and a partial CST is returned
+      recoveryEnabled,
+      // required to populate source locations on the parsed query when includeLocations is set
+      nodeLocationTracking: 'full',
     });
 
     this.performSelfAnalysis();
@@ -87,24 +88,6 @@ export class SoqlParser extends CstParser {
     });
   });
 
-  // TODO: this is a hack and the paren expressions should be re-worked, but it is a significant amount of work and difficult to handle in the visitor
-  // If There are more open parens than closing parens, force parsing error - RParenMismatch is not a valid token and does not have a pattern
-  // Because we are not actually doing any calculations with results, our strategy for calculating parens within an expression is semi-ok
-  // but should be considered for a refactor at some point
-
-  /**
-   * Will throw a parsing error if there is a paren mismatch
-   * @param parenCount
-   */
-  private $_checkBalancedParens(parenCount: ParenCount) {
-    if (!this.RECORDING_PHASE && parenCount) {
-      const parenMatch = parenCount.left - parenCount.right;
-      if (parenMatch !== 0) {
-        this.CONSUME(lexer.RParenMismatch, { ERR_MSG: `Expecting a token type of --> RParen <-- but found --> '' <--` });
-      }
-    }
-  }
-
   private selectClause = this.RULE('selectClause', () => {
     this.CONSUME(lexer.Select);
     this.AT_LEAST_ONE_SEP({
@@ -115,6 +98,7 @@ export class SoqlParser extends CstParser {
             (this.$_selectClause = [
               // selectClauseFunctionIdentifier must be first because the alias could also be an identifier
               { ALT: () => this.SUBRULE(this.selectClauseFunctionIdentifier, { LABEL: 'field' }) },
+              { ALT: () => this.SUBRULE(this.selectClauseFieldsIdentifier, { LABEL: 'field' }) },
               { ALT: () => this.SUBRULE(this.selectClauseSubqueryIdentifier, { LABEL: 'field' }) },
               { ALT: () => this.SUBRULE(this.selectClauseTypeOf, { LABEL: 'field' }) },
               { ALT: () => this.SUBRULE(this.selectClauseIdentifier, { LABEL: 'field' }) },
@@ -137,6 +121,13 @@ export class SoqlParser extends CstParser {
     this.OPTION(() => this.CONSUME(lexer.Identifier, { LABEL: 'alias' }));
   });
 
+  private selectClauseFieldsIdentifier = this.RULE('selectClauseFieldsIdentifier', () => {
+    this.CONSUME(lexer.Fields, { LABEL: 'fn' });
+    this.CONSUME(lexer.LParen);
+    this.CONSUME(lexer.FieldsFunctionParamIdentifier, { LABEL: 'params' });
+    this.CONSUME(lexer.RParen);
+  });
+
   private selectClauseSubqueryIdentifier = this.RULE('selectClauseSubqueryIdentifier', () => {
     this.CONSUME(lexer.LParen);
     this.SUBRULE(this.selectStatement);
@@ -159,7 +150,11 @@ export class SoqlParser extends CstParser {
 
   private selectClauseIdentifier = this.RULE('selectClauseIdentifier', () => {
     this.CONSUME(lexer.Identifier, { LABEL: 'field' });
-    this.OPTION(() => this.CONSUME1(lexer.Identifier, { LABEL: 'alias' }));
+    this.OPTION({
+      // OFFSET may follow the last field of a SOSL returning spec, e.x. RETURNING Account(Id OFFSET 10)
+      GATE: () => !(this.LA(1).tokenType === lexer.Offset && this.LA(2).tokenType === lexer.UnsignedInteger),
+      DEF: () => this.CONSUME1(lexer.Identifier, { LABEL: 'alias' }),
+    });
   });
 
   private selectClauseTypeOfThen = this.RULE('selectClauseTypeOfThen', () => {
@@ -201,20 +196,7 @@ export class SoqlParser extends CstParser {
 
   private whereClause = this.RULE('whereClause', () => {
     this.CONSUME(lexer.Where);
-    // Get paren count to ensure that we only parse balanced parens for this where clause
-    // and do not parse any extra parens that might belong to subquery or might be invalid
-    const parenCount = this.getParenCount();
-    this.AT_LEAST_ONE({
-      DEF: () => {
-        this.SUBRULE(this.conditionExpression, { ARGS: [parenCount, false, true, true] });
-      },
-    });
-
-    // TODO: this is a hack and the paren expressions should be re-worked, but it is a significant amount of work and difficult to handle in the visitor
-    // If There are more open parens than closing parens, force parsing error - RParenMismatch is not a valid token and does not have a pattern
-    // Because we are not actually doing any calculations with results, our strategy for calculating parens within an expression is semi-ok
-    // but should be considered for a refactor at some point
-    this.$_checkBalancedParens(parenCount);
+    this.SUBRULE(this.conditionGroupOr, { ARGS: [false, true, true] });
   });
 
   private whereClauseSubqueryIdentifier = this.RULE('whereClauseSubqueryIdentifier', () => {
@@ -223,18 +205,46 @@ export class SoqlParser extends CstParser {
     this.CONSUME(lexer.RParen);
   });
 
-  private conditionExpression = this.RULE(
-    'conditionExpression',
-    (parenCount?: ParenCount, allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
-      // argument is undefined during self-analysis, need to initialize to avoid exception
-      parenCount = this.getParenCount(parenCount);
+  /**
+   * Conditions are grouped by precedence, NOT binds tighter than AND which binds tighter than OR
+   * e.x. `A OR NOT B AND (C OR D)` is parsed as `A OR ((NOT B) AND (C OR D))`
+   */
+  private conditionGroupOr = this.RULE(
+    'conditionGroupOr',
+    (allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
+      this.AT_LEAST_ONE_SEP({
+        SEP: lexer.Or,
+        DEF: () => this.SUBRULE(this.conditionGroupAnd, { ARGS: [allowSubquery, alowAggregateFn, allowLocationFn] }),
+      });
+    },
+  );
+
+  private conditionGroupAnd = this.RULE(
+    'conditionGroupAnd',
+    (allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
+      this.AT_LEAST_ONE_SEP({
+        SEP: lexer.And,
+        DEF: () => this.SUBRULE(this.conditionGroupUnary, { ARGS: [allowSubquery, alowAggregateFn, allowLocationFn] }),
+      });
+    },
+  );
+
+  private conditionGroupUnary = this.RULE(
+    'conditionGroupUnary',
+    (allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
       this.OPTION(() => {
-        this.OR([
-          { ALT: () => this.CONSUME(lexer.And, { LABEL: 'logicalOperator' }) },
-          { ALT: () => this.CONSUME(lexer.Or, { LABEL: 'logicalOperator' }) },
-        ]);
+        this.CONSUME(lexer.Not, { LABEL: 'logicalPrefix' });
       });
-      this.SUBRULE(this.expression, { ARGS: [parenCount, allowSubquery, alowAggregateFn, allowLocationFn] });
+      this.OR([
+        {
+          ALT: () => {
+            this.CONSUME(lexer.LParen);
+            this.SUBRULE(this.conditionGroupOr, { ARGS: [allowSubquery, alowAggregateFn, allowLocationFn] });
+            this.CONSUME(lexer.RParen);
+          },
+        },
+        { ALT: () => this.SUBRULE(this.expression, { ARGS: [allowSubquery, alowAggregateFn, allowLocationFn] }) },
+      ]);
     },
   );
 
@@ -242,10 +252,35 @@ export class SoqlParser extends CstParser {
     this.CONSUME(lexer.With);
     this.OR([
       { ALT: () => this.CONSUME(lexer.SecurityEnforced, { LABEL: 'withSecurityEnforced' }) },
+      { ALT: () => this.CONSUME(lexer.UserMode, { LABEL: 'withAccessLevel' }) },
+      { ALT: () => this.CONSUME(lexer.SystemMode, { LABEL: 'withAccessLevel' }) },
+      { ALT: () => this.SUBRULE(this.withRecordVisibility) },
       { ALT: () => this.SUBRULE(this.withDataCategory) },
     ]);
   });
 
+  private withRecordVisibility = this.RULE('withRecordVisibility', () => {
+    this.CONSUME(lexer.RecordVisibilityContext);
+    this.CONSUME(lexer.LParen);
+    this.AT_LEAST_ONE_SEP({
+      SEP: lexer.Comma,
+      DEF: () => {
+        this.SUBRULE(this.withRecordVisibilityParam);
+      },
+    });
+    this.CONSUME(lexer.RParen);
+  });
+
+  private withRecordVisibilityParam = this.RULE('withRecordVisibilityParam', () => {
+    this.CONSUME(lexer.Identifier, { LABEL: 'param' });
+    this.CONSUME(lexer.Equal);
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' }) },
+      { ALT: () => this.CONSUME(lexer.True, { LABEL: 'value' }) },
+      { ALT: () => this.CONSUME(lexer.False, { LABEL: 'value' }) },
+    ]);
+  });
+
   private withDataCategory = this.RULE('withDataCategory', () => {
     this.CONSUME(lexer.DataCategory);
     this.AT_LEAST_ONE_SEP({
@@ -284,41 +319,28 @@ export class SoqlParser extends CstParser {
 
   private groupByClause = this.RULE('groupByClause', () => {
     this.CONSUME(lexer.GroupBy);
-    this.OR([
-      { ALT: () => this.SUBRULE(this.cubeFunction, { LABEL: 'fn' }) },
-      { ALT: () => this.SUBRULE(this.rollupFunction, { LABEL: 'fn' }) },
-      { ALT: () => this.SUBRULE(this.dateFunction, { LABEL: 'fn' }) },
-      { ALT: () => this.SUBRULE(this.groupByFieldList) },
-    ]);
-    this.OPTION(() => {
-      this.SUBRULE(this.havingClause);
-    });
-  });
-
-  private groupByFieldList = this.RULE('groupByFieldList', () => {
     this.AT_LEAST_ONE_SEP({
       SEP: lexer.Comma,
       DEF: () => {
-        this.CONSUME(lexer.Identifier, { LABEL: 'field' });
+        this.OR(
+          this.$_groupByOr ||
+            (this.$_groupByOr = [
+              { ALT: () => this.SUBRULE(this.cubeFunction, { LABEL: 'groupBy' }) },
+              { ALT: () => this.SUBRULE(this.rollupFunction, { LABEL: 'groupBy' }) },
+              { ALT: () => this.SUBRULE(this.dateFunction, { LABEL: 'groupBy' }) },
+              { ALT: () => this.CONSUME(lexer.Identifier, { LABEL: 'groupBy' }) },
+            ]),
+        );
       },
     });
+    this.OPTION(() => {
+      this.SUBRULE(this.havingClause);
+    });
   });
 
   private havingClause = this.RULE('havingClause', () => {
     this.CONSUME(lexer.Having);
-
-    const parenCount = this.getParenCount();
-    this.AT_LEAST_ONE({
-      DEF: () => {
-        this.SUBRULE(this.conditionExpression, { ARGS: [parenCount, true] });
-      },
-    });
-
-    // TODO: this is a hack and the paren expressions should be re-worked, but it is a significant amount of work and difficult to handle in the visitor
-    // If There are more open parens than closing parens, force parsing error - RParenMismatch is not a valid token and does not have a pattern
-    // Because we are not actually doing any calculations with results, our strategy for calculating parens within an expression is semi-ok
-    // but should be considered for a refactor at some point
-    this.$_checkBalancedParens(parenCount);
+    this.SUBRULE(this.conditionGroupOr, { ARGS: [true] });
   });
 
   private orderByClause = this.RULE('orderByClause', () => {
@@ -364,12 +386,18 @@ export class SoqlParser extends CstParser {
 
   private limitClause = this.RULE('limitClause', () => {
     this.CONSUME(lexer.Limit);
-    this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' });
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' }) },
+      { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE(this.apexBindVariableExpression, { LABEL: 'value' }) },
+    ]);
   });
 
   private offsetClause = this.RULE('offsetClause', () => {
     this.CONSUME(lexer.Offset);
-    this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' });
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' }) },
+      { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE(this.apexBindVariableExpression, { LABEL: 'value' }) },
+    ]);
   });
 
   // these are made undefined to ensure that V8 knows about these
@@ -460,6 +488,7 @@ export class SoqlParser extends CstParser {
     this.OR([
       { ALT: () => this.SUBRULE(this.geolocationFunction, { LABEL: 'location2' }) },
       { ALT: () => this.CONSUME1(lexer.Identifier, { LABEL: 'location2' }) },
+      { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE(this.apexBindVariableExpression, { LABEL: 'location2' }) },
     ]);
     this.CONSUME1(lexer.Comma);
     this.CONSUME(lexer.GeolocationUnit, { LABEL: 'unit' });
@@ -469,53 +498,32 @@ export class SoqlParser extends CstParser {
   private geolocationFunction = this.RULE('geolocationFunction', () => {
     this.CONSUME(lexer.Geolocation);
     this.CONSUME(lexer.LParen);
-    this.CONSUME(lexer.NumberIdentifier, { LABEL: 'latitude' });
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.NumberIdentifier, { LABEL: 'latitude' }) },
+      { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE(this.apexBindVariableExpression, { LABEL: 'latitude' }) },
+    ]);
     this.CONSUME(lexer.Comma);
-    this.CONSUME1(lexer.NumberIdentifier, { LABEL: 'longitude' });
+    this.OR1([
+      { ALT: () => this.CONSUME1(lexer.NumberIdentifier, { LABEL: 'longitude' }) },
+      { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE1(this.apexBindVariableExpression, { LABEL: 'longitude' }) },
+    ]);
     this.CONSUME(lexer.RParen);
   });
 
-  private expression = this.RULE(
-    'expression',
-    (parenCount?: ParenCount, allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
-      this.OPTION(() => {
-        this.MANY(() => {
-          this.CONSUME(lexer.LParen);
-          if (parenCount) {
-            parenCount.left++;
-          }
-        });
-      });
-
-      this.OPTION1(() => {
-        this.CONSUME(lexer.Not, { LABEL: 'logicalPrefix' });
-      });
-
-      this.OR1([
-        { GATE: () => alowAggregateFn, ALT: () => this.SUBRULE(this.aggregateFunction, { LABEL: 'lhs' }) },
-        { GATE: () => allowLocationFn, ALT: () => this.SUBRULE(this.locationFunction, { LABEL: 'lhs' }) },
-        { ALT: () => this.SUBRULE(this.otherFunction, { LABEL: 'lhs' }) },
-        { ALT: () => this.CONSUME(lexer.Identifier, { LABEL: 'lhs' }) },
-      ]);
-
-      this.OR2([
-        { ALT: () => this.SUBRULE(this.expressionWithRelationalOperator, { LABEL: 'operator' }) },
-        { ALT: () => this.SUBRULE(this.expressionWithSetOperator, { LABEL: 'operator', ARGS: [allowSubquery] }) },
-      ]);
+  private expression = this.RULE('expression', (allowSubquery?: boolean, alowAggregateFn?: boolean, allowLocationFn?: boolean) => {
+    this.OR([
+      { GATE: () => alowAggregateFn, ALT: () => this.SUBRULE(this.aggregateFunction, { LABEL: 'lhs' }) },
+      { GATE: () => allowLocationFn, ALT: () => this.SUBRULE(this.locationFunction, { LABEL: 'lhs' }) },
+      { ALT: () => this.SUBRULE(this.dateFunction, { LABEL: 'lhs' }) },
+      { ALT: () => this.SUBRULE(this.otherFunction, { LABEL: 'lhs' }) },
+      { ALT: () => this.CONSUME(lexer.Identifier, { LABEL: 'lhs' }) },
+    ]);
 
-      this.OPTION4(() => {
-        this.MANY1({
-          GATE: () => (parenCount ? parenCount.left > parenCount.right : true),
-          DEF: () => {
-            this.CONSUME(lexer.RParen);
-            if (parenCount) {
-              parenCount.right++;
-            }
-          },
-        });
-      });
-    },
-  );
+    this.OR1([
+      { ALT: () => this.SUBRULE(this.expressionWithRelationalOperator, { LABEL: 'operator' }) },
+      { ALT: () => this.SUBRULE(this.expressionWithSetOperator, { LABEL: 'operator', ARGS: [allowSubquery] }) },
+    ]);
+  });
 
   private expressionWithRelationalOperator = this.RULE('expressionWithRelationalOperator', () => {
     this.SUBRULE(this.relationalOperator);
@@ -551,7 +559,78 @@ export class SoqlParser extends CstParser {
 
   private apexBindVariableExpression = this.RULE('apexBindVariableExpression', () => {
     this.CONSUME(lexer.Colon);
+    this.SUBRULE(this.apexBindVariableValue);
+  });
+
+  /**
+   * Apex expression used as a bind variable
+   * e.x. acc.Id, accountMap.keySet(), ids[0], String.valueOf(x), new Set<Id>(ids)
+   */
+  private apexBindVariableValue = this.RULE('apexBindVariableValue', () => {
+    this.OR([{ ALT: () => this.SUBRULE(this.apexBindVariableNewInstantiation) }, { ALT: () => this.CONSUME(lexer.Identifier) }]);
+    this.MANY(() => {
+      this.OR1([
+        { ALT: () => this.SUBRULE(this.apexBindVariableFunctionCall) },
+        { ALT: () => this.SUBRULE(this.apexBindVariableIndexer) },
+        {
+          ALT: () => {
+            this.CONSUME(lexer.Decimal);
+            this.CONSUME1(lexer.Identifier);
+          },
+        },
+      ]);
+    });
+  });
+
+  private apexBindVariableNewInstantiation = this.RULE('apexBindVariableNewInstantiation', () => {
+    this.CONSUME(lexer.New);
     this.CONSUME(lexer.Identifier);
+    this.OPTION(() => {
+      this.SUBRULE(this.apexBindVariableGeneric);
+    });
+    this.SUBRULE(this.apexBindVariableFunctionCall);
+  });
+
+  private apexBindVariableGeneric = this.RULE('apexBindVariableGeneric', () => {
+    this.CONSUME(lexer.LessThan);
+    this.AT_LEAST_ONE_SEP({
+      SEP: lexer.Comma,
+      DEF: () => {
+        this.CONSUME(lexer.Identifier);
+        this.OPTION(() => {
+          this.SUBRULE(this.apexBindVariableGeneric);
+        });
+      },
+    });
+    this.CONSUME(lexer.GreaterThan);
+  });
+
+  private apexBindVariableFunctionCall = this.RULE('apexBindVariableFunctionCall', () => {
+    this.CONSUME(lexer.LParen);
+    this.MANY_SEP({
+      SEP: lexer.Comma,
+      DEF: () => {
+        this.SUBRULE(this.apexBindVariableArgument);
+      },
+    });
+    this.CONSUME(lexer.RParen);
+  });
+
+  private apexBindVariableIndexer = this.RULE('apexBindVariableIndexer', () => {
+    this.CONSUME(lexer.LSquareBracket);
+    this.SUBRULE(this.apexBindVariableArgument);
+    this.CONSUME(lexer.RSquareBracket);
+  });
+
+  private apexBindVariableArgument = this.RULE('apexBindVariableArgument', () => {
+    this.OR([
+      { ALT: () => this.SUBRULE(this.apexBindVariableValue) },
+      { ALT: () => this.CONSUME(lexer.StringIdentifier) },
+      { ALT: () => this.CONSUME(lexer.NumberIdentifier) },
+      { ALT: () => this.CONSUME(lexer.True) },
+      { ALT: () => this.CONSUME(lexer.False) },
+      { ALT: () => this.CONSUME(lexer.Null) },
+    ]);
   });
 
   private arrayExpression = this.RULE('arrayExpression', () => {
@@ -572,6 +651,7 @@ export class SoqlParser extends CstParser {
               { ALT: () => this.CONSUME(lexer.DateLiteral, { LABEL: 'value' }) },
               { ALT: () => this.SUBRULE(this.dateNLiteral, { LABEL: 'value' }) },
               { ALT: () => this.CONSUME(lexer.StringIdentifier, { LABEL: 'value' }) },
+              { GATE: () => this.allowApexBindVariables, ALT: () => this.SUBRULE(this.apexBindVariableExpression, { LABEL: 'value' }) },
             ]),
         );
       },
@@ -636,14 +716,177 @@ export class SoqlParser extends CstParser {
     ]);
   });
 
-  private getParenCount(parenCount?: ParenCount): ParenCount {
-    return parenCount || { right: 0, left: 0 };
-  }
+  // SOSL
+  public searchStatement = this.RULE('searchStatement', () => {
+    this.SUBRULE(this.findClause);
+    this.OPTION(() => {
+      this.SUBRULE(this.searchInClause);
+    });
+    this.OPTION1(() => {
+      this.SUBRULE(this.returningClause);
+    });
+    this.MANY(() => {
+      this.SUBRULE(this.searchWithClause);
+    });
+    this.OPTION2(() => {
+      this.SUBRULE(this.limitClause);
+    });
+    this.OPTION3(() => {
+      this.SUBRULE(this.updateTrackingViewstat);
+    });
+  });
+
+  private findClause = this.RULE('findClause', () => {
+    this.CONSUME(lexer.Find);
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.SearchTerm, { LABEL: 'searchTerm' }) },
+      // apex uses a string instead of braces, e.x. [FIND 'Acme*' IN ALL FIELDS]
+      { ALT: () => this.CONSUME(lexer.StringIdentifier, { LABEL: 'searchTerm' }) },
+    ]);
+  });
+
+  private searchInClause = this.RULE('searchInClause', () => {
+    this.CONSUME(lexer.In);
+    this.CONSUME(lexer.SearchGroupIdentifier, { LABEL: 'searchGroup' });
+    this.CONSUME(lexer.Fields);
+  });
+
+  private returningClause = this.RULE('returningClause', () => {
+    this.CONSUME(lexer.Returning);
+    this.AT_LEAST_ONE_SEP({
+      SEP: lexer.Comma,
+      DEF: () => {
+        this.SUBRULE(this.returningSpec);
+      },
+    });
+  });
+
+  private returningSpec = this.RULE('returningSpec', () => {
+    this.CONSUME(lexer.Identifier, { LABEL: 'sObject' });
+    this.OPTION(() => {
+      this.CONSUME(lexer.LParen);
+      this.SUBRULE(this.returningSpecFields);
+      this.OPTION1(() => {
+        this.SUBRULE(this.whereClause);
+      });
+      this.OPTION2(() => {
+        this.SUBRULE(this.usingListViewClause);
+      });
+      this.OPTION3(() => {
+        this.SUBRULE(this.orderByClause);
+      });
+      this.OPTION4(() => {
+        this.SUBRULE(this.limitClause);
+      });
+      this.OPTION5(() => {
+        this.SUBRULE(this.offsetClause);
+      });
+      this.CONSUME(lexer.RParen);
+    });
+  });
+
+  private returningSpecFields = this.RULE('returningSpecFields', () => {
+    this.AT_LEAST_ONE_SEP({
+      SEP: lexer.Comma,
+      DEF: () => {
+        this.OR([
+          // selectClauseFunctionIdentifier must be first because the alias could also be an identifier
+          { ALT: () => this.SUBRULE(this.selectClauseFunctionIdentifier, { LABEL: 'field' }) },
+          { ALT: () => this.SUBRULE(this.selectClauseIdentifier, { LABEL: 'field' }) },
+        ]);
+      },
+    });
+  });
+
+  private usingListViewClause = this.RULE('usingListViewClause', () => {
+    this.CONSUME(lexer.Using);
+    this.CONSUME(lexer.Listview);
+    this.CONSUME(lexer.Equal);
+    this.CONSUME(lexer.Identifier, { LABEL: 'listView' });
+  });
+
+  private searchWithClause = this.RULE('searchWithClause', () => {
+    this.CONSUME(lexer.With);
+    this.OR(
+      this.$_searchWithClause ||
+        (this.$_searchWithClause = [
+          { ALT: () => this.SUBRULE(this.withDataCategory) },
+          { ALT: () => this.SUBRULE(this.searchWithSnippet) },
+          { ALT: () => this.SUBRULE(this.searchWithNetwork) },
+          { ALT: () => this.SUBRULE(this.searchWithStringValue) },
+          { ALT: () => this.SUBRULE(this.searchWithSpellCorrection) },
+          { ALT: () => this.CONSUME(lexer.Highlight, { LABEL: 'withHighlight' }) },
+        ]),
+    );
+  });
+
+  private searchWithSnippet = this.RULE('searchWithSnippet', () => {
+    this.CONSUME(lexer.Snippet);
+    this.OPTION(() => {
+      this.CONSUME(lexer.LParen);
+      this.CONSUME(lexer.Identifier, { LABEL: 'param' });
+      this.CONSUME(lexer.Equal);
+      this.CONSUME(lexer.UnsignedInteger, { LABEL: 'value' });
+      this.CONSUME(lexer.RParen);
+    });
+  });
+
+  private searchWithNetwork = this.RULE('searchWithNetwork', () => {
+    this.CONSUME(lexer.Network);
+    this.OR([
+      {
+        ALT: () => {
+          this.CONSUME(lexer.Equal);
+          this.CONSUME(lexer.StringIdentifier, { LABEL: 'value' });
+        },
+      },
+      {
+        ALT: () => {
+          this.CONSUME(lexer.In);
+          this.CONSUME(lexer.LParen);
+          this.AT_LEAST_ONE_SEP({
+            SEP: lexer.Comma,
+            DEF: () => {
+              this.CONSUME1(lexer.StringIdentifier, { LABEL: 'value' });
+            },
+          });
+          this.CONSUME(lexer.RParen);
+        },
+      },
+    ]);
+  });
+
+  private searchWithStringValue = this.RULE('searchWithStringValue', () => {
+    this.OR([
+      { ALT: () => this.CONSUME(lexer.Division, { LABEL: 'param' }) },
+      { ALT: () => this.CONSUME(lexer.Metadata, { LABEL: 'param' }) },
+      { ALT: () => this.CONSUME(lexer.PricebookId, { LABEL: 'param' }) },
+    ]);
+    this.CONSUME(lexer.Equal);
+    this.CONSUME(lexer.StringIdentifier, { LABEL: 'value' });
+  });
+
+  private searchWithSpellCorrection = this.RULE('searchWithSpellCorrection', () => {
+    this.CONSUME(lexer.SpellCorrection);
+    this.CONSUME(lexer.Equal);
+    this.SUBRULE(this.booleanValue);
+  });
 }
 
 const parser = new SoqlParser();
-
-export function parse(soql: string, options?: ParseQueryConfig) {
+// Only initialized if parseWithDiagnostics() is called, as this is not required for normal use
+let recoveryParser: SoqlParser;
+let recoveryErrorRecorder: ExpectedTokensRecorder;
+
+export type ParserEntryRule = 'selectStatement' | 'searchStatement';
+
+/**
+ * Lex and parse query, throwing on the first lexing or parsing error
+ * @param soql
+ * @param [options]
+ * @param [entryRule] searchStatement is used to parse a SOSL search
+ */
+export function parse(soql: string, options?: ParseQueryConfig, entryRule: ParserEntryRule = 'selectStatement') {
   options = options || { allowApexBindVariables: false, logErrors: false };
 
   const lexResult = lexer.lex(soql);
@@ -653,7 +896,7 @@ export function parse(soql: string, options?: ParseQueryConfig) {
       console.log('Lexing Errors:');
       console.log(lexResult.errors);
     }
-    throw new LexingError(lexResult.errors[0]);
+    throw new LexingError(lexResult.errors[0], soql);
   }
 
   // setting a new input will RESET the parser instance's state.
@@ -662,15 +905,223 @@ export function parse(soql: string, options?: ParseQueryConfig) {
   // If true, allows WHERE foo = :bar
   parser.allowApexBindVariables = options.allowApexBindVariables || false;
 
-  const cst = parser.selectStatement();
+  const cst = parser[entryRule]();
 
   if (parser.errors.length > 0) {
     if (options.logErrors) {
       console.log('Parsing Errors:');
       console.log(parser.errors);
     }
-    throw new ParsingError(parser.errors[0]);
+    const [parsingError] = parser.errors;
+    const precedingTokens = getPrecedingTokens(lexResult.tokens, parsingError);
+    const { allowApexBindVariables } = parser;
+    throw new ParsingError(parsingError, lexResult.tokens, () =>
+      getExpectedTokens(parser, precedingTokens, allowApexBindVariables, entryRule),
+    );
   }
 
   return cst;
 }
+
+/**
+ * Lex and parse query with error recovery enabled
+ * A partial CST is returned along with every lexing and parsing error instead of throwing on the first error
+ * @param soql
+ * @param options
+ */
+export function parseWithDiagnostics(soql: string, options?: ParseQueryConfig): { cst: CstNode; diagnostics: SoqlDiagnostic[] } {
+  options = options || { allowApexBindVariables: false, logErrors: false };
+  recoveryErrorRecorder = recoveryErrorRecorder || new ExpectedTokensRecorder();
+  recoveryParser = recoveryParser || new SoqlParser(true, recoveryErrorRecorder);
+  recoveryErrorRecorder.reset(options.allowApexBindVariables || false);
+
+  const lexResult = lexer.lex(soql);
+
+  recoveryParser.input = lexResult.tokens;
+  recoveryParser.allowApexBindVariables = options.allowApexBindVariables || false;
+
+  const cst = recoveryParser.selectStatement();
+
+  if (options.logErrors && (lexResult.errors.length > 0 || recoveryParser.errors.length > 0)) {
+    console.log('Lexing Errors:');
+    console.log(lexResult.errors);
+    console.log('Parsing Errors:');
+    console.log(recoveryParser.errors);
+  }
+
+  const diagnostics = lexResult.errors
+    .map(error => getLexingDiagnostic(soql, error))
+    .concat(recoveryParser.errors.map(error => getParsingDiagnostic(recoveryParser, recoveryErrorRecorder, lexResult.tokens, error)));
+
+  return { cst, diagnostics };
+}
+
+function getLexingDiagnostic(soql: string, lexingError: ILexingError): SoqlDiagnostic {
+  return {
+    severity: 'error',
+    name: 'LexingError',
+    message: lexingError.message,
+    range: {
+      startOffset: lexingError.offset,
+      endOffset: lexingError.offset + lexingError.length - 1,
+      startLine: lexingError.line,
+      startColumn: lexingError.column,
+      endLine: lexingError.line,
+      endColumn: lexingError.column + lexingError.length - 1,
+    },
+    expectedTokens: [],
+    foundToken: {
+      image: soql.substr(lexingError.offset, lexingError.length),
+    },
+  };
+}
+
+function getParsingDiagnostic(
+  soqlParser: SoqlParser,
+  errorRecorder: ExpectedTokensRecorder,
+  tokens: IToken[],
+  parsingError: IRecognitionException,
+): SoqlDiagnostic {
+  const { token } = parsingError;
+  const expectedTokens = getExpectedTokens(soqlParser, getPrecedingTokens(tokens, parsingError), soqlParser.allowApexBindVariables);
+  return {
+    severity: 'error',
+    name: parsingError.name,
+    message: parsingError.message,
+    range: getTokenRange(token, tokens),
+    // content assist cannot continue past an earlier error, so the tokens that the parser expected when the error was raised are used
+    expectedTokens: expectedTokens.length > 0 ? expectedTokens : errorRecorder.getExpectedTokens(parsingError),
+    foundToken: getDiagnosticToken(token),
+  };
+}
+
+/**
+ * EOF tokens do not have a position, so the same position as SoqlSyntaxError is used, immediately following the last token
+ * @param token
+ * @param tokens all tokens from the query
+ */
+function getTokenRange(token: IToken, tokens: IToken[]): SourceLocation {
+  if (!isEofToken(token)) {
+    return {
+      startOffset: token.startOffset,
+      endOffset: token.endOffset,
+      startLine: token.startLine,
+      startColumn: token.startColumn,
+      endLine: token.endLine,
+      endColumn: token.endColumn,
+    };
+  }
+  const { line, column, offset } = getTokenPosition(token, tokens);
+  return { startOffset: offset, endOffset: offset, startLine: line, startColumn: column, endLine: line, endColumn: column };
+}
+
+/**
+ * Returns all tokens before the token that caused the error
+ * @param tokens
+ * @param parsingError
+ */
+function getPrecedingTokens(tokens: IToken[], parsingError: IRecognitionException): IToken[] {
+  const { token } = parsingError;
+  return isEofToken(token) ? tokens : tokens.filter(currToken => currToken.startOffset < token.startOffset);
+}
+
+/**
+ * Returns the names of all the token types that are valid after the preceding tokens
+ * Content assist does not consider gates, so apex bind variables are excluded unless they are allowed
+ * @param soqlParser
+ * @param precedingTokens
+ * @param allowApexBindVariables value of the parser flag when the query was parsed, the parser may have been reused since
+ * @param [entryRule]
+ */
+function getExpectedTokens(
+  soqlParser: SoqlParser,
+  precedingTokens: IToken[],
+  allowApexBindVariables: boolean,
+  entryRule: ParserEntryRule = 'selectStatement',
+): string[] {
+  return Array.from(
+    new Set(
+      soqlParser
+        .computeContentAssist(entryRule, precedingTokens)
+        .filter(path => allowApexBindVariables || !path.ruleStack.includes('apexBindVariableExpression'))
+        .map(path => path.nextTokenType.name),
+    ),
+  );
+}
+
+/**
+ * Error message provider for the recovery parser that records the token types that were expected when each error was raised
+ * Messages are unchanged from the default provider
+ */
+class ExpectedTokensRecorder implements IParserErrorMessageProvider {
+  private allowApexBindVariables = false;
+  private errors: { token: IToken; message: string; expectedTokens: string[] }[] = [];
+
+  reset(allowApexBindVariables: boolean) {
+    this.allowApexBindVariables = allowApexBindVariables;
+    this.errors = [];
+  }
+
+  /**
+   * Returns the names of the token types that were expected when the error was raised
+   * @param parsingError
+   */
+  getExpectedTokens(parsingError: IRecognitionException): string[] {
+    const error = this.errors.find(item => item.token === parsingError.token && item.message === parsingError.message);
+    return error ? error.expectedTokens : [];
+  }
+
+  // chevrotain only copies own properties from the provider, so the builders cannot be prototype methods
+  buildMismatchTokenMessage = (options: { expected: TokenType; actual: IToken; previous: IToken; ruleName: string }): string => {
+    return this.record(options.actual, defaultParserErrorProvider.buildMismatchTokenMessage(options), [options.expected]);
+  };
+
+  buildNotAllInputParsedMessage = (options: { firstRedundant: IToken; ruleName: string }): string => {
+    return this.record(options.firstRedundant, defaultParserErrorProvider.buildNotAllInputParsedMessage(options), []);
+  };
+
+  buildNoViableAltMessage = (options: {
+    expectedPathsPerAlt: TokenType[][][];
+    actual: IToken[];
+    previous: IToken;
+    customUserDescription: string;
+    ruleName: string;
+  }): string => {
+    const expectedPaths = options.expectedPathsPerAlt.reduce((output: TokenType[][], paths) => output.concat(paths), []);
+    return this.record(
+      options.actual[0],
+      defaultParserErrorProvider.buildNoViableAltMessage(options),
+      this.getFirstTokenTypes(expectedPaths),
+    );
+  };
+
+  buildEarlyExitMessage = (options: {
+    expectedIterationPaths: TokenType[][];
+    actual: IToken[];
+    previous: IToken;
+    customUserDescription: string;
+    ruleName: string;
+  }): string => {
+    return this.record(
+      options.actual[0],
+      defaultParserErrorProvider.buildEarlyExitMessage(options),
+      this.getFirstTokenTypes(options.expectedIterationPaths),
+    );
+  };
+
+  /**
+   * Lookahead paths do not consider gates, and a colon can only start an alternative if it is an apex bind variable
+   */
+  private getFirstTokenTypes(paths: TokenType[][]): TokenType[] {
+    return paths
+      .filter(path => path.length > 0)
+      .map(path => path[0])
+      .filter(tokenType => this.allowApexBindVariables || tokenType !== lexer.Colon);
+  }
+
+  private record(token: IToken, message: string, expectedTokenTypes: TokenType[]): string {
+    const expectedTokens = Array.from(new Set(expectedTokenTypes.map(tokenType => tokenType.name)));
+    this.errors.push({ token, message, expectedTokens });
+    return message;
+  }
+}
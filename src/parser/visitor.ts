@@ -1,38 +1,57 @@
 import {
+  ApexBindVariable,
   Condition,
   ValueQuery,
   DateLiteral,
   DateNLiteral,
   FieldFunctionExpression,
   FieldRelationship,
+  FieldFieldsFunction,
+  FieldsFunctionScope,
   FieldSubquery,
   FieldType,
   FieldTypeOf,
   FieldTypeOfCondition,
   FunctionExp,
   GroupByClause,
+  GroupByFieldClause,
+  GroupByFnClause,
+  LegacyGroupByClause,
   HavingClause,
   LiteralType,
-  LogicalPrefix,
+  LogicalOperator,
   NullsOrder,
   OrderByClause,
   OrderByCriterion,
   Query,
   Subquery,
-  WhereClause,
   WithDataCategoryCondition,
   Field,
+  SourceLocation,
+  ClauseLocations,
+  QueryWithDiagnostics,
+  SoqlDiagnostic,
+  AccessLevel,
+  WithRecordVisibilityClause,
+  Search,
+  SearchGroup,
+  SearchReturningSpec,
+  WithSnippetClause,
+  ForClause,
+  UpdateClause,
 } from '../api/api-models';
 import {
   ApexBindVariableExpressionContext,
   ArrayExpressionWithType,
   AtomicExpressionContext,
   BooleanContext,
-  ConditionExpressionContext,
+  ConditionGroupAndContext,
+  ConditionGroupOrContext,
+  ConditionGroupUnaryContext,
+  ConditionTreeNode,
   DateNLiteralContext,
   ExpressionContext,
   ExpressionOperatorContext,
-  ExpressionTree,
   FieldFunctionContext,
   FromClauseContext,
   FunctionExpressionContext,
@@ -45,6 +64,7 @@ import {
   OrderByFunctionExpressionContext,
   SelectClauseContext,
   SelectClauseFunctionIdentifierContext,
+  SelectClauseFieldsIdentifierContext,
   SelectClauseSubqueryIdentifierContext,
   SelectClauseTypeOfContext,
   SelectClauseTypeOfElseContext,
@@ -52,20 +72,34 @@ import {
   SelectStatementContext,
   usingScopeClauseContext,
   ValueContext,
+  ValueWithApexBindVariableContext,
   WhereClauseContext,
   WhereClauseSubqueryContext,
   WithClauseContext,
+  WithRecordVisibilityContext,
+  WithRecordVisibilityParamContext,
   WithDateCategoryContext,
   LocationFunctionContext,
   GeoLocationFunctionContext,
   OrderByLocationExpressionContext,
-  GroupByFieldListContext,
   SelectClauseIdentifierContext,
+  SearchStatementContext,
+  FindClauseContext,
+  SearchInClauseContext,
+  ReturningClauseContext,
+  ReturningSpecContext,
+  ReturningSpecFieldsContext,
+  UsingListViewClauseContext,
+  SearchWithClauseContext,
+  SearchWithSnippetContext,
+  SearchWithStringValueContext,
+  SearchWithSpellCorrectionContext,
 } from '../models';
-import { isSubqueryFromFlag, isToken } from '../utils';
-import { parse, ParseQueryConfig, SoqlParser } from './parser';
+import { getConditionGroupFromConditionTree, getWhereClauseFromConditionTree } from '../api/condition-groups';
+import { isGroupByFn, isGroupByField, isSubqueryFromFlag, isToken } from '../utils';
+import { parse, ParseQueryConfig, parseWithDiagnostics, SoqlParser } from './parser';
 import { isString, isNull } from 'util';
-import { IToken } from 'chevrotain';
+import { CstChildrenDictionary, CstNode, IToken } from 'chevrotain';
 
 const parser = new SoqlParser();
 
@@ -122,12 +156,47 @@ const DATE_N_LITERALS: DateNLiteral[] = [
   'N_FISCAL_YEARS_AGO',
 ];
 
+const RECORD_VISIBILITY_PARAMS: (keyof WithRecordVisibilityClause)[] = ['maxDescriptorPerRecord', 'supportsDomains', 'supportsDelegates'];
+const SEARCH_WITH_STRING_VALUE_PARAMS: { [tokenName: string]: keyof Search } = {
+  DIVISION: 'withDivision',
+  METADATA: 'withMetadata',
+  PRICEBOOKID: 'withPricebookId',
+};
+
 class SOQLVisitor extends BaseSoqlVisitor {
+  // Set to true to populate the source location of each node on the parsed query
+  public includeLocations = false;
+  // Set to true when visiting a partial CST from a recovered parse, any recovered node that is missing children will be omitted
+  public recoverFromErrors = false;
+  // Populated with a diagnostic for each node that was omitted while visiting a partial CST
+  public omittedNodeDiagnostics: SoqlDiagnostic[] = [];
+  // Set to true to return the group by clause in the shape used prior to supporting a mix of fields and functions
+  public legacyGroupBy = false;
+  // Set to true to populate whereGroup and havingGroup in addition to where and having
+  public includeConditionGroups = false;
+
   constructor() {
     super();
     this.validateVisitor();
   }
 
+  visit(cstNode: CstNode | CstNode[], options?: any) {
+    if (!this.recoverFromErrors) {
+      return super.visit(cstNode, options);
+    }
+    const node = Array.isArray(cstNode) ? cstNode[0] : cstNode;
+    try {
+      return super.visit(cstNode, options);
+    } catch (ex) {
+      // Accessing children that were not consumed by the parser throws a TypeError, any other failure is a bug in the visitor
+      if (!(ex instanceof TypeError) || !node || !node.recoveredNode) {
+        throw ex;
+      }
+      this.omittedNodeDiagnostics.push(getOmittedNodeDiagnostic(node));
+      return undefined;
+    }
+  }
+
   /**
    * This is the only public entry point for the parser
    * @param ctx
@@ -140,8 +209,10 @@ class SOQLVisitor extends BaseSoqlVisitor {
     output.fields = this.visit(ctx.selectClause);
 
     if (isSubqueryFromFlag(output, isSubquery)) {
-      const { sObject, alias, sObjectPrefix } = this.visit(ctx.fromClause);
-      output.relationshipName = sObject;
+      const { sObject, alias, sObjectPrefix } = this.visit(ctx.fromClause) || {};
+      if (sObject) {
+        output.relationshipName = sObject;
+      }
       if (alias) {
         output.sObjectAlias = alias;
       }
@@ -149,14 +220,16 @@ class SOQLVisitor extends BaseSoqlVisitor {
         output.sObjectPrefix = sObjectPrefix;
       }
     } else {
-      const { sObject, alias } = this.visit(ctx.fromClause);
-      (output as Query).sObject = sObject;
+      const { sObject, alias } = this.visit(ctx.fromClause) || {};
+      if (sObject) {
+        (output as Query).sObject = sObject;
+      }
       if (alias) {
         output.sObjectAlias = alias;
       }
     }
 
-    if (!!output.sObjectAlias) {
+    if (!!output.sObjectAlias && output.fields) {
       output.fields.forEach((field: any) => {
         if (field.relationships && field.relationships[0] === output.sObjectAlias) {
           field.relationships = field.relationships.slice(1);
@@ -169,80 +242,119 @@ class SOQLVisitor extends BaseSoqlVisitor {
       });
     }
 
-    if (ctx.usingScopeClause) {
-      output.usingScope = this.visit(ctx.usingScopeClause);
+    // clauses that failed to be visited during error recovery are omitted
+    const usingScope: string | undefined = this.visit(ctx.usingScopeClause);
+    if (usingScope) {
+      output.usingScope = usingScope;
     }
 
     if (ctx.whereClause) {
-      output.where = this.visit(ctx.whereClause);
+      const where: ConditionTreeNode | undefined = this.visit(ctx.whereClause);
+      if (where) {
+        output.where = getWhereClauseFromConditionTree(where);
+        if (this.includeConditionGroups) {
+          output.whereGroup = getConditionGroupFromConditionTree(where);
+        }
+      }
     }
 
     if (ctx.withClause) {
       ctx.withClause.forEach((item: any) => {
-        const { withSecurityEnforced, withDataCategory } = this.visit(item);
+        const { withSecurityEnforced, withAccessLevel, withRecordVisibility, withDataCategory } = this.visit(item);
         if (withSecurityEnforced) {
           output.withSecurityEnforced = withSecurityEnforced;
         }
+        if (withAccessLevel) {
+          output.withAccessLevel = withAccessLevel;
+        }
+        if (withRecordVisibility) {
+          output.withRecordVisibility = withRecordVisibility;
+        }
         if (withDataCategory) {
           output.withDataCategory = withDataCategory;
         }
       });
     }
 
-    if (ctx.groupByClause) {
-      output.groupBy = this.visit(ctx.groupByClause);
+    const groupBy: GroupByClause[] | undefined = this.visit(ctx.groupByClause);
+    if (groupBy) {
+      const { havingClause } = ctx.groupByClause[0].children;
+      const havingTree: ConditionTreeNode | undefined = havingClause ? this.visit(havingClause as CstNode[]) : undefined;
+      const having: HavingClause | undefined = havingTree ? getWhereClauseFromConditionTree(havingTree) : undefined;
+      if (havingTree && this.includeConditionGroups) {
+        output.havingGroup = getConditionGroupFromConditionTree(havingTree);
+      }
+      if (this.legacyGroupBy) {
+        output.groupBy = this.$_getLegacyGroupByClause(ctx.groupByClause[0], groupBy, having);
+      } else {
+        output.groupBy = groupBy;
+        if (having) {
+          output.having = having;
+        }
+      }
     }
 
-    if (ctx.orderByClause) {
-      output.orderBy = this.visit(ctx.orderByClause);
+    const orderBy: OrderByClause | OrderByClause[] | undefined = this.visit(ctx.orderByClause);
+    if (orderBy !== undefined) {
+      output.orderBy = orderBy;
     }
 
-    if (ctx.limitClause) {
-      output.limit = Number(this.visit(ctx.limitClause));
+    const limit: number | undefined = this.visit(ctx.limitClause);
+    if (limit !== undefined) {
+      output.limit = limit;
     }
 
-    if (ctx.offsetClause) {
-      output.offset = Number(this.visit(ctx.offsetClause));
+    const offset: number | undefined = this.visit(ctx.offsetClause);
+    if (offset !== undefined) {
+      output.offset = offset;
     }
 
-    if (ctx.forViewOrReference) {
-      output.for = this.visit(ctx.forViewOrReference);
+    const forClause: ForClause | undefined = this.visit(ctx.forViewOrReference);
+    if (forClause !== undefined) {
+      output.for = forClause;
     }
 
-    if (ctx.updateTrackingViewstat) {
-      output.update = this.visit(ctx.updateTrackingViewstat);
+    const update: UpdateClause | undefined = this.visit(ctx.updateTrackingViewstat);
+    if (update !== undefined) {
+      output.update = update;
+    }
+
+    if (this.includeLocations) {
+      this.$_setClauseLocations(ctx, output);
     }
 
     return output as Query | Subquery;
   }
 
-  selectClause(ctx: SelectClauseContext): string[] {
+  selectClause(ctx: SelectClauseContext): FieldType[] {
     if (ctx.field) {
-      return ctx.field.map(item => {
-        if (isToken(item)) {
-          const field: string = item.image;
-          let output: FieldType;
-          if (!field.includes('.')) {
-            output = {
-              type: 'Field',
-              field: field,
-              // objectPrefix: undefined, // TODO: we cannot add this until the very und when we see if the sobject is aliased
-            };
+      return ctx.field
+        .map(item => {
+          if (isToken(item)) {
+            const field: string = item.image;
+            let output: FieldType;
+            if (!field.includes('.')) {
+              output = {
+                type: 'Field',
+                field: field,
+                // objectPrefix: undefined, // TODO: we cannot add this until the very und when we see if the sobject is aliased
+              };
+            } else {
+              const splitFields = field.split('.');
+              output = {
+                type: 'FieldRelationship',
+                field: splitFields[splitFields.length - 1],
+                relationships: splitFields.slice(0, splitFields.length - 1),
+                // objectPrefix: undefined, // TODO: we cannot add this until the very und when we see if the sobject is aliased
+                rawValue: field,
+              };
+            }
+            return this.$_setLocation(output, item);
           } else {
-            const splitFields = field.split('.');
-            output = {
-              type: 'FieldRelationship',
-              field: splitFields[splitFields.length - 1],
-              relationships: splitFields.slice(0, splitFields.length - 1),
-              // objectPrefix: undefined, // TODO: we cannot add this until the very und when we see if the sobject is aliased
-              rawValue: field,
-            };
+            return this.$_setLocation(this.visit(item), item);
           }
-          return output;
-        } else {
-          return this.visit(item);
-        }
-      });
+        })
+        .filter(field => !!field); // fields that failed to be visited during error recovery are omitted
     }
     return [];
   }
@@ -257,6 +369,15 @@ class SOQLVisitor extends BaseSoqlVisitor {
     return output;
   }
 
+  selectClauseFieldsIdentifier(ctx: SelectClauseFieldsIdentifierContext): FieldFieldsFunction {
+    const scope = ctx.params[0].image.toUpperCase() as FieldsFunctionScope;
+    return {
+      type: 'FieldFieldsFunction',
+      scope,
+      rawValue: `${ctx.fn[0].image}(${ctx.params[0].image})`,
+    };
+  }
+
   selectClauseSubqueryIdentifier(ctx: SelectClauseSubqueryIdentifierContext): FieldSubquery {
     return {
       type: 'FieldSubquery',
@@ -345,37 +466,41 @@ class SOQLVisitor extends BaseSoqlVisitor {
     return this.visit(ctx.selectStatement, { isSubquery: false });
   }
 
-  whereClause(ctx: WhereClauseContext): WhereClause {
-    const where = ctx.conditionExpression.reduce(
-      (expressions: ExpressionTree<WhereClause>, currExpression: any) => {
-        if (!expressions.expressionTree) {
-          expressions.expressionTree = this.visit(currExpression);
-          expressions.prevExpression = expressions.expressionTree;
-        } else {
-          expressions.prevExpression.right = this.visit(currExpression, { prevExpression: expressions.prevExpression });
-          expressions.prevExpression = expressions.prevExpression.right;
-        }
-        return expressions;
-      },
-      { prevExpression: undefined, expressionTree: undefined },
-    );
-    return where.expressionTree;
+  whereClause(ctx: WhereClauseContext): ConditionTreeNode | undefined {
+    return this.visit(ctx.conditionGroupOr);
   }
 
-  conditionExpression(ctx: ConditionExpressionContext, options?: { prevExpression?: any }) {
-    options = options || {};
-    if (options.prevExpression && ctx.logicalOperator) {
-      options.prevExpression.operator = ctx.logicalOperator[0].tokenType.name;
+  conditionGroupOr(ctx: ConditionGroupOrContext): ConditionTreeNode | undefined {
+    return this.$_getLogicalConditionTree('OR', ctx.conditionGroupAnd);
+  }
+
+  conditionGroupAnd(ctx: ConditionGroupAndContext): ConditionTreeNode | undefined {
+    return this.$_getLogicalConditionTree('AND', ctx.conditionGroupUnary);
+  }
+
+  conditionGroupUnary(ctx: ConditionGroupUnaryContext): ConditionTreeNode | undefined {
+    const negated = !!ctx.logicalPrefix;
+    if (ctx.conditionGroupOr) {
+      const child: ConditionTreeNode | undefined = this.visit(ctx.conditionGroupOr);
+      return child && { type: 'paren', negated, child };
     }
-    return {
-      left: this.visit(ctx.expression),
-    };
+    const condition: Condition & ValueQuery = this.visit(ctx.expression, { logicalPrefix: ctx.logicalPrefix && ctx.logicalPrefix[0] });
+    return condition && { type: 'condition', negated, condition };
   }
+
   withClause(ctx: WithClauseContext) {
     if (ctx.withSecurityEnforced) {
       return {
         withSecurityEnforced: true,
       };
+    } else if (ctx.withAccessLevel) {
+      return {
+        withAccessLevel: ctx.withAccessLevel[0].image.toUpperCase() as AccessLevel,
+      };
+    } else if (ctx.withRecordVisibility) {
+      return {
+        withRecordVisibility: this.visit(ctx.withRecordVisibility),
+      };
     } else {
       return {
         withDataCategory: {
@@ -384,6 +509,26 @@ class SOQLVisitor extends BaseSoqlVisitor {
       };
     }
   }
+
+  withRecordVisibility(ctx: WithRecordVisibilityContext): WithRecordVisibilityClause {
+    return ctx.withRecordVisibilityParam.reduce((output: WithRecordVisibilityClause, item) => {
+      const { param, value }: { param: keyof WithRecordVisibilityClause; value: number | boolean } = this.visit(item);
+      return { ...output, [param]: value };
+    }, {});
+  }
+
+  withRecordVisibilityParam(ctx: WithRecordVisibilityParamContext): { param: keyof WithRecordVisibilityClause; value: number | boolean } {
+    const param = ctx.param[0].image;
+    const value = ctx.value[0];
+    return {
+      // parameter names are case-insensitive, so known parameters are normalized to match the model
+      // unknown parameters are kept as written so they are not lost when the query is composed
+      param:
+        RECORD_VISIBILITY_PARAMS.find(item => item.toLowerCase() === param.toLowerCase()) || (param as keyof WithRecordVisibilityClause),
+      value: value.tokenType.name === 'UNSIGNED_INTEGER' ? Number(value.image) : value.image.toUpperCase() === 'TRUE',
+    };
+  }
+
   withDataCategory(ctx: WithDateCategoryContext): WithDataCategoryCondition[] {
     return ctx.withDataCategoryArr.map(item => this.visit(item));
   }
@@ -396,55 +541,24 @@ class SOQLVisitor extends BaseSoqlVisitor {
     };
   }
 
-  groupByClause(ctx: GroupByClauseContext): GroupByClause {
-    let field = ctx.groupByFieldList ? ctx.groupByFieldList.map((item: any) => this.visit(item)) : undefined;
-    if (field && field.length === 1) {
-      field = field[0];
-    }
-    const output: GroupByClause = {};
-    if (field) {
-      output.field = field;
-    }
-    if (ctx.fn) {
-      output.fn = this.visit(ctx.fn, { includeType: false });
-    }
-    if (ctx.havingClause) {
-      output.having = this.visit(ctx.havingClause);
-    }
-    return output;
+  groupByClause(ctx: GroupByClauseContext): GroupByClause[] {
+    return ctx.groupBy.map(groupBy => {
+      if (isToken(groupBy)) {
+        return this.$_setLocation<GroupByFieldClause>({ field: groupBy.image }, groupBy);
+      }
+      return this.$_setLocation<GroupByFnClause>({ fn: this.$_setLocation(this.visit(groupBy, { includeType: false }), groupBy) }, groupBy);
+    });
   }
 
-  groupByFieldList(ctx: GroupByFieldListContext): string | string[] {
-    if (ctx.field.length > 1) {
-      return ctx.field.map((item: any) => item.image);
-    } else {
-      return ctx.field[0].image;
-    }
-  }
-
-  havingClause(ctx: HavingClauseContext): HavingClause {
-    // expressionWithAggregateFunction
-    const having = ctx.conditionExpression.reduce(
-      (expressions: ExpressionTree<HavingClause>, currExpression: any) => {
-        if (!expressions.expressionTree) {
-          expressions.expressionTree = this.visit(currExpression);
-          expressions.prevExpression = expressions.expressionTree;
-        } else {
-          expressions.prevExpression.right = this.visit(currExpression, { prevExpression: expressions.prevExpression });
-          expressions.prevExpression = expressions.prevExpression.right;
-        }
-        return expressions;
-      },
-      { prevExpression: undefined, expressionTree: undefined },
-    );
-    return having.expressionTree;
+  havingClause(ctx: HavingClauseContext): ConditionTreeNode | undefined {
+    return this.visit(ctx.conditionGroupOr);
   }
 
   orderByClause(ctx: OrderByClauseContext): OrderByClause | OrderByClause[] {
     if (ctx.orderByExpressionOrFn.length === 1) {
-      return this.visit(ctx.orderByExpressionOrFn);
+      return this.$_setLocation(this.visit(ctx.orderByExpressionOrFn), ctx.orderByExpressionOrFn[0]);
     }
-    return ctx.orderByExpressionOrFn.map(item => this.visit(item));
+    return ctx.orderByExpressionOrFn.map(item => this.$_setLocation(this.visit(item), item));
   }
 
   orderByExpression(ctx: OrderByExpressionContext): OrderByClause {
@@ -462,7 +576,7 @@ class SOQLVisitor extends BaseSoqlVisitor {
 
   orderByFunctionExpression(ctx: OrderByFunctionExpressionContext): OrderByClause {
     const orderByClause: OrderByClause = {
-      fn: this.$_getFieldFunction(ctx, false, false),
+      fn: this.$_setLocation(this.$_getFieldFunction(ctx, false, false), ctx.fn[0], ctx.functionExpression[0]),
     };
     if (ctx.order && ctx.order[0]) {
       orderByClause.order = ctx.order[0].tokenType.name as OrderByCriterion;
@@ -475,7 +589,7 @@ class SOQLVisitor extends BaseSoqlVisitor {
 
   orderByLocationExpression(ctx: OrderByLocationExpressionContext): OrderByClause {
     const orderByClause: OrderByClause = {
-      fn: this.visit(ctx.locationFunction, { includeType: false }),
+      fn: this.$_setLocation(this.visit(ctx.locationFunction, { includeType: false }), ctx.locationFunction[0]),
     };
     if (ctx.order && ctx.order[0]) {
       orderByClause.order = ctx.order[0].tokenType.name as OrderByCriterion;
@@ -486,12 +600,12 @@ class SOQLVisitor extends BaseSoqlVisitor {
     return orderByClause;
   }
 
-  limitClause(ctx: ValueContext) {
-    return ctx.value[0].image;
+  limitClause(ctx: ValueWithApexBindVariableContext): number | ApexBindVariable {
+    return this.$_getNumberOrApexBindVariable(ctx.value[0]);
   }
 
-  offsetClause(ctx: ValueContext) {
-    return ctx.value[0].image;
+  offsetClause(ctx: ValueWithApexBindVariableContext): number | ApexBindVariable {
+    return this.$_getNumberOrApexBindVariable(ctx.value[0]);
   }
 
   /**
@@ -548,7 +662,9 @@ class SOQLVisitor extends BaseSoqlVisitor {
         functionName: 'DISTANCE',
         parameters: [
           ctx.location1[0].image,
-          isToken(ctx.location2) ? ctx.location2[0].image : this.visit(ctx.location2, options),
+          isToken(ctx.location2[0]) || ctx.location2[0].name === 'apexBindVariableExpression'
+            ? this.$_getTokenImageOrApexBindVariable(ctx.location2[0])
+            : this.visit(ctx.location2 as CstNode[], options),
           ctx.unit[0].image,
         ],
       },
@@ -569,12 +685,14 @@ class SOQLVisitor extends BaseSoqlVisitor {
     if (options.includeType) {
       output.type = 'FieldFunctionExpression';
     }
+    const latitude = this.$_getTokenImageOrApexBindVariable(ctx.latitude[0]);
+    const longitude = this.$_getTokenImageOrApexBindVariable(ctx.longitude[0]);
     output = {
       ...output,
       ...{
         functionName: 'GEOLOCATION',
-        parameters: [ctx.latitude[0].image, ctx.longitude[0].image],
-        rawValue: `GEOLOCATION(${ctx.latitude[0].image}, ${ctx.longitude[0].image})`,
+        parameters: [latitude, longitude],
+        rawValue: `GEOLOCATION(${latitude}, ${longitude})`,
       },
     };
     return output;
@@ -586,26 +704,22 @@ class SOQLVisitor extends BaseSoqlVisitor {
         if (item.image) {
           return item.image;
         }
-        return this.visit(item, options);
+        return this.$_setLocation(this.visit(item, options), item);
       });
     }
     return [];
   }
 
-  expression(ctx: ExpressionContext): Condition & ValueQuery {
+  expression(ctx: ExpressionContext, options: { logicalPrefix?: IToken } = {}): Condition & ValueQuery {
     // const { value, literalType, dateLiteralVariable } = this.visit(ctx.rhs, { returnLiteralType: true });
     const { value, literalType, dateLiteralVariable, operator } = this.visit(ctx.operator, { returnLiteralType: true });
 
     const output: Partial<Condition & ValueQuery> = {};
 
-    if (ctx.logicalPrefix) {
-      output.logicalPrefix = ctx.logicalPrefix[0].image as LogicalPrefix;
-    }
-
     if (isToken(ctx.lhs)) {
       output.field = ctx.lhs[0].image;
     } else {
-      output.fn = this.visit(ctx.lhs, { includeType: false });
+      output.fn = this.$_setLocation(this.visit(ctx.lhs, { includeType: false }), ctx.lhs[0]);
     }
 
     // output.operator = this.visit(ctx.relationalOperator) || this.visit(ctx.setOperator);
@@ -622,12 +736,8 @@ class SOQLVisitor extends BaseSoqlVisitor {
       output.dateLiteralVariable = dateLiteralVariable;
     }
 
-    if (ctx.L_PAREN) {
-      output.openParen = ctx.L_PAREN.length;
-    }
-    if (ctx.R_PAREN) {
-      output.closeParen = ctx.R_PAREN.length;
-    }
+    // the location of a condition prefixed with NOT includes the prefix
+    this.$_setLocation(output, options.logicalPrefix || ctx.lhs[0], ctx.operator[0]);
 
     return output as Condition;
   }
@@ -731,16 +841,45 @@ class SOQLVisitor extends BaseSoqlVisitor {
   }
 
   apexBindVariableExpression(ctx: ApexBindVariableExpressionContext): string {
-    return ctx.Identifier[0].image;
+    return this.visit(ctx.apexBindVariableValue);
+  }
+
+  apexBindVariableValue(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
+  }
+
+  apexBindVariableNewInstantiation(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
   }
 
-  arrayExpression(ctx: ValueContext): ArrayExpressionWithType[] {
+  apexBindVariableGeneric(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
+  }
+
+  apexBindVariableFunctionCall(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
+  }
+
+  apexBindVariableIndexer(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
+  }
+
+  apexBindVariableArgument(ctx: CstChildrenDictionary): string {
+    return this.$_getText(ctx);
+  }
+
+  arrayExpression(ctx: ValueWithApexBindVariableContext): ArrayExpressionWithType[] {
     return ctx.value.map((item: any) => {
       if (isToken(item)) {
         return {
           type: (item as IToken).tokenType.name,
           value: (item as IToken).image,
         };
+      } else if (item.name === 'apexBindVariableExpression') {
+        return {
+          type: 'APEX_BIND_VARIABLE',
+          value: this.visit(item),
+        };
       } else {
         return this.visit(item, { includeType: true });
       }
@@ -778,6 +917,341 @@ class SOQLVisitor extends BaseSoqlVisitor {
     return ctx.value[0].tokenType.name;
   }
 
+  /**
+   * Entry point for parsing a SOSL search
+   * @param ctx
+   */
+  searchStatement(ctx: SearchStatementContext): Search {
+    const output: Partial<Search> = {
+      searchTerm: this.visit(ctx.findClause),
+    };
+
+    if (ctx.searchInClause) {
+      output.searchGroup = this.visit(ctx.searchInClause);
+    }
+
+    if (ctx.returningClause) {
+      output.returning = this.visit(ctx.returningClause);
+    }
+
+    if (ctx.searchWithClause) {
+      ctx.searchWithClause.forEach(item => {
+        Object.assign(output, this.visit(item));
+      });
+    }
+
+    if (ctx.limitClause) {
+      output.limit = this.visit(ctx.limitClause);
+    }
+
+    if (ctx.updateTrackingViewstat) {
+      output.update = this.visit(ctx.updateTrackingViewstat);
+    }
+
+    return output as Search;
+  }
+
+  findClause(ctx: FindClauseContext): string {
+    return ctx.searchTerm[0].image;
+  }
+
+  searchInClause(ctx: SearchInClauseContext): SearchGroup {
+    return ctx.searchGroup[0].tokenType.name as SearchGroup;
+  }
+
+  returningClause(ctx: ReturningClauseContext): SearchReturningSpec[] {
+    return ctx.returningSpec.map(item => this.visit(item)).filter(item => !!item);
+  }
+
+  returningSpec(ctx: ReturningSpecContext): SearchReturningSpec {
+    const output: SearchReturningSpec = {
+      sObject: ctx.sObject[0].image,
+    };
+
+    if (ctx.returningSpecFields) {
+      output.fields = this.visit(ctx.returningSpecFields);
+    }
+
+    if (ctx.whereClause) {
+      const where: ConditionTreeNode | undefined = this.visit(ctx.whereClause);
+      if (where) {
+        output.where = getWhereClauseFromConditionTree(where);
+        if (this.includeConditionGroups) {
+          output.whereGroup = getConditionGroupFromConditionTree(where);
+        }
+      }
+    }
+
+    if (ctx.usingListViewClause) {
+      output.usingListView = this.visit(ctx.usingListViewClause);
+    }
+
+    if (ctx.orderByClause) {
+      output.orderBy = this.visit(ctx.orderByClause);
+    }
+
+    if (ctx.limitClause) {
+      output.limit = this.visit(ctx.limitClause);
+    }
+
+    if (ctx.offsetClause) {
+      output.offset = this.visit(ctx.offsetClause);
+    }
+
+    return output;
+  }
+
+  returningSpecFields(ctx: ReturningSpecFieldsContext): FieldType[] {
+    return this.selectClause(ctx);
+  }
+
+  usingListViewClause(ctx: UsingListViewClauseContext): string {
+    return ctx.listView[0].image;
+  }
+
+  searchWithClause(ctx: SearchWithClauseContext): Partial<Search> {
+    if (ctx.withDataCategory) {
+      return {
+        withDataCategory: {
+          conditions: this.visit(ctx.withDataCategory),
+        },
+      };
+    } else if (ctx.searchWithSnippet) {
+      return {
+        withSnippet: this.visit(ctx.searchWithSnippet),
+      };
+    } else if (ctx.searchWithNetwork) {
+      return {
+        withNetwork: this.visit(ctx.searchWithNetwork),
+      };
+    } else if (ctx.searchWithStringValue) {
+      return this.visit(ctx.searchWithStringValue);
+    } else if (ctx.searchWithSpellCorrection) {
+      return {
+        withSpellCorrection: this.visit(ctx.searchWithSpellCorrection),
+      };
+    } else {
+      return {
+        withHighlight: true,
+      };
+    }
+  }
+
+  searchWithSnippet(ctx: SearchWithSnippetContext): WithSnippetClause {
+    return ctx.value ? { targetLength: Number(ctx.value[0].image) } : {};
+  }
+
+  searchWithNetwork(ctx: ValueContext): string[] {
+    return ctx.value.map(item => this.$_getStringValue(item));
+  }
+
+  searchWithStringValue(ctx: SearchWithStringValueContext): Partial<Search> {
+    return {
+      [SEARCH_WITH_STRING_VALUE_PARAMS[ctx.param[0].tokenType.name]]: this.$_getStringValue(ctx.value[0]),
+    };
+  }
+
+  searchWithSpellCorrection(ctx: SearchWithSpellCorrectionContext): boolean {
+    return this.visit(ctx.booleanValue) === 'TRUE';
+  }
+
+  /**
+   * @HELPER
+   * Sets the location spanning from the start of the first node to the end of the last node
+   * if includeLocations is enabled
+   *
+   * @param output node that the location is added to
+   * @param start first CST node or token
+   * @param [end] last CST node or token, defaults to start
+   */
+  private $_setLocation<T extends { loc?: SourceLocation }>(output: T, start: CstNode | IToken, end: CstNode | IToken = start): T {
+    if (this.includeLocations && output && start && end) {
+      output.loc = this.$_getLocation(start, end);
+    }
+    return output;
+  }
+
+  /**
+   * @HELPER
+   * Gets the location spanning from the start of the first node to the end of the last node
+   *
+   * @param start first CST node or token
+   * @param [end] last CST node or token, defaults to start
+   */
+  private $_getLocation(start: CstNode | IToken, end: CstNode | IToken = start): SourceLocation | undefined {
+    const startLocation = isToken(start) ? start : start.location;
+    const endLocation = isToken(end) ? end : end.location;
+    // nodes that were inserted during error recovery do not have a location
+    if (!startLocation || !endLocation || isNaN(startLocation.startOffset) || isNaN(endLocation.endOffset)) {
+      return undefined;
+    }
+    return {
+      startOffset: startLocation.startOffset,
+      endOffset: endLocation.endOffset,
+      startLine: startLocation.startLine,
+      startColumn: startLocation.startColumn,
+      endLine: endLocation.endLine,
+      endColumn: endLocation.endColumn,
+    };
+  }
+
+  /**
+   * @HELPER
+   * Returns the image of the token, or the apex bind variable including the leading colon
+   * e.x. 37.775, :latitude
+   *
+   * @param item token or apexBindVariableExpression node
+   */
+  private $_getTokenImageOrApexBindVariable(item: IToken | CstNode): string {
+    return isToken(item) ? item.image : `:${this.visit(item)}`;
+  }
+
+  /**
+   * @HELPER
+   * Used for LIMIT and OFFSET, which accept a number or an apex bind variable
+   *
+   * @param item token or apexBindVariableExpression node
+   */
+  private $_getNumberOrApexBindVariable(item: IToken | CstNode): number | ApexBindVariable {
+    return isToken(item) ? Number(item.image) : { type: 'ApexBindVariable', value: this.visit(item) };
+  }
+
+  /**
+   * @HELPER
+   * Returns the value of a string token without the surrounding quotes
+   *
+   * @param token
+   */
+  private $_getStringValue(token: IToken): string {
+    return token.image.substring(1, token.image.length - 1);
+  }
+
+  /**
+   * @HELPER
+   * Returns the text of all tokens within the node in the order they appear in the query
+   * Tokens that were separated by whitespace in the query are separated by a single space
+   *
+   * @param ctx
+   */
+  private $_getText(ctx: CstChildrenDictionary): string {
+    const tokens = this.$_getTokens(ctx).sort((a, b) => a.startOffset - b.startOffset);
+    return tokens.map((token, i) => (i > 0 && token.startOffset > tokens[i - 1].endOffset + 1 ? ` ${token.image}` : token.image)).join('');
+  }
+
+  /**
+   * @HELPER
+   * Returns all tokens within the node, including tokens within child nodes
+   *
+   * @param ctx
+   */
+  private $_getTokens(ctx: CstChildrenDictionary): IToken[] {
+    return Object.keys(ctx).reduce((tokens: IToken[], key) => {
+      ctx[key].forEach(item => {
+        if (isToken(item)) {
+          tokens.push(item);
+        } else {
+          tokens.push(...this.$_getTokens((item as CstNode).children));
+        }
+      });
+      return tokens;
+    }, []);
+  }
+
+  /**
+   * @HELPER
+   * Combines the conditions into a single node, any conditions that failed to be visited during error recovery are omitted
+   *
+   * @param operator
+   * @param nodes
+   */
+  private $_getLogicalConditionTree(operator: LogicalOperator, nodes: CstNode[]): ConditionTreeNode | undefined {
+    const children: ConditionTreeNode[] = nodes.map(node => this.visit(node)).filter(child => !!child);
+    if (children.length <= 1) {
+      return children[0];
+    }
+    return { type: 'logical', operator, children };
+  }
+
+  /**
+   * @HELPER
+   * Returns the group by clause in the shape used prior to supporting a mix of fields and functions
+   * Functions are returned as their raw value if there are multiple group by entries
+   */
+  private $_getLegacyGroupByClause(groupByClause: CstNode, groupBy: GroupByClause[], having?: HavingClause): LegacyGroupByClause {
+    const output: LegacyGroupByClause = {};
+    if (groupBy.length === 1 && isGroupByFn(groupBy[0])) {
+      output.fn = groupBy[0].fn;
+    } else {
+      const fields = groupBy.map(item => (isGroupByField(item) ? item.field : item.fn.rawValue));
+      output.field = fields.length === 1 ? fields[0] : fields;
+    }
+    if (having) {
+      output.having = having;
+    }
+    const { GROUP_BY, groupBy: entries } = groupByClause.children;
+    return this.$_setLocation(output, GROUP_BY[0], entries[entries.length - 1]);
+  }
+
+  /**
+   * @HELPER
+   * Adds the location of the entire query and each of the clauses to the output
+   *
+   * @param ctx
+   * @param output
+   */
+  private $_setClauseLocations(ctx: SelectStatementContext, output: Partial<Query | Subquery>) {
+    const clauseLocations: ClauseLocations = {};
+    const lastClause = [
+      ctx.updateTrackingViewstat,
+      ctx.forViewOrReference,
+      ctx.offsetClause,
+      ctx.limitClause,
+      ctx.orderByClause,
+      ctx.groupByClause,
+      ctx.withClause,
+      ctx.whereClause,
+      ctx.usingScopeClause,
+      ctx.fromClause,
+    ].find(clause => !!clause);
+
+    output.loc = this.$_getLocation(ctx.selectClause[0], lastClause[lastClause.length - 1]);
+
+    clauseLocations.select = this.$_getLocation(ctx.selectClause[0]);
+    clauseLocations.from = this.$_getLocation(ctx.fromClause[0]);
+    if (ctx.usingScopeClause) {
+      clauseLocations.usingScope = this.$_getLocation(ctx.usingScopeClause[0]);
+    }
+    if (ctx.whereClause) {
+      clauseLocations.where = this.$_getLocation(ctx.whereClause[0]);
+    }
+    if (ctx.withClause) {
+      clauseLocations.with = ctx.withClause.map(item => this.$_getLocation(item));
+    }
+    if (ctx.groupByClause) {
+      const { GROUP_BY, groupBy, havingClause } = ctx.groupByClause[0].children;
+      clauseLocations.groupBy = this.$_getLocation(GROUP_BY[0], groupBy[groupBy.length - 1]);
+      if (havingClause) {
+        clauseLocations.having = this.$_getLocation(havingClause[0] as CstNode);
+      }
+    }
+    if (ctx.orderByClause) {
+      clauseLocations.orderBy = this.$_getLocation(ctx.orderByClause[0]);
+    }
+    if (ctx.limitClause) {
+      clauseLocations.limit = this.$_getLocation(ctx.limitClause[0]);
+    }
+    if (ctx.offsetClause) {
+      clauseLocations.offset = this.$_getLocation(ctx.offsetClause[0]);
+    }
+    if (ctx.forViewOrReference) {
+      clauseLocations.for = this.$_getLocation(ctx.forViewOrReference[0]);
+    }
+    if (ctx.updateTrackingViewstat) {
+      clauseLocations.update = this.$_getLocation(ctx.updateTrackingViewstat[0]);
+    }
+    output.clauseLocations = clauseLocations;
+  }
+
   private $_getLiteralTypeFromTokenType(tokenTypeName: string | DateLiteral | DateNLiteral): LiteralType {
     if (tokenTypeName === 'REAL_NUMBER') {
       return 'DECIMAL';
@@ -803,6 +1277,8 @@ class SOQLVisitor extends BaseSoqlVisitor {
       return 'STRING';
     } else if (tokenTypeName === 'Identifier') {
       return 'STRING';
+    } else if (tokenTypeName === 'APEX_BIND_VARIABLE') {
+      return 'APEX_BIND_VARIABLE';
     } else if (BOOLEANS.includes(tokenTypeName)) {
       return 'BOOLEAN';
     } else if (DATE_LITERALS.includes(tokenTypeName as DateLiteral)) {
@@ -815,7 +1291,33 @@ class SOQLVisitor extends BaseSoqlVisitor {
   }
 }
 
-// Our visitor has no state, so a single instance is sufficient.
+/**
+ * Returns a warning for a node from a recovered parse that could not be visited and was omitted from the query
+ * @param node
+ */
+function getOmittedNodeDiagnostic(node: CstNode): SoqlDiagnostic {
+  const { location } = node;
+  // nodes that were inserted during error recovery have a location with null or NaN offsets
+  const hasLocation = !!location && typeof location.startOffset === 'number' && !isNaN(location.startOffset);
+  return {
+    severity: 'warning',
+    name: 'OmittedNode',
+    message: `Unable to recover ${node.name}, it was omitted from the query`,
+    range: hasLocation
+      ? {
+          startOffset: location.startOffset,
+          endOffset: location.endOffset,
+          startLine: location.startLine,
+          startColumn: location.startColumn,
+          endLine: location.endLine,
+          endColumn: location.endColumn,
+        }
+      : { startOffset: 0, endOffset: 0, startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 },
+    expectedTokens: [],
+  };
+}
+
+// Our visitor only holds configuration that is reset on every parse, so a single instance is sufficient.
 const visitor = new SOQLVisitor();
 
 /**
@@ -823,10 +1325,28 @@ const visitor = new SOQLVisitor();
  * @param soql
  */
 export function parseQuery(soql: string, options?: ParseQueryConfig): Query {
-  const query: Query = visitor.visit(parse(soql, options));
+  const cst = parse(soql, options);
+  visitor.includeLocations = !!(options && options.includeLocations);
+  visitor.legacyGroupBy = !!(options && options.legacyGroupBy);
+  visitor.includeConditionGroups = !!(options && options.includeConditionGroups);
+  const query: Query = visitor.visit(cst);
   return query;
 }
 
+/**
+ * Parse SOSL search and process results
+ * @param sosl
+ * @param options
+ */
+export function parseSearch(sosl: string, options?: ParseQueryConfig): Search {
+  const cst = parse(sosl, options, 'searchStatement');
+  visitor.includeLocations = !!(options && options.includeLocations);
+  visitor.legacyGroupBy = false;
+  visitor.includeConditionGroups = !!(options && options.includeConditionGroups);
+  const search: Search = visitor.visit(cst);
+  return search;
+}
+
 /**
  * Lex and parse query (without walking parsed results)
  * to determine if query is valid
@@ -840,3 +1360,25 @@ export function isQueryValid(soql: string, options?: ParseQueryConfig): boolean
     return false;
   }
 }
+
+/**
+ * Parse query with error recovery enabled
+ * Instead of throwing an exception, all lexing and parsing errors are returned as diagnostics
+ * along with as much of the query as was able to be parsed
+ * @param soql
+ * @param options
+ */
+export function parseQueryWithDiagnostics(soql: string, options?: ParseQueryConfig): QueryWithDiagnostics {
+  const { cst, diagnostics } = parseWithDiagnostics(soql, options);
+  visitor.includeLocations = !!(options && options.includeLocations);
+  visitor.legacyGroupBy = !!(options && options.legacyGroupBy);
+  visitor.includeConditionGroups = !!(options && options.includeConditionGroups);
+  visitor.recoverFromErrors = true;
+  visitor.omittedNodeDiagnostics = [];
+  try {
+    const query: Partial<Query> = visitor.visit(cst);
+    return { query, diagnostics: diagnostics.concat(visitor.omittedNodeDiagnostics) };
+  } finally {
+    visitor.recoverFromErrors = false;
+  }
+}
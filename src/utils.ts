@@ -1,8 +1,45 @@
 import { IToken } from 'chevrotain';
-import { FieldFunctionExpression, LiteralType, Query, Subquery, WhereClause, ValueQuery, Condition, FieldSubquery } from './api/api-models';
-import { ComposeField, ComposeFieldFunction, ComposeFieldRelationship, ComposeFieldSubquery, ComposeFieldTypeof } from './api/public-utils';
+import {
+  ApexBindVariable,
+  FieldFunctionExpression,
+  FieldType,
+  LiteralType,
+  Query,
+  Subquery,
+  WhereClause,
+  ValueQuery,
+  Condition,
+  ConditionGroup,
+  FieldSubquery,
+  GroupByClause,
+  GroupByFieldClause,
+  GroupByFnClause,
+  LegacyGroupByClause,
+  Search,
+  SourceLocation,
+} from './api/api-models';
+import {
+  ComposeField,
+  ComposeFieldFieldsFunction,
+  ComposeFieldFunction,
+  ComposeFieldRelationship,
+  ComposeFieldSubquery,
+  ComposeFieldTypeof,
+} from './api/public-utils';
 import { isUndefined } from 'util';
 
+const AGGREGATE_FUNCTIONS = ['AVG', 'COUNT', 'COUNT_DISTINCT', 'MIN', 'MAX', 'SUM'];
+
+const STRING_ESCAPE_SEQUENCES: { [char: string]: string } = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\b': '\\b',
+  '\f': '\\f',
+};
+
 export function isToken(val: any): val is IToken[] | IToken {
   val = Array.isArray(val) ? val[0] : val;
   return val.image && true;
@@ -76,6 +113,10 @@ export function isSubquery(query: Query | Subquery): query is Subquery {
   return isString((query as any).relationshipName);
 }
 
+export function isSearch(value: any): value is Search {
+  return !!value && isString(value.searchTerm);
+}
+
 export function isFieldSubquery(value: any): value is FieldSubquery {
   return value && value.type && value.type === 'FieldSubquery';
 }
@@ -115,10 +156,83 @@ export function isComposeFieldTypeof(input: any): input is ComposeFieldTypeof {
   return isString(input.field) && Array.isArray(input.conditions);
 }
 
+export function isComposeFieldFieldsFunction(input: any): input is ComposeFieldFieldsFunction {
+  return isString(input.scope);
+}
+
+export function isCustomField(field: string): boolean {
+  return /__c$/i.test(field);
+}
+
 export function isConditionWithValueQuery(input: any): input is Condition & ValueQuery {
   return isUndefined(input.valueQuery) ? false : true;
 }
 
+export function isApexBindVariable(value: any): value is ApexBindVariable {
+  return !!value && value.type === 'ApexBindVariable';
+}
+
+export function isConditionGroup(value: any): value is ConditionGroup {
+  return !!value && Array.isArray(value.children);
+}
+
+export function isGroupByField(value: GroupByClause): value is GroupByFieldClause {
+  return !isUndefined((value as GroupByFieldClause).field);
+}
+
+export function isGroupByFn(value: GroupByClause): value is GroupByFnClause {
+  return !isUndefined((value as GroupByFnClause).fn);
+}
+
+export function isLegacyGroupBy(value: GroupByClause[] | LegacyGroupByClause): value is LegacyGroupByClause {
+  return !Array.isArray(value);
+}
+
+export function isAggregateField(field: FieldType): boolean {
+  return (
+    field.type === 'FieldFunctionExpression' &&
+    (field.isAggregateFn || AGGREGATE_FUNCTIONS.includes((field.functionName || '').toUpperCase()))
+  );
+}
+
+export function isAggregateQuery(query: Query | Subquery): boolean {
+  return !!query.groupBy || query.fields.some(isAggregateField);
+}
+
+/**
+ * Returns the lowercase name used to compare fields, functions, subqueries and TYPEOF fields do not have a name
+ */
+export function getFieldName(field: FieldType): string | undefined {
+  switch (field.type) {
+    case 'Field':
+      return field.field.toLowerCase();
+    case 'FieldRelationship':
+      return [...field.relationships, field.field].join('.').toLowerCase();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the text used to refer to a field in messages, e.x. `Account.Name` or `COUNT()`
+ */
+export function getFieldText(field: FieldType): string {
+  switch (field.type) {
+    case 'Field':
+      return field.objectPrefix ? `${field.objectPrefix}.${field.field}` : field.field;
+    case 'FieldRelationship':
+      return field.rawValue || [...field.relationships, field.field].join('.');
+    case 'FieldFunctionExpression':
+      return field.rawValue || `${field.functionName}()`;
+    case 'FieldFieldsFunction':
+      return field.rawValue || `FIELDS(${field.scope})`;
+    case 'FieldTypeof':
+      return `TYPEOF ${field.field}`;
+    default:
+      return field.type;
+  }
+}
+
 export function getWhereValue(value: any | any[], literalType?: LiteralType | LiteralType[]): any {
   if (isNil(literalType)) {
     return value;
@@ -138,13 +252,17 @@ export function getWhereValue(value: any | any[], literalType?: LiteralType | Li
     switch (literalType) {
       case 'STRING': {
         if (Array.isArray(value)) {
-          return value.map(val => ((val as string).startsWith("'") ? val : `'${val}'`));
+          return value.map(getStringLiteral);
         } else {
-          return (value as string).startsWith("'") ? value : `'${value}'`;
+          return getStringLiteral(value);
         }
       }
       case 'APEX_BIND_VARIABLE': {
-        return `:${value}`;
+        if (Array.isArray(value)) {
+          return value.map(val => `:${val}`);
+        } else {
+          return `:${value}`;
+        }
       }
       default: {
         return value;
@@ -156,10 +274,148 @@ export function getWhereValue(value: any | any[], literalType?: LiteralType | Li
 function whereValueHelper(value: any, literalType?: LiteralType) {
   switch (literalType) {
     case 'STRING': {
-      return (value as string).startsWith("'") ? value : `'${value}'`;
+      return getStringLiteral(value);
+    }
+    case 'APEX_BIND_VARIABLE': {
+      return `:${value}`;
     }
     default: {
       return value;
     }
   }
 }
+
+/**
+ * Values that are already a quoted string literal are returned as-is, any other value is escaped and quoted
+ * e.x. 'O\'Brien' -> 'O\'Brien', O'Brien -> 'O\'Brien', x' OR Name != ' -> 'x\' OR Name != \''
+ * @param value
+ */
+export function getStringLiteral(value: string): string {
+  return isQuotedString(value) ? value : `'${escapeSoqlString(value)}'`;
+}
+
+export function equalsIgnoreCase(a: string | null | undefined, b: string | null | undefined): boolean {
+  return isString(a) && isString(b) && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Returns true if the value is a field name or relationship path, e.x. Name or Account.Owner.Name
+ * Used to skip function parameters that are not fields, such as 'mi' in DISTANCE() or numbers in GEOLOCATION()
+ * @param value
+ */
+export function isFieldPath(value: string): boolean {
+  return /^[a-zA-Z][\w.]*$/.test(value);
+}
+
+/**
+ * Functions are included in the legacy group by clause as their raw value, this returns the field within the function
+ * e.x. CALENDAR_YEAR(convertTimezone(CreatedDate)) -> CreatedDate
+ * @param value
+ */
+export function getLegacyGroupByFieldPath(value: string): string {
+  return value.replace(/^(\w+\()+|\)+$/g, '');
+}
+
+/**
+ * Returns true if the value starts and ends with a quote and every quote within the value is escaped
+ * @param value
+ */
+export function isQuotedString(value: string): boolean {
+  return /^'(?:[^'\\]|\\[\s\S])*'$/.test(value);
+}
+
+/**
+ * Escapes backslashes, quotes and control characters so the value can be used within a string literal
+ * Control characters that do not have an escape sequence are escaped as unicode, e.x. \u0000
+ * @param value
+ */
+export function escapeSoqlString(value: string): string {
+  return value.replace(
+    /[\\'\u0000-\u001f\u007f-\u009f\u2028\u2029]/g,
+    char => STRING_ESCAPE_SEQUENCES[char] || `\\u${`000${char.charCodeAt(0).toString(16)}`.slice(-4)}`,
+  );
+}
+
+/**
+ * Returns the value and literal type that are used in a condition for a string, number, boolean, Date or null
+ * Strings are escaped and quoted, and Dates are converted to a datetime literal in UTC
+ * @param value
+ * @returns value and literal type, or undefined if the value cannot be used in a condition, such as an object, NaN or an invalid Date
+ */
+export function getLiteralFromValue(value: unknown): { value: string; literalType: LiteralType } | undefined {
+  if (isNil(value)) {
+    return { value: 'NULL', literalType: 'NULL' };
+  } else if (isString(value)) {
+    return { value: `'${escapeSoqlString(value)}'`, literalType: 'STRING' };
+  } else if (isBoolean(value)) {
+    return { value: value ? 'TRUE' : 'FALSE', literalType: 'BOOLEAN' };
+  } else if (isNumber(value)) {
+    return { value: `${value}`, literalType: Number.isInteger(value) ? 'INTEGER' : 'DECIMAL' };
+  } else if (value instanceof Date && !isNaN(value.getTime())) {
+    // milliseconds are not supported in datetime literals
+    return { value: value.toISOString().replace(/\.\d{3}Z$/, 'Z'), literalType: 'DATETIME' };
+  }
+  return undefined;
+}
+
+export function getLineStarts(source: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * @param startOffset
+ * @param endOffset offset of the last character, which is included in the location
+ * @param lineStarts offset of the first character of each line, from `getLineStarts()`
+ */
+export function getSourceLocation(startOffset: number, endOffset: number, lineStarts: number[]): SourceLocation {
+  const start = getLineAndColumn(startOffset, lineStarts);
+  const end = getLineAndColumn(endOffset, lineStarts);
+  return {
+    startOffset,
+    endOffset,
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+  };
+}
+
+function getLineAndColumn(offset: number, lineStarts: number[]): { line: number; column: number } {
+  let line = lineStarts.length - 1;
+  while (line > 0 && lineStarts[line] > offset) {
+    line--;
+  }
+  return { line: line + 1, column: offset - lineStarts[line] + 1 };
+}
+
+/**
+ * Gets the number of insertions, deletions, substitutions or transpositions of adjacent characters
+ * that are required to change one string into another
+ * @param a
+ * @param b
+ */
+export function getEditDistance(a: string, b: string): number {
+  const distances: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    distances[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    distances[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return distances[a.length][b.length];
+}
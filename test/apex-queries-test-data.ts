@@ -0,0 +1,20 @@
+// Apex class with static and dynamic queries, along with brackets and quotes in comments and strings that are not queries
+export const apexSource = [
+  'public with sharing class AccountService {',
+  '  // [SELECT Id FROM Commented]',
+  "  private static final String QUERY = '[SELECT Id FROM InString]';",
+  '  public static List<Account> getAccounts(Set<Id> ids) {',
+  '    return [',
+  "      SELECT Id, Name FROM Account WHERE Id IN :ids AND Name != 'a]b'",
+  '    ];',
+  '  }',
+  '  public static List<SObject> getContacts(Integer pageSize) {',
+  "    return Database.query('SELECT Id FROM Contact ' +",
+  "      'WHERE Name = \\'Acme\\' LIMIT :pageSize');",
+  '  }',
+  '  public static List<SObject> getRecords(String soql) {',
+  '    Database.query(soql);',
+  "    return Database.query('SELECT Id FORM Lead');",
+  '  }',
+  '}',
+].join('\n');
@@ -0,0 +1,44 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, extractQueriesFromApex, ParsingError } from '../src';
+import { apexSource } from './apex-queries-test-data';
+
+describe('extract queries from apex', () => {
+  it('Should find static and dynamic queries and ignore comments and other strings', () => {
+    const queries = extractQueriesFromApex(apexSource);
+    expect(queries.map(item => item.type)).to.deep.equal(['STATIC', 'DYNAMIC', 'DYNAMIC']);
+    expect(queries.map(item => item.soql)).to.deep.equal([
+      "SELECT Id, Name FROM Account WHERE Id IN :ids AND Name != 'a]b'",
+      "SELECT Id FROM Contact WHERE Name = 'Acme' LIMIT :pageSize",
+      'SELECT Id FORM Lead',
+    ]);
+  });
+
+  it('Should parse each query with apex bind variables allowed', () => {
+    const [staticQuery, dynamicQuery] = extractQueriesFromApex(apexSource);
+    expect(staticQuery.query).to.deep.equal(parseQuery(staticQuery.soql, { allowApexBindVariables: true }));
+    expect(dynamicQuery.query.limit).to.deep.equal({ type: 'ApexBindVariable', value: 'pageSize' });
+    expect(staticQuery.error).to.equal(undefined);
+  });
+
+  it('Should include the position of each query within the source', () => {
+    const [staticQuery, dynamicQuery] = extractQueriesFromApex(apexSource);
+    expect(staticQuery.range).to.deep.equal({
+      startOffset: apexSource.indexOf('SELECT Id, Name'),
+      endOffset: apexSource.indexOf("'a]b'") + 4,
+      startLine: 6,
+      startColumn: 7,
+      endLine: 6,
+      endColumn: 69,
+    });
+    expect(dynamicQuery.range.startLine).to.equal(10);
+    expect(dynamicQuery.range.startColumn).to.equal(27);
+    expect(dynamicQuery.range.endLine).to.equal(11);
+  });
+
+  it('Should include the parsing error for invalid queries', () => {
+    const invalidQuery = extractQueriesFromApex(apexSource)[2];
+    expect(invalidQuery.query).to.equal(undefined);
+    expect(invalidQuery.error).to.be.instanceOf(ParsingError);
+  });
+});
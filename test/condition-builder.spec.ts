@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, select, and, or, not, eq, ne, lt, gt, like, inList, includes, inSubquery, dateLiteral } from '../src';
+
+describe('condition builder', () => {
+  const getWhereClause = (soql: string) => parseQuery(soql).where;
+
+  it('Should create conditions with the literal type of each value', () => {
+    expect(eq('Name', `O'Brien`)).to.deep.equal({ left: { field: 'Name', operator: '=', value: `'O\\'Brien'`, literalType: 'STRING' } });
+    expect(ne('IsDeleted', true)).to.deep.equal({ left: { field: 'IsDeleted', operator: '!=', value: 'TRUE', literalType: 'BOOLEAN' } });
+    expect(lt('AnnualRevenue', 1000.5)).to.deep.equal({
+      left: { field: 'AnnualRevenue', operator: '<', value: '1000.5', literalType: 'DECIMAL' },
+    });
+    expect(eq('ParentId', null)).to.deep.equal({ left: { field: 'ParentId', operator: '=', value: 'NULL', literalType: 'NULL' } });
+    expect(eq('CreatedDate', dateLiteral('LAST_N_DAYS', 30))).to.deep.equal(
+      getWhereClause('SELECT Id FROM Account WHERE CreatedDate = LAST_N_DAYS:30'),
+    );
+    expect(eq('CreatedDate', dateLiteral('TODAY'))).to.deep.equal(getWhereClause('SELECT Id FROM Account WHERE CreatedDate = TODAY'));
+    expect(inList('Type', ['Customer', 'Partner'])).to.deep.equal(
+      getWhereClause(`SELECT Id FROM Account WHERE Type IN ('Customer', 'Partner')`),
+    );
+    expect(includes('Interests__c', ['A;B', 'C'])).to.deep.equal(
+      getWhereClause(`SELECT Id FROM Contact WHERE Interests__c INCLUDES ('A;B', 'C')`),
+    );
+    expect(inList('Amount', [1, 'NULL']).left.literalType).to.deep.equal(['INTEGER', 'STRING']);
+  });
+
+  it('Should nest groups with the correct parentheses', () => {
+    const soql = `SELECT Id FROM Account WHERE Industry = 'Technology' AND (AnnualRevenue < 1000 OR NOT (Name LIKE 'Acme%' OR Type = NULL)) AND NOT IsDeleted = TRUE`;
+    const where = and(
+      eq('Industry', 'Technology'),
+      or(lt('AnnualRevenue', 1000), not(or(like('Name', 'Acme%'), eq('Type', null)))),
+      not(eq('IsDeleted', true)),
+    );
+    expect(where).to.deep.equal(getWhereClause(soql));
+    expect(composeQuery({ fields: [{ type: 'Field', field: 'Id' }], sObject: 'Account', where })).to.equal(soql);
+    expect(and(eq('A', 1), and(eq('B', 2), eq('C', 3)))).to.deep.equal(
+      getWhereClause('SELECT Id FROM Account WHERE A = 1 AND B = 2 AND C = 3'),
+    );
+    expect(not(not(eq('A', 1)))).to.deep.equal(eq('A', 1));
+  });
+
+  it('Should create semi-joins and having clauses', () => {
+    const soql = select('Industry')
+      .from('Account')
+      .where(
+        inSubquery(
+          'Id',
+          select('AccountId')
+            .from('Contact')
+            .where(eq('CreatedDate', dateLiteral('LAST_N_DAYS', 30))),
+        ),
+      )
+      .groupBy('Industry')
+      .having(or(gt({ functionName: 'COUNT', parameters: ['Id'] }, 10), lt({ functionName: 'COUNT', parameters: ['Id'] }, 2)))
+      .toSoql();
+    expect(soql).to.equal(
+      'SELECT Industry FROM Account WHERE Id IN (SELECT AccountId FROM Contact WHERE CreatedDate = LAST_N_DAYS:30) GROUP BY Industry HAVING COUNT(Id) > 10 OR COUNT(Id) < 2',
+    );
+  });
+
+  it('Should throw an error for invalid input', () => {
+    expect(() => and()).to.throw('and() requires at least one condition');
+    expect(() => inList('Type', [])).to.throw('IN requires at least one value');
+    expect(() => eq('Name', {} as any)).to.throw(
+      'The value of a = condition must be a string, number, boolean, Date, null or a literal value',
+    );
+    expect(() => gt('AnnualRevenue', NaN)).to.throw('The value of a > condition must be');
+    expect(() => lt('CreatedDate', new Date('invalid'))).to.throw('The value of a < condition must be');
+    expect(() => dateLiteral('LAST_N_DAYS', undefined)).to.throw('LAST_N_DAYS requires an integer');
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import 'mocha';
+import {
+  parseQuery,
+  composeQuery,
+  Query,
+  WhereClause,
+  ConditionGroup,
+  getConditionGroupFromWhereClause,
+  getWhereClauseFromConditionGroup,
+} from '../src';
+
+describe('parse queries with condition groups', () => {
+  const nameA = { field: 'Name', operator: '=', value: "'a'", literalType: 'STRING' };
+  const nameB = { field: 'Name', operator: '=', value: "'b'", literalType: 'STRING' };
+  const typeC = { field: 'Type', operator: '=', value: "'c'", literalType: 'STRING' };
+
+  it('Should group conditions by operator precedence', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE Name = 'a' OR Name = 'b' AND Type = 'c'`, { includeConditionGroups: true });
+    expect(query.whereGroup).to.deep.equal({
+      operator: 'OR',
+      negated: false,
+      children: [nameA, { operator: 'AND', negated: false, children: [nameB, typeC] }],
+    });
+    expect(query.where).to.deep.equal(parseQuery(`SELECT Id FROM Account WHERE Name = 'a' OR Name = 'b' AND Type = 'c'`).where);
+  });
+  it('Should group conditions by parentheses and remove redundant parentheses', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE ((Name = 'a' OR Name = 'b')) AND (Type = 'c')`, {
+      includeConditionGroups: true,
+    });
+    expect(query.whereGroup).to.deep.equal({
+      operator: 'AND',
+      negated: false,
+      children: [{ operator: 'OR', negated: false, children: [nameA, nameB] }, typeC],
+    });
+  });
+  it('Should negate groups and conditions', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE NOT (Name = 'a' OR Name = 'b') AND NOT Type = 'c'`, {
+      includeConditionGroups: true,
+    });
+    expect(query.whereGroup).to.deep.equal({
+      operator: 'AND',
+      negated: false,
+      children: [
+        { operator: 'OR', negated: true, children: [nameA, nameB] },
+        { operator: 'AND', negated: true, children: [typeC] },
+      ],
+    });
+  });
+  it('Should always return a group for a single condition', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE Name = 'a'`, { includeConditionGroups: true });
+    expect(query.whereGroup).to.deep.equal({ operator: 'AND', negated: false, children: [nameA] });
+  });
+  it('Should include condition groups for subqueries and the having clause', () => {
+    const soql = `SELECT Name, COUNT(Id) FROM Account WHERE Id IN (SELECT AccountId FROM Contact WHERE Name = 'a' OR Name = 'b') GROUP BY Name HAVING COUNT(Id) > 1`;
+    const query = parseQuery(soql, { includeConditionGroups: true });
+    expect(query.whereGroup.children[0]).to.have.nested.property('valueQuery.whereGroup.operator', 'OR');
+    expect(query.havingGroup).to.deep.equal({
+      operator: 'AND',
+      negated: false,
+      children: [
+        { fn: { functionName: 'COUNT', parameters: ['Id'], rawValue: 'COUNT(Id)' }, operator: '>', value: '1', literalType: 'INTEGER' },
+      ],
+    });
+  });
+  it('Should compose a query from condition groups', () => {
+    const query: Query = {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      whereGroup: {
+        operator: 'AND',
+        negated: false,
+        children: [
+          { operator: 'OR', negated: true, children: [nameA as any, nameB] },
+          { operator: 'AND', negated: true, children: [typeC as any] },
+        ],
+      },
+    };
+    expect(composeQuery(query)).to.equal(`SELECT Id FROM Account WHERE NOT (Name = 'a' OR Name = 'b') AND NOT Type = 'c'`);
+  });
+  it('Should prefer where over whereGroup when composing', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE Name = 'a'`, { includeConditionGroups: true });
+    query.whereGroup = { operator: 'AND', negated: false, children: [nameB as any] };
+    expect(composeQuery(query)).to.equal(`SELECT Id FROM Account WHERE Name = 'a'`);
+  });
+});
+
+describe('convert condition groups', () => {
+  const queries = [
+    `SELECT Id FROM Account WHERE Name = 'a'`,
+    `SELECT Id FROM Account WHERE Name = 'a' OR Name = 'b' AND Type = 'c' OR NOT Type = 'd'`,
+    `SELECT Id FROM Account WHERE ((Name = 'a' OR Name = 'b') AND (Type = 'c' OR Type = 'd')) OR Id = '1'`,
+    `SELECT Id FROM Account WHERE NOT (Name = 'a' OR NOT (Name = 'b' AND Type = 'c'))`,
+    `SELECT Id FROM Account WHERE (NOT (Name = 'a' OR Name = 'b')) AND NOT (Type = 'c')`,
+  ];
+
+  it('Should match the condition groups from the parser', () => {
+    queries.forEach(soql => {
+      const query = parseQuery(soql, { includeConditionGroups: true });
+      expect(getConditionGroupFromWhereClause(query.where)).to.deep.equal(query.whereGroup, soql);
+    });
+  });
+  it('Should convert condition groups back to an equivalent where clause', () => {
+    queries.forEach(soql => {
+      const { whereGroup } = parseQuery(soql, { includeConditionGroups: true });
+      const where = getWhereClauseFromConditionGroup(whereGroup);
+      expect(getConditionGroupFromWhereClause(where)).to.deep.equal(whereGroup, soql);
+    });
+  });
+  it('Should add parentheses for nested groups', () => {
+    const { whereGroup } = parseQuery(`SELECT Id FROM Account WHERE Name = 'a' OR Name = 'b' AND NOT Type = 'c'`, {
+      includeConditionGroups: true,
+    });
+    const query: Query = {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: getWhereClauseFromConditionGroup(whereGroup),
+    };
+    expect(composeQuery(query)).to.equal(`SELECT Id FROM Account WHERE Name = 'a' OR (Name = 'b' AND NOT Type = 'c')`);
+  });
+  it('Should return undefined for an empty group', () => {
+    const group: ConditionGroup = { operator: 'AND', negated: false, children: [{ operator: 'OR', negated: true, children: [] }] };
+    expect(getWhereClauseFromConditionGroup(group)).to.be.undefined;
+  });
+  it('Should throw if the where clause has more closing parentheses than opening parentheses', () => {
+    const where: WhereClause = {
+      left: { field: 'Name', operator: '=', value: 'a', literalType: 'STRING', closeParen: 1 },
+      operator: 'AND',
+      right: { left: { field: 'Type', operator: '=', value: 'c', literalType: 'STRING' } },
+    };
+    expect(() => getConditionGroupFromWhereClause(where)).to.throw(Error);
+  });
+});
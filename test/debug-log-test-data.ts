@@ -0,0 +1,15 @@
+// Debug log with queries that are repeated, span multiple lines and cannot be parsed
+export const debugLog = [
+  '48.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;DB,INFO',
+  '12:00:00.1 (1000000)|EXECUTION_STARTED',
+  "12:00:00.2 (2000000)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Contact WHERE AccountId = '001000000000001'",
+  '12:00:00.4 (4500000)|SOQL_EXECUTE_END|[12]|Rows:2',
+  "12:00:00.5 (5000000)|SOQL_EXECUTE_BEGIN|[12]|Aggregations:0|SELECT Id FROM Contact WHERE AccountId = '001000000000002'",
+  '12:00:00.6 (6000000)|SOQL_EXECUTE_END|[12]|Rows:1',
+  '12:00:00.7 (7000000)|SOQL_EXECUTE_BEGIN|[20]|Aggregations:1|SELECT Id, (SELECT Id FROM Contacts)',
+  'FROM Account WHERE Id IN :accountIds',
+  '12:00:00.8 (8000000)|SOQL_EXECUTE_END|[20]|Rows:3',
+  '12:00:00.9 (9000000)|SOQL_EXECUTE_BEGIN|[30]|Aggregations:0|SELECT Id FORM Lead',
+  '12:00:01.0 (10000000)|SOQL_EXECUTE_END|[30]|Rows:0',
+  '12:00:01.1 (11000000)|EXECUTION_FINISHED',
+].join('\n');
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, analyzeDebugLog, DebugLogAnalyzer, getQueryFingerprint, ParsingError } from '../src';
+import { debugLog } from './debug-log-test-data';
+
+describe('analyze debug logs', () => {
+  it('Should pair begin and end events to get the rows and duration of each query', () => {
+    const { queries } = analyzeDebugLog(debugLog);
+    expect(queries.map(query => query.line)).to.deep.equal([12, 12, 20, 30]);
+    expect(queries.map(query => query.logLine)).to.deep.equal([3, 5, 7, 10]);
+    expect(queries.map(query => query.rows)).to.deep.equal([2, 1, 3, 0]);
+    expect(queries.map(query => query.durationMs)).to.deep.equal([2.5, 1, 1, 1]);
+    expect(queries.map(query => query.aggregations)).to.deep.equal([0, 0, 1, 0]);
+  });
+
+  it('Should parse queries that span multiple lines', () => {
+    const query = analyzeDebugLog(debugLog).queries[2];
+    expect(query.soql).to.equal('SELECT Id, (SELECT Id FROM Contacts)\nFROM Account WHERE Id IN :accountIds');
+    expect(query.query.where.left.literalType).to.equal('APEX_BIND_VARIABLE');
+    expect(query.objects).to.deep.equal(['Account', 'Contacts']);
+    expect(query.fields).to.deep.equal(['Id', 'Contacts']);
+  });
+
+  it('Should group queries that only differ by their values', () => {
+    const { groups } = analyzeDebugLog(debugLog);
+    expect(groups.map(group => group.count)).to.deep.equal([2, 1, 1]);
+    expect(groups[0].fingerprint).to.equal('SELECT Id FROM Contact WHERE AccountId = ?');
+    expect(groups[0].totalRows).to.equal(3);
+    expect(groups[0].totalDurationMs).to.equal(3.5);
+    expect(groups[0].lines).to.deep.equal([12]);
+  });
+
+  it('Should include the parsing error for invalid queries', () => {
+    const query = analyzeDebugLog(debugLog).queries[3];
+    expect(query.query).to.equal(undefined);
+    expect(query.error).to.be.instanceOf(ParsingError);
+    expect(query.fingerprint).to.equal('SELECT Id FORM Lead');
+  });
+
+  it('Should allow the log to be provided in chunks', () => {
+    const analyzer = new DebugLogAnalyzer();
+    for (let i = 0; i < debugLog.length; i += 7) {
+      analyzer.write(debugLog.substring(i, i + 7));
+    }
+    const { queries } = analyzer.getAnalysis();
+    const expectedQueries = analyzeDebugLog(debugLog).queries;
+    expect(queries.map(query => query.soql)).to.deep.equal(expectedQueries.map(query => query.soql));
+    expect(queries.map(query => query.rows)).to.deep.equal(expectedQueries.map(query => query.rows));
+    expect(queries.map(query => query.fingerprint)).to.deep.equal(expectedQueries.map(query => query.fingerprint));
+  });
+
+  it('Should ignore the limit and offset in the fingerprint', () => {
+    const fingerprint = getQueryFingerprint(parseQuery('SELECT Id FROM Account ORDER BY Name LIMIT 10 OFFSET 20'));
+    expect(fingerprint).to.equal('SELECT Id FROM Account ORDER BY Name');
+    expect(getQueryFingerprint(parseQuery('SELECT Id FROM Account ORDER BY Name LIMIT 20'))).to.equal(fingerprint);
+    expect(getQueryFingerprint(parseQuery('SELECT Id, (SELECT Id FROM Contacts LIMIT 5) FROM Account'))).to.equal(
+      'SELECT Id, (SELECT Id FROM Contacts) FROM Account',
+    );
+  });
+
+  it('Should replace values within subqueries and semi-joins in the fingerprint', () => {
+    const query = parseQuery(
+      "SELECT Id, (SELECT Id FROM Contacts WHERE Email LIKE '%@acme.com') FROM Account WHERE Id IN (SELECT AccountId FROM Opportunity WHERE Amount > 1000) AND Type IN ('A', 'B') AND CreatedDate = LAST_N_DAYS:7",
+    );
+    expect(getQueryFingerprint(query)).to.equal(
+      'SELECT Id, (SELECT Id FROM Contacts WHERE Email LIKE ?) FROM Account WHERE Id IN (SELECT AccountId FROM Opportunity WHERE Amount > ?) AND Type IN (?) AND CreatedDate = ?',
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { DescribeFieldResult, DescribeSObjectResult } from '../src/api/api-models';
+
+// Subset of the describe results from a developer org, only the properties used for validation are included
+function getField(name: string, type: string, properties: Partial<DescribeFieldResult> = {}): DescribeFieldResult {
+  return { name, type, filterable: true, sortable: true, groupable: true, ...properties };
+}
+
+export const describeResults: DescribeSObjectResult[] = [
+  {
+    name: 'Account',
+    fields: [
+      getField('Id', 'id'),
+      getField('Name', 'string'),
+      getField('Industry', 'picklist'),
+      getField('AnnualRevenue', 'currency', { groupable: false }),
+      getField('NumberOfEmployees', 'int'),
+      getField('Description', 'textarea', { filterable: false, sortable: false, groupable: false }),
+      getField('IsPartner', 'boolean'),
+      getField('CreatedDate', 'datetime', { groupable: false }),
+      getField('OwnerId', 'reference', { relationshipName: 'Owner', referenceTo: ['User'] }),
+      getField('ParentId', 'reference', { relationshipName: 'Parent', referenceTo: ['Account'] }),
+    ],
+    childRelationships: [
+      { childSObject: 'Contact', field: 'AccountId', relationshipName: 'Contacts' },
+      { childSObject: 'Opportunity', field: 'AccountId', relationshipName: 'Opportunities' },
+      { childSObject: 'Task', field: 'WhatId', relationshipName: 'Tasks' },
+      { childSObject: 'AccountHistory', field: 'AccountId', relationshipName: null },
+    ],
+  },
+  {
+    name: 'Contact',
+    fields: [
+      getField('Id', 'id'),
+      getField('Name', 'string'),
+      getField('Email', 'email'),
+      getField('Birthdate', 'date'),
+      getField('HasOptedOutOfEmail', 'boolean'),
+      getField('Interests__c', 'multipicklist', { sortable: false, groupable: false }),
+      getField('AccountId', 'reference', { relationshipName: 'Account', referenceTo: ['Account'] }),
+      getField('OwnerId', 'reference', { relationshipName: 'Owner', referenceTo: ['User'] }),
+    ],
+    childRelationships: [{ childSObject: 'Task', field: 'WhoId', relationshipName: 'Tasks' }],
+  },
+  {
+    name: 'Opportunity',
+    fields: [
+      getField('Id', 'id'),
+      getField('Name', 'string'),
+      getField('Amount', 'currency', { groupable: false }),
+      getField('CloseDate', 'date'),
+      getField('StageName', 'picklist'),
+      getField('AccountId', 'reference', { relationshipName: 'Account', referenceTo: ['Account'] }),
+    ],
+    childRelationships: [],
+  },
+  {
+    name: 'Task',
+    fields: [
+      getField('Id', 'id'),
+      getField('Subject', 'combobox'),
+      getField('WhatId', 'reference', { relationshipName: 'What', referenceTo: ['Account', 'Opportunity'] }),
+      getField('WhoId', 'reference', { relationshipName: 'Who', referenceTo: ['Contact', 'Lead'] }),
+    ],
+    childRelationships: [],
+  },
+  {
+    name: 'User',
+    fields: [
+      getField('Id', 'id'),
+      getField('Name', 'string'),
+      getField('Email', 'email'),
+      getField('ManagerId', 'reference', { relationshipName: 'Manager', referenceTo: ['User'] }),
+    ],
+    childRelationships: [],
+  },
+];
@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, getFriendlyErrorMessage, getCodeFrame, getKeywordSuggestion } from '../src';
+
+describe('friendly error messages', () => {
+  function getMessage(soql: string, includeCodeFrame = false): string {
+    try {
+      parseQuery(soql);
+    } catch (ex) {
+      return getFriendlyErrorMessage(soql, ex, { includeCodeFrame });
+    }
+  }
+  it('Should suggest a keyword for a misspelled token', () => {
+    expect(getMessage(`SELEC Id FROM Account`)).to.equal(
+      `Unexpected "SELEC" at line 1, column 1. Expected SELECT. Did you mean "SELECT" instead of "SELEC"?`,
+    );
+  });
+  it('Should suggest a keyword for a misspelled token that was parsed as an alias', () => {
+    expect(getMessage(`SELECT Id FORM Account`)).to.equal(
+      `Unexpected "Account" at line 1, column 16. Expected "," or FROM. Did you mean "FROM" instead of "FORM"?`,
+    );
+    expect(getMessage(`SELECT Id FROM Account ORDERBY Name`)).to.include(`Did you mean "ORDER BY" instead of "ORDERBY"?`);
+  });
+  it('Should suggest a date literal including the variable', () => {
+    expect(getMessage(`SELECT Id FROM Account WHERE CreatedDate = LAST_N_DAY:5`)).to.include(
+      `Did you mean "LAST_N_DAYS:5" instead of "LAST_N_DAY:5"?`,
+    );
+  });
+  it('Should describe the expected tokens', () => {
+    expect(getMessage(`SELECT Id FROM Account LIMIT foo`)).to.equal(`Unexpected "foo" at line 1, column 30. Expected a number.`);
+    expect(getMessage(`SELECT Id FROM`)).to.equal(`Unexpected end of query at line 1, column 15. Expected a field or object name.`);
+  });
+  it('Should describe missing parentheses and unexpected characters', () => {
+    expect(getMessage(`SELECT Id FROM Account WHERE (Name = 'a'`)).to.equal(
+      `Missing closing parenthesis ")" in the WHERE clause at line 1, column 41.`,
+    );
+    expect(getMessage(`SELECT Id FROM Account WHERE Name = #`)).to.equal(`Unexpected character "#" at line 1, column 37.`);
+  });
+  it('Should include a code frame', () => {
+    expect(getMessage(`SELECT Id\nFROM Account\nLIMIT foo\nOFFSET 1`, true)).to.equal(
+      [
+        `Unexpected "foo" at line 3, column 7. Expected a number.`,
+        ``,
+        `  1 | SELECT Id`,
+        `  2 | FROM Account`,
+        `> 3 | LIMIT foo`,
+        `    |       ^^^`,
+        `  4 | OFFSET 1`,
+      ].join('\n'),
+    );
+  });
+  it('Should preserve tabs in the code frame', () => {
+    expect(getCodeFrame(`SELECT Id\n\tFROM Account`, 2, 7, 7, 0)).to.equal([`> 2 | \tFROM Account`, `    | \t     ^^^^^^^`].join('\n'));
+  });
+  it('Should only suggest keywords for close matches', () => {
+    expect(getKeywordSuggestion('selct')).to.equal('SELECT');
+    expect(getKeywordSuggestion('GROUPBY')).to.equal('GROUP BY');
+    expect(getKeywordSuggestion('FROM')).to.equal(undefined);
+    expect(getKeywordSuggestion('foo')).to.equal(undefined);
+    expect(getKeywordSuggestion('Account')).to.equal(undefined);
+  });
+});
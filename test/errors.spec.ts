@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, ParseQueryConfig, SoqlSyntaxError, ParsingError, LexingError } from '../src';
+
+describe('parse errors', () => {
+  function getError(soql: string, options?: ParseQueryConfig): any {
+    try {
+      parseQuery(soql, options);
+    } catch (ex) {
+      return ex;
+    }
+  }
+  it('Should throw a ParsingError with the position of the error', () => {
+    const error = getError(`SELECT Id FROM Account WHERE Name = 'a' LIMIT foo`);
+    expect(error).to.be.instanceOf(ParsingError);
+    expect(error).to.be.instanceOf(SoqlSyntaxError);
+    expect(error).to.be.instanceOf(Error);
+    expect(error.name).to.equal('NoViableAltException');
+    expect(error.message).to.equal(
+      `Expecting: one of these possible Token sequences:\n  1. [UNSIGNED_INTEGER]\n  2. [COLON]\nbut found: 'foo'`,
+    );
+    expect(error.line).to.equal(1);
+    expect(error.column).to.equal(47);
+    expect(error.offset).to.equal(46);
+    expect(error.length).to.equal(3);
+    expect(error.expectedTokens).to.deep.equal(['UNSIGNED_INTEGER']);
+    expect(error.foundToken).to.deep.equal({ image: 'foo', tokenType: 'Identifier' });
+    expect(error.previousToken).to.deep.equal({ image: 'LIMIT', tokenType: 'LIMIT' });
+    expect(error.ruleStack).to.deep.equal(['selectStatement', 'limitClause']);
+  });
+  it('Should use the position after the last token if the end of the query was reached', () => {
+    const error = getError(`SELECT Id FROM Account WHERE Name =\n`);
+    expect(error).to.be.instanceOf(ParsingError);
+    expect(error.name).to.equal('NoViableAltException');
+    expect(error.line).to.equal(1);
+    expect(error.column).to.equal(36);
+    expect(error.offset).to.equal(35);
+    expect(error.length).to.equal(0);
+    expect(error.expectedTokens).to.include('StringIdentifier');
+    expect(error.foundToken).to.deep.equal({ image: '', tokenType: 'EOF' });
+  });
+  it('Should throw a LexingError with the position of the error', () => {
+    const error = getError(`SELECT Id FROM Account #`);
+    expect(error).to.be.instanceOf(LexingError);
+    expect(error).to.be.instanceOf(SoqlSyntaxError);
+    expect(error).not.to.be.instanceOf(ParsingError);
+    expect(error.name).to.equal('LexingError');
+    expect(error.message).to.equal('unexpected character: ->#<- at offset: 23, skipped 1 characters. (1:24)');
+    expect(error.line).to.equal(1);
+    expect(error.column).to.equal(24);
+    expect(error.offset).to.equal(23);
+    expect(error.length).to.equal(1);
+    expect(error.expectedTokens).to.deep.equal([]);
+    expect(error.foundToken).to.deep.equal({ image: '#' });
+  });
+  it('Should return the expected tokens for the options that the query was parsed with', () => {
+    const error = getError(`SELECT Id FROM Account WHERE Name =`);
+    getError(`SELECT Id FROM Account WHERE Name =`, { allowApexBindVariables: true });
+    expect(error.expectedTokens).to.not.include('COLON');
+    expect(getError(`SELECT Id FROM Account WHERE Name =`, { allowApexBindVariables: true }).expectedTokens).to.include('COLON');
+  });
+});
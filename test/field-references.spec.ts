@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, ParseQueryConfig, getFieldReferences } from '../src';
+
+describe('get field references', () => {
+  const getReferences = (soql: string, options?: ParseQueryConfig) =>
+    getFieldReferences(parseQuery(soql, options)).map(
+      ({ sObject, field, clause, subqueryDepth }) => `${clause} ${sObject}.${field} ${subqueryDepth}`,
+    );
+
+  it('Should return fields from every clause', () => {
+    expect(
+      getReferences(
+        `SELECT a.Name, COUNT(a.Id) FROM Account a WHERE a.Owner.Name = 'x' AND DISTANCE(Location__c, GEOLOCATION(37.775, -122.418), 'mi') < 20 GROUP BY a.Name, CALENDAR_YEAR(CreatedDate) HAVING COUNT(Id) > 1 ORDER BY a.Name`,
+      ),
+    ).to.deep.equal([
+      'select Account.Name 0',
+      'select Account.Id 0',
+      'where Account.Owner.Name 0',
+      'where Account.Location__c 0',
+      'groupBy Account.Name 0',
+      'groupBy Account.CreatedDate 0',
+      'having Account.Id 0',
+      'orderBy Account.Name 0',
+    ]);
+    expect(
+      getReferences(`SELECT Name FROM Account GROUP BY Name, CALENDAR_YEAR(CreatedDate) HAVING COUNT(Id) > 1`, { legacyGroupBy: true }),
+    ).to.deep.equal(['select Account.Name 0', 'groupBy Account.Name 0', 'groupBy Account.CreatedDate 0', 'having Account.Id 0']);
+  });
+
+  it('Should return fields of subqueries, semi-joins and TYPEOF', () => {
+    const references = getFieldReferences(
+      parseQuery(
+        `SELECT Id, (SELECT c.Email FROM Contacts c), TYPEOF What WHEN Account THEN Phone ELSE Name END FROM Task WHERE WhoId IN (SELECT Id FROM Lead WHERE Status = 'Open')`,
+      ),
+    );
+    expect(references.map(({ sObject, field, clause, subqueryDepth }) => `${clause} ${sObject}.${field} ${subqueryDepth}`)).to.deep.equal([
+      'select Task.Id 0',
+      'select Contacts.Email 1',
+      'select Task.What.Phone 0',
+      'select Task.What.Name 0',
+      'where Task.WhoId 0',
+      'select Lead.Id 1',
+      'where Lead.Status 1',
+    ]);
+    expect(references[2]).to.deep.equal({
+      sObject: 'Task',
+      field: 'What.Phone',
+      relationships: ['What'],
+      fieldName: 'Phone',
+      clause: 'select',
+      subqueryDepth: 0,
+      path: 'fields[2].conditions[0].fieldList[0]',
+      typeofObjectType: 'Account',
+    });
+    expect(references[6].path).to.equal('where.left.valueQuery.where.left');
+  });
+});
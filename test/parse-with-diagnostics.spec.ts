@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, parseQueryWithDiagnostics, SoqlSyntaxError } from '../src';
+import testCases from './test-cases';
+
+describe('parse queries with diagnostics', () => {
+  it('Should return the same query as parseQuery without diagnostics if the query is valid', () => {
+    testCases.forEach(testCase => {
+      const { query, diagnostics } = parseQueryWithDiagnostics(testCase.soql, testCase.options);
+      expect(diagnostics).to.deep.equal([]);
+      expect(query).to.deep.equal(testCase.output);
+    });
+  });
+  it('Should return all parsing errors along with the partial query', () => {
+    const { query, diagnostics } = parseQueryWithDiagnostics(`SELECT Id, FROM Account WHERE Name = `);
+    expect(query.fields).to.deep.equal([{ type: 'Field', field: 'Id' }]);
+    expect(query.sObject).to.equal('Account');
+    expect(diagnostics.length).to.equal(2);
+    expect(diagnostics[0].severity).to.equal('error');
+    expect(diagnostics[0].name).to.equal('NoViableAltException');
+    expect(diagnostics[0].foundToken).to.deep.equal({ image: 'FROM', tokenType: 'FROM' });
+    expect(diagnostics[0].range).to.deep.equal({
+      startOffset: 11,
+      endOffset: 14,
+      startLine: 1,
+      startColumn: 12,
+      endLine: 1,
+      endColumn: 15,
+    });
+    expect(diagnostics[0].expectedTokens).to.include('Identifier');
+    expect(diagnostics[1].foundToken).to.deep.equal({ image: '', tokenType: 'EOF' });
+    expect(diagnostics[1].expectedTokens).to.include.members(['StringIdentifier', 'NULL']);
+    expect(diagnostics[1].expectedTokens).to.not.include('Colon');
+  });
+  it('Should use the same position as parseQuery for errors at the end of the query', () => {
+    const soql = `SELECT Id FROM Account\nWHERE Name =  `;
+    const { diagnostics } = parseQueryWithDiagnostics(soql);
+    let error: SoqlSyntaxError;
+    try {
+      parseQuery(soql);
+    } catch (ex) {
+      error = ex;
+    }
+    expect(diagnostics[0].range).to.deep.equal({
+      startOffset: error.offset,
+      endOffset: error.offset,
+      startLine: error.line,
+      startColumn: error.column,
+      endLine: error.line,
+      endColumn: error.column,
+    });
+    expect(diagnostics[0].range).to.deep.equal({
+      startOffset: 35,
+      endOffset: 35,
+      startLine: 2,
+      startColumn: 13,
+      endLine: 2,
+      endColumn: 13,
+    });
+  });
+  it('Should return the fields if the query is incomplete', () => {
+    const { query, diagnostics } = parseQueryWithDiagnostics(`SELECT Id, Name FROM `);
+    expect(query.fields).to.deep.equal([
+      { type: 'Field', field: 'Id' },
+      { type: 'Field', field: 'Name' },
+    ]);
+    expect(query).to.not.have.property('sObject');
+    expect(diagnostics.length).to.equal(2);
+    expect(diagnostics[0].expectedTokens).to.deep.equal(['Identifier']);
+    expect(diagnostics[0].range.startOffset).to.equal(20);
+    expect(diagnostics[1].severity).to.equal('warning');
+    expect(diagnostics[1].name).to.equal('OmittedNode');
+    expect(diagnostics[1].range.startOffset).to.equal(16);
+  });
+  it('Should return a warning for each clause that was omitted from the partial query', () => {
+    const { query, diagnostics } = parseQueryWithDiagnostics('SELECT Id FROM Account ORDER BY');
+    expect(query).to.deep.equal({ fields: [{ type: 'Field', field: 'Id' }], sObject: 'Account' });
+    expect(diagnostics.map(diagnostic => diagnostic.severity)).to.deep.equal(['error', 'warning']);
+    expect(diagnostics[1].message).to.contain('orderByClause');
+  });
+  it('Should return lexing and parsing errors', () => {
+    const { query, diagnostics } = parseQueryWithDiagnostics(`SELECT Id FROM Account # WHERE Name = 'foo' AND (Id = '1'`);
+    expect(query.sObject).to.equal('Account');
+    expect(diagnostics.map(diagnostic => diagnostic.name)).to.deep.equal(['LexingError', 'MismatchedTokenException']);
+    expect(diagnostics[0].foundToken).to.deep.equal({ image: '#' });
+    expect(diagnostics[0].range.startOffset).to.equal(23);
+    expect(diagnostics[1].expectedTokens).to.include('R_PAREN');
+  });
+  it('Should return a diagnostic for an empty query', () => {
+    const { diagnostics } = parseQueryWithDiagnostics('');
+    expect(diagnostics.length).to.equal(1);
+    expect(diagnostics[0].expectedTokens).to.deep.equal(['SELECT']);
+  });
+});
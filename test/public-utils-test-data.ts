@@ -347,4 +347,34 @@ export const testCases: FlattenedObjTestCase[] = [
       SBQQ__Quote__c: 'a1j50000004BBOmAAO',
     },
   },
+  {
+    testCase: 11,
+    expectedFields: ['expr0', 'Name'],
+    query: {
+      fields: [
+        {
+          type: 'FieldFunctionExpression',
+          functionName: 'COUNT',
+          parameters: ['Id'],
+          isAggregateFn: true,
+          rawValue: 'Count(Id)',
+        },
+        {
+          type: 'FieldRelationship',
+          field: 'Name',
+          relationships: ['Account'],
+          rawValue: 'Account.Name',
+        },
+      ],
+      sObject: 'Opportunity',
+      groupBy: [
+        { fn: { functionName: 'CALENDAR_YEAR', parameters: ['CloseDate'], rawValue: 'CALENDAR_YEAR(CloseDate)' } },
+        { field: 'Account.Name' },
+      ],
+    },
+    sfdcObj: {
+      expr0: 1,
+      Name: 'Acme',
+    },
+  },
 ];
@@ -183,6 +183,12 @@ describe('getField', () => {
       });
     });
   });
+  it('Should compose FieldFieldsFunction', () => {
+    expect(utils.getField({ scope: 'ALL' })).to.deep.equal({
+      type: 'FieldFieldsFunction',
+      scope: 'ALL',
+    });
+  });
   it('Should fail with invalid combination of data', () => {
     expect(() => utils.getField({})).to.throw();
     expect(() => utils.getField({ objectPrefix: 'foo' } as any)).to.throw(TypeError);
@@ -216,6 +222,23 @@ describe('getFlattenedFields', () => {
     });
   });
 
+  it(`Should expand FIELDS() against the provided field list`, () => {
+    const query: Query = {
+      fields: [
+        { type: 'Field', field: 'Id' },
+        { type: 'FieldFieldsFunction', scope: 'CUSTOM' },
+      ],
+      sObject: 'Account',
+    };
+    const fieldList = ['Id', 'Name', 'Region__c', 'ns__Score__c'];
+    expect(utils.getFlattenedFields(query, false, fieldList)).to.deep.equal(['Id', 'Region__c', 'ns__Score__c']);
+    query.fields[1] = { type: 'FieldFieldsFunction', scope: 'STANDARD' };
+    expect(utils.getFlattenedFields(query, false, fieldList)).to.deep.equal(['Id', 'Name']);
+    query.fields[1] = { type: 'FieldFieldsFunction', scope: 'ALL' };
+    expect(utils.getFlattenedFields(query, false, fieldList)).to.deep.equal(fieldList);
+    expect(utils.getFlattenedFields(query)).to.deep.equal(['Id']);
+  });
+
   it(`Should allow a FieldSubquery to be passed in`, () => {
     const fieldSubquery: FieldSubquery = {
       type: 'FieldSubquery',
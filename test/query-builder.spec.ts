@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, formatQuery, select, getField, QueryBuilder } from '../src';
+
+describe('query builder', () => {
+  it('Should build a query with each clause', () => {
+    const query = select('Id', 'Name', 'Owner.Name')
+      .from('Account')
+      .where({ field: 'Industry', operator: '=', value: 'Technology', literalType: 'STRING' })
+      .subquery(select('Id', 'Email').from('Contacts').limit(5))
+      .orderBy('Name', 'DESC', 'LAST')
+      .limit(10)
+      .offset(20)
+      .toQuery();
+    expect(query).to.deep.equal({
+      fields: [
+        { type: 'Field', field: 'Id' },
+        { type: 'Field', field: 'Name' },
+        { type: 'FieldRelationship', field: 'Name', relationships: ['Owner'] },
+        {
+          type: 'FieldSubquery',
+          subquery: {
+            fields: [
+              { type: 'Field', field: 'Id' },
+              { type: 'Field', field: 'Email' },
+            ],
+            limit: 5,
+            relationshipName: 'Contacts',
+          },
+        },
+      ],
+      sObject: 'Account',
+      where: { left: { field: 'Industry', operator: '=', value: 'Technology', literalType: 'STRING' } },
+      orderBy: [{ field: 'Name', order: 'DESC', nulls: 'LAST' }],
+      limit: 10,
+      offset: 20,
+    });
+    expect(composeQuery(query)).to.equal(
+      `SELECT Id, Name, Owner.Name, (SELECT Id, Email FROM Contacts LIMIT 5) FROM Account WHERE Industry = 'Technology' ORDER BY Name DESC NULLS LAST LIMIT 10 OFFSET 20`,
+    );
+  });
+
+  it('Should group conditions with parentheses based on the order of and() and or()', () => {
+    const soql = select('Id')
+      .from('Account')
+      .where({ field: 'Industry', operator: '=', value: 'Technology', literalType: 'STRING' })
+      .and({ field: 'Type', operator: 'IN', value: ['Customer', 'Partner'], literalType: 'STRING' })
+      .or(parseQuery(`SELECT Id FROM Account WHERE Name LIKE 'Acme%' AND NOT (Rating = 'Hot' OR Rating = 'Warm')`).where)
+      .and(parseQuery('SELECT Id FROM Account WHERE NumberOfEmployees > 10 OR AnnualRevenue > 1000').where)
+      .toSoql();
+    expect(soql).to.equal(
+      `SELECT Id FROM Account WHERE ((Industry = 'Technology' AND Type IN ('Customer', 'Partner')) OR (Name LIKE 'Acme%' AND NOT (Rating = 'Hot' OR Rating = 'Warm'))) AND (NumberOfEmployees > 10 OR AnnualRevenue > 1000)`,
+    );
+    expect(parseQuery(soql).where.left.openParen).to.equal(2);
+  });
+
+  it('Should build aggregate queries and format the output', () => {
+    const builder = new QueryBuilder()
+      .select('Industry', { type: 'FieldFunctionExpression', functionName: 'COUNT', parameters: ['Id'] })
+      .from('Account', 'a')
+      .groupBy('Industry')
+      .having({ fn: { functionName: 'COUNT', parameters: ['Id'] }, operator: '>', value: '1', literalType: 'INTEGER' });
+    expect(builder.toSoql()).to.equal('SELECT Industry, COUNT(Id) FROM Account a GROUP BY Industry HAVING COUNT(Id) > 1');
+    expect(builder.toSoql({ fieldMaxLineLength: 1 })).to.equal(
+      formatQuery('SELECT Industry, COUNT(Id) FROM Account a GROUP BY Industry HAVING COUNT(Id) > 1', {
+        fieldMaxLineLength: 1,
+      }),
+    );
+  });
+
+  it('Should group and order by fields and functions', () => {
+    const calendarYear = getField({ functionName: 'CALENDAR_YEAR', parameters: ['CreatedDate'] });
+    const query = select(calendarYear, getField({ functionName: 'COUNT', parameters: ['Id'] }))
+      .from('Opportunity')
+      .groupBy(calendarYear, 'Account.Name')
+      .orderBy(calendarYear, 'DESC')
+      .orderBy({ functionName: 'COUNT', parameters: ['Id'] })
+      .orderBy(getField({ field: 'Name', relationships: ['Account'] }));
+    expect(query.toSoql()).to.equal(
+      'SELECT CALENDAR_YEAR(CreatedDate), COUNT(Id) FROM Opportunity GROUP BY CALENDAR_YEAR(CreatedDate), Account.Name ' +
+        'ORDER BY CALENDAR_YEAR(CreatedDate) DESC, COUNT(Id), Account.Name',
+    );
+    expect(() => select('Id').groupBy(getField({ subquery: { relationshipName: 'Contacts', fields: [] } }))).to.throw(
+      'FieldSubquery cannot be used in the GROUP BY clause',
+    );
+  });
+
+  it('Should throw an error if the query is incomplete', () => {
+    expect(() => select('Id').toQuery()).to.throw('The object to query must be set with from() before the query can be built');
+    expect(() => new QueryBuilder().from('Account').toQuery()).to.throw('At least one field must be selected');
+  });
+});
@@ -0,0 +1,9 @@
+import { SObjectIndexMetadata } from '../src/api/api-models';
+
+export const indexMetadata: { [sObject: string]: SObjectIndexMetadata } = {
+  Account: {
+    recordCount: 20000000,
+    customIndexes: ['Region__c'],
+    fieldSelectivity: { Region__c: 0.2, CreatedDate: 0.001 },
+  },
+};
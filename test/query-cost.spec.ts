@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, estimateQueryCost, getSelectivityThreshold } from '../src';
+import { indexMetadata } from './query-cost-test-data';
+
+describe('estimate query cost', () => {
+  const estimate = (soql: string) => estimateQueryCost(parseQuery(soql), indexMetadata);
+
+  it('Should calculate the selectivity threshold for each index type', () => {
+    expect(getSelectivityThreshold('STANDARD', 500000)).to.equal(150000);
+    expect(getSelectivityThreshold('STANDARD', 20000000)).to.equal(1000000);
+    expect(getSelectivityThreshold('CUSTOM', 500000)).to.equal(50000);
+    expect(getSelectivityThreshold('CUSTOM', 3000000)).to.equal(200000);
+    expect(getSelectivityThreshold('CUSTOM', 20000000)).to.equal(333333);
+  });
+
+  it('Should return a table scan if there is no where clause', () => {
+    expect(estimate('SELECT Id FROM Account')).to.deep.equal({
+      sObject: 'Account',
+      recordCount: 20000000,
+      estimatedRows: 20000000,
+      isSelective: false,
+      leadingOperation: 'TABLE_SCAN',
+      relativeCost: 20,
+      conditions: [],
+    });
+  });
+
+  it('Should use the index of a selective condition', () => {
+    const output = estimate("SELECT Id FROM Account WHERE Id = '0010000000000001'");
+    expect(output.isSelective).to.equal(true);
+    expect(output.leadingOperation).to.equal('INDEX');
+    expect(output.estimatedRows).to.equal(1);
+    expect(output.conditions).to.deep.equal([
+      {
+        field: 'Id',
+        operator: '=',
+        path: 'where.left',
+        usesIndex: true,
+        indexType: 'STANDARD',
+        estimatedRows: 1,
+        selectivityThreshold: 1000000,
+        isSelective: true,
+      },
+    ]);
+  });
+
+  it('Should combine conditions with AND and OR', () => {
+    const customIndex = estimate("SELECT Id FROM Account WHERE Region__c = 'EMEA'");
+    expect(customIndex.isSelective).to.equal(false);
+    expect(customIndex.conditions[0].indexType).to.equal('CUSTOM');
+    expect(customIndex.conditions[0].reason).to.equal(
+      'Region__c matches an estimated 4000000 records, which exceeds the selectivity threshold of 333333',
+    );
+
+    const and = estimate("SELECT Id FROM Account WHERE Region__c = 'EMEA' AND CreatedDate = LAST_N_DAYS:30");
+    expect(and.isSelective).to.equal(true);
+    expect(and.estimatedRows).to.equal(4000);
+    expect(and.relativeCost).to.equal(0.02);
+
+    const or = estimate("SELECT Id FROM Account WHERE Id = '0010000000000001' OR Industry = 'Technology'");
+    expect(or.isSelective).to.equal(false);
+    expect(or.leadingOperation).to.equal('TABLE_SCAN');
+    expect(or.conditions.map(condition => [condition.path, condition.isSelective])).to.deep.equal([
+      ['where.left', true],
+      ['where.right.left', false],
+    ]);
+
+    const orWithIndexes = estimate("SELECT Id FROM Account WHERE Id = '0010000000000001' OR CreatedDate = TODAY");
+    expect(orWithIndexes.isSelective).to.equal(true);
+  });
+
+  it('Should explain why a condition does not use an index', () => {
+    const output = estimate(
+      "SELECT Id FROM Account WHERE Name != 'Acme' AND Name LIKE '%Acme' AND CALENDAR_YEAR(CreatedDate) = 2020 AND Owner.Name = 'Jane' AND NOT (CreatedDate = TODAY)",
+    );
+    expect(output.isSelective).to.equal(false);
+    expect(output.conditions.map(condition => condition.reason)).to.deep.equal([
+      'Negative operator != prevents the use of an index',
+      'LIKE with a leading wildcard prevents the use of an index',
+      'Functions prevent the use of an index',
+      'Fields of related objects do not use an index on the queried object',
+      'NOT prevents the use of an index',
+    ]);
+  });
+
+  it('Should compare operators regardless of their casing', () => {
+    const output = estimate("SELECT Id FROM Account WHERE Name like '%Acme'");
+    expect(output.isSelective).to.equal(false);
+    expect(output.conditions[0].operator).to.equal('like');
+    expect(output.conditions[0].reason).to.equal('LIKE with a leading wildcard prevents the use of an index');
+  });
+
+  it('Should throw an error if index metadata was not provided', () => {
+    expect(() => estimate('SELECT Id FROM Contact')).to.throw('Index metadata was not provided for Contact');
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, lintQuery, applyLintFixes, LintRule, requireLimit } from '../src';
+
+describe('lint queries', () => {
+  const getRules = (soql: string) => lintQuery(parseQuery(soql)).map(finding => finding.rule);
+
+  it('Should not return findings for queries that follow the built-in rules', () => {
+    expect(getRules("SELECT Id, Name FROM Account WHERE Name LIKE 'Acme%' WITH SECURITY_ENFORCED LIMIT 10 OFFSET 10")).to.deep.equal([]);
+    expect(getRules('SELECT Industry, COUNT(Id) FROM Account WITH USER_MODE GROUP BY Industry')).to.deep.equal([]);
+  });
+
+  it('Should report findings for each built-in rule', () => {
+    expect(
+      getRules("SELECT Id, Name, name FROM Account WHERE Name LIKE '%Acme' AND Type != 'Customer' AND Industry NOT IN ('Tech') OFFSET 10"),
+    ).to.deep.equal([
+      'no-leading-wildcard',
+      'no-negative-filter',
+      'no-negative-filter',
+      'require-limit',
+      'no-duplicate-fields',
+      'no-unbounded-offset',
+      'require-security-enforced',
+    ]);
+  });
+
+  it('Should check operators regardless of their casing', () => {
+    expect(getRules("SELECT Id FROM Account WHERE Name like '%Acme' WITH SECURITY_ENFORCED LIMIT 10")).to.deep.equal([
+      'no-leading-wildcard',
+    ]);
+    expect(getRules('SELECT count() FROM Account WITH SECURITY_ENFORCED')).to.deep.equal([]);
+  });
+
+  it('Should check subqueries and semi-join queries', () => {
+    const findings = lintQuery(
+      parseQuery(
+        "SELECT Id, (SELECT Id, Email, Email FROM Contacts) FROM Account WHERE Id IN (SELECT AccountId FROM Case WHERE Subject LIKE '%Error%') WITH SECURITY_ENFORCED LIMIT 10",
+      ),
+    );
+    expect(findings.map(finding => [finding.rule, finding.severity, finding.path])).to.deep.equal([
+      ['no-leading-wildcard', 'warning', 'where.left.valueQuery.where.left'],
+      ['no-duplicate-fields', 'error', 'fields[1].subquery.fields[2]'],
+    ]);
+    expect(findings[1].message).to.equal('Email is selected more than once.');
+  });
+
+  it('Should apply the fix of each finding', () => {
+    const query = parseQuery('SELECT Id, Name, Name, (SELECT Id, Email, Email FROM Contacts) FROM Account LIMIT 10');
+    const findings = lintQuery(query);
+    expect(findings.map(finding => !!finding.fix)).to.deep.equal([true, true, true]);
+    expect(composeQuery(applyLintFixes(query, findings))).to.equal(
+      'SELECT Id, Name, (SELECT Id, Email FROM Contacts) FROM Account LIMIT 10 WITH SECURITY_ENFORCED',
+    );
+    expect(composeQuery(query)).to.equal('SELECT Id, Name, Name, (SELECT Id, Email, Email FROM Contacts) FROM Account LIMIT 10');
+  });
+
+  it('Should allow custom rules and built-in rules with a different severity', () => {
+    const noSelectStar: LintRule = {
+      name: 'no-fields-all',
+      description: 'FIELDS(ALL) should not be used',
+      severity: 'error',
+      check: (query, context) => {
+        query.fields.forEach((field, i) => {
+          if (field.type === 'FieldFieldsFunction' && field.scope === 'ALL') {
+            context.report({
+              message: 'Select the fields that are needed instead of FIELDS(ALL).',
+              path: `fields[${i}]`,
+              fix: currQuery => ({ ...currQuery, fields: [{ type: 'Field', field: 'Id' }] }),
+            });
+          }
+        });
+      },
+    };
+    const query = parseQuery('SELECT FIELDS(ALL) FROM Account');
+    const findings = lintQuery(query, { rules: [noSelectStar, { ...requireLimit, severity: 'error' }] });
+    expect(findings.map(finding => [finding.rule, finding.severity, finding.path])).to.deep.equal([
+      ['no-fields-all', 'error', 'fields[0]'],
+      ['require-limit', 'error', 'limit'],
+    ]);
+    expect(composeQuery(applyLintFixes(query, findings))).to.equal('SELECT Id FROM Account');
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, validateQueryModel, assertValidQueryModel, QueryModelError } from '../src';
+import testCases from './test-cases';
+
+describe('validate query models', () => {
+  it('Should not report problems for parsed queries', () => {
+    testCases.forEach(testCase => {
+      expect(validateQueryModel(parseQuery(testCase.soql, testCase.options)), testCase.soql).to.deep.equal([]);
+    });
+  });
+
+  it('Should report the path of each problem', () => {
+    const query: any = {
+      fields: [
+        { type: 'Field', field: 'Id' },
+        { type: 'FieldRelationship', field: 'Name', relationships: [] },
+        { type: 'Unknown' },
+        { type: 'FieldSubquery', subquery: { fields: [{ type: 'Field', field: 'Id' }] } },
+      ],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Name', operator: '=', value: 'Acme', literalType: 'STRING', openParen: 1 },
+        operator: 'AND',
+        right: { left: { field: 'AnnualRevenue', value: 1000, literalType: 'STRING' } },
+      },
+      orderBy: [{ field: 'Name', order: 'UP' }],
+      limit: -1,
+    };
+    expect(validateQueryModel(query).map(problem => problem.message)).to.deep.equal([
+      'fields[1].relationships must be non-empty',
+      'fields[2].type must be one of Field, FieldFunctionExpression, FieldRelationship, FieldSubquery, FieldTypeof, FieldFieldsFunction',
+      'fields[3].subquery.relationshipName is required',
+      'where.right.left.operator is required',
+      'where.right.left.value must be a string or an array of strings',
+      'where has unbalanced parentheses, each openParen must have a matching closeParen',
+      'orderBy[0].order must be one of ASC, DESC',
+      'limit must be a non-negative integer',
+    ]);
+    expect(validateQueryModel({ fields: [] })).to.deep.equal([
+      { path: 'sObject', message: 'sObject is required' },
+      { path: 'fields', message: 'fields must be non-empty' },
+    ]);
+  });
+
+  it('Should compare operators case-insensitively', () => {
+    const query = parseQuery(`SELECT Id FROM Account WHERE Name like '%a' AND Type not in ('a', 'b')`);
+    expect(validateQueryModel(query)).to.deep.equal([]);
+    expect(composeQuery(query, { strict: true })).to.equal(`SELECT Id FROM Account WHERE Name like '%a' AND Type NOT IN ('a', 'b')`);
+  });
+
+  it('Should validate with record visibility', () => {
+    const query: any = {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      withRecordVisibility: { maxDescriptorPerRecord: -1, supportsDomains: 'true', supportsAll: true },
+    };
+    expect(validateQueryModel(query).map(problem => problem.message)).to.deep.equal([
+      'withRecordVisibility.supportsAll is not supported, must be one of maxDescriptorPerRecord, supportsDomains, supportsDelegates',
+      'withRecordVisibility.maxDescriptorPerRecord must be a non-negative integer',
+      'withRecordVisibility.supportsDomains must be a boolean',
+    ]);
+    query.withRecordVisibility = {};
+    expect(() => composeQuery(query, { strict: true })).to.throw(
+      QueryModelError,
+      'withRecordVisibility must have at least one of maxDescriptorPerRecord, supportsDomains, supportsDelegates',
+    );
+    query.withRecordVisibility = { maxDescriptorPerRecord: 100, supportsDelegates: false };
+    expect(validateQueryModel(query)).to.deep.equal([]);
+  });
+
+  it('Should throw an error when composing an invalid query in strict mode', () => {
+    const query: any = {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: { left: { field: 'Name', value: `'Acme'` } },
+    };
+    expect(composeQuery(query)).to.equal(`SELECT Id FROM Account WHERE Name undefined 'Acme'`);
+    expect(() => composeQuery(query, { strict: true })).to.throw(QueryModelError, 'where.left.operator is required');
+    let error: QueryModelError;
+    try {
+      assertValidQueryModel(query);
+    } catch (ex) {
+      error = ex;
+    }
+    expect(error.problems).to.deep.equal([{ path: 'where.left.operator', message: 'where.left.operator is required' }]);
+    query.where.left.operator = '=';
+    expect(composeQuery(query, { strict: true })).to.equal(`SELECT Id FROM Account WHERE Name = 'Acme'`);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, Query, bindParameters, analyzeStringLiterals, escapeSoqlString } from '../src';
+
+describe('bind parameters and escape strings', () => {
+  const parseWithBindVariables = (soql: string) => parseQuery(soql, { allowApexBindVariables: true });
+
+  it('Should escape backslashes, quotes and control characters', () => {
+    expect(escapeSoqlString(`O'Brien`)).to.equal(`O\\'Brien`);
+    expect(escapeSoqlString('C:\\temp\n\t\u0000')).to.equal('C:\\\\temp\\n\\t\\u0000');
+    expect(escapeSoqlString('Café')).to.equal('Café');
+  });
+
+  it('Should escape string values that are not quoted when composing', () => {
+    const query: Query = {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Name', operator: '=', value: `x' OR Name != '`, literalType: 'STRING' },
+        operator: 'AND',
+        right: { left: { field: 'Type', operator: 'IN', value: [`'Customer'`, 'Partner\nOther'], literalType: 'STRING' } },
+      },
+    };
+    expect(composeQuery(query)).to.equal(
+      `SELECT Id FROM Account WHERE Name = 'x\\' OR Name != \\'' AND Type IN ('Customer', 'Partner\\nOther')`,
+    );
+    const soql = `SELECT Id FROM Account WHERE Name = 'O\\'Brien' AND Description LIKE '%\\%%'`;
+    expect(composeQuery(parseQuery(soql))).to.equal(soql);
+  });
+
+  it('Should replace bind variables with escaped values', () => {
+    const query = parseWithBindVariables(
+      "SELECT Id, (SELECT Id FROM Contacts WHERE Email = :email) FROM Account WHERE Name = :name AND Id IN :ids AND Type IN ('Customer', :type) AND CreatedDate > :since AND IsDeleted = :isDeleted AND AnnualRevenue > :revenue AND ParentId = :parentId LIMIT :pageSize",
+    );
+    const output = bindParameters(query, {
+      email: 'jane@example.com',
+      name: `x' OR Name != '`,
+      ids: ['0010000000000001', '0010000000000002'],
+      type: 'Partner',
+      since: new Date(Date.UTC(2020, 0, 1)),
+      isDeleted: false,
+      revenue: 1.5,
+      parentId: null,
+      pageSize: 10,
+    });
+    expect(composeQuery(output)).to.equal(
+      `SELECT Id, (SELECT Id FROM Contacts WHERE Email = 'jane@example.com') FROM Account WHERE Name = 'x\\' OR Name != \\'' AND Id IN ('0010000000000001', '0010000000000002') AND Type IN ('Customer', 'Partner') AND CreatedDate > 2020-01-01T00:00:00Z AND IsDeleted = FALSE AND AnnualRevenue > 1.5 AND ParentId = NULL LIMIT 10`,
+    );
+    expect(output.where.right.left.literalType).to.deep.equal(['STRING', 'STRING']);
+    expect(query.where.left.value).to.equal('name');
+  });
+
+  it('Should throw an error if a parameter is missing or cannot be used', () => {
+    const query = parseWithBindVariables('SELECT Id FROM Account WHERE Name = :name AND Id IN :ids LIMIT :pageSize');
+    expect(() => bindParameters(query, { name: 'Acme', ids: ['001'] })).to.throw(
+      'A parameter was not provided for the bind variable :pageSize',
+    );
+    expect(() => bindParameters(query, { name: ['Acme'], ids: ['001'], pageSize: 10 })).to.throw(
+      ':name is a list, which can only be used with IN, NOT IN, INCLUDES, EXCLUDES',
+    );
+    expect(() => bindParameters(query, { name: 'Acme', ids: [], pageSize: 10 })).to.throw(':ids is an empty list');
+    expect(() => bindParameters(query, { name: 'Acme', ids: ['001'], pageSize: 1.5 })).to.throw(':pageSize must be a non-negative integer');
+  });
+
+  it('Should find unescaped control characters and invalid escape sequences in string literals', () => {
+    const diagnostics = analyzeStringLiterals(`SELECT Id FROM Account WHERE Name = 'Acme\nInc' AND Name = 'C:\\Users' AND Name = 'Acme`);
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.loc.startLine, diagnostic.loc.startColumn])).to.deep.equal([
+      ['UNESCAPED_CONTROL_CHARACTER', 1, 37],
+      ['INVALID_ESCAPE_SEQUENCE', 2, 20],
+      ['UNTERMINATED_STRING_LITERAL', 2, 39],
+    ]);
+    expect(diagnostics[0].suggestion).to.equal(`'Acme\\nInc'`);
+    expect(diagnostics[1].message).to.equal('\\U is not a valid escape sequence.');
+    expect(analyzeStringLiterals(`SELECT Id FROM Account WHERE Name = 'O\\'Brien\\n' AND Name LIKE 'a\\_b\\u00e9'`)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, ParseQueryConfig, querySchema, isQuery } from '../src';
+import testCases from './test-cases';
+
+describe('query schema', () => {
+  it('Should match parsed queries', () => {
+    // the schema is maintained by hand, so every parse option is checked to catch differences with the data models
+    const parseOptions: ParseQueryConfig[] = [{}, { includeLocations: true }, { legacyGroupBy: true }, { includeConditionGroups: true }];
+    testCases.forEach(testCase => {
+      parseOptions.forEach(options => {
+        const query = parseQuery(testCase.soql, { ...testCase.options, ...options });
+        expect(isQuery(query), `${testCase.soql} ${JSON.stringify(options)}`).to.equal(true);
+        expect(isQuery(JSON.parse(JSON.stringify(query))), `${testCase.soql} ${JSON.stringify(options)}`).to.equal(true);
+      });
+    });
+  });
+
+  it('Should match operators case-insensitively', () => {
+    expect(isQuery(parseQuery(`SELECT Id FROM Account WHERE Name like 'a%' AND Type Includes ('a')`))).to.equal(true);
+    const where = { left: { field: 'Name', operator: 'LIKES', value: `'a%'`, literalType: 'STRING' } };
+    expect(isQuery({ sObject: 'Account', fields: [{ type: 'Field', field: 'Id' }], where })).to.equal(false);
+    expect(new RegExp(querySchema.definitions.Condition.properties.operator.pattern).test('Not In')).to.equal(true);
+  });
+
+  it('Should not match malformed queries', () => {
+    const field = { type: 'Field', field: 'Id' };
+    expect(isQuery(null)).to.equal(false);
+    expect(isQuery([])).to.equal(false);
+    expect(isQuery({ fields: [field] })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [{ ...field, extra: true }] })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [{ type: 'FieldRelationship', field: 'Name', relationships: [] }] })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [field], where: { left: { field: 'Name', value: `'Acme'` } } })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [field], limit: 1.5 })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [] })).to.equal(false);
+    expect(isQuery({ sObject: '', fields: [{ type: 'Field', field: '' }] })).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [field], where: { left: { field: 'Name', operator: '=' } } })).to.equal(false);
+    expect(
+      isQuery({ sObject: 'Account', fields: [field], where: { left: { field: 'Name', operator: '=', value: `'a'`, openParen: 2 } } }),
+    ).to.equal(false);
+    expect(isQuery({ sObject: 'Account', fields: [field], limit: { type: 'ApexBindVariable', value: 'pageSize' } })).to.equal(true);
+  });
+
+  it('Should be serializable as JSON', () => {
+    const schema = JSON.parse(JSON.stringify(querySchema));
+    expect(schema).to.deep.equal(querySchema);
+    expect(schema.$schema).to.equal('http://json-schema.org/draft-07/schema#');
+    expect(Object.keys(schema.definitions)).to.include.members([
+      'Query',
+      'Subquery',
+      'FieldType',
+      'WhereClause',
+      'HavingClause',
+      'OrderByClause',
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, composeQuery, walkQuery, transformQuery } from '../src';
+
+describe('walk and transform queries', () => {
+  const soql = `SELECT Id, FORMAT(MAX(Amount)), (SELECT Id, Secret__c FROM Contacts) FROM Opportunity WHERE (Secret__c = 'a' OR Name = 'b') AND Id IN (SELECT OpportunityId FROM OpportunityLineItem) GROUP BY CALENDAR_YEAR(CloseDate) ORDER BY Name`;
+
+  it('Should visit every node with the path and parent', () => {
+    const visited: string[] = [];
+    walkQuery(parseQuery(soql), {
+      Query: {
+        enter: (query, { path }) => visited.push(`enter Query ${path}`),
+        leave: (query, { path }) => visited.push(`leave Query ${path}`),
+      },
+      Subquery: (subquery, { path, parent }) => visited.push(`Subquery ${path} ${parent.type}`),
+      Field: (field, { path }) => visited.push(`Field ${path} ${field.field}`),
+      FieldFunctionExpression: (fn, { path }) => visited.push(`FieldFunctionExpression ${path} ${fn.functionName}`),
+      Condition: (condition, { path }) => visited.push(`Condition ${path} ${condition.field}`),
+      GroupBy: (groupBy, { path }) => visited.push(`GroupBy ${path}`),
+      FunctionExp: (fn, { path, parent }) => visited.push(`FunctionExp ${path} ${fn.functionName} ${parent.type}`),
+      OrderBy: (orderBy, { path }) => visited.push(`OrderBy ${path}`),
+    });
+    expect(visited).to.deep.equal([
+      'enter Query ',
+      'Field fields[0] Id',
+      'FieldFunctionExpression fields[1] FORMAT',
+      'FieldFunctionExpression fields[1].parameters[0] MAX',
+      'Subquery fields[2].subquery FieldSubquery',
+      'Field fields[2].subquery.fields[0] Id',
+      'Field fields[2].subquery.fields[1] Secret__c',
+      'Condition where.left Secret__c',
+      'Condition where.right.left Name',
+      'Condition where.right.right.left Id',
+      'enter Query where.right.right.left.valueQuery',
+      'Field where.right.right.left.valueQuery.fields[0] OpportunityId',
+      'leave Query where.right.right.left.valueQuery',
+      'GroupBy groupBy[0]',
+      'FunctionExp groupBy[0].fn CALENDAR_YEAR GroupBy',
+      'OrderBy orderBy',
+      'leave Query ',
+    ]);
+  });
+
+  it('Should skip children if enter returns false', () => {
+    const fields: string[] = [];
+    walkQuery(parseQuery(soql), {
+      Subquery: () => false,
+      Query: { enter: (query, { path }) => !path },
+      Field: field => fields.push(field.field),
+    });
+    expect(fields).to.deep.equal(['Id']);
+  });
+
+  it('Should replace and remove nodes without modifying the query', () => {
+    const query = parseQuery(soql, { includeConditionGroups: true });
+    const original = JSON.stringify(query);
+    const output = transformQuery(query, {
+      Field: field => (field.field === 'Secret__c' ? null : undefined),
+      Condition: condition => (condition.field === 'Secret__c' ? null : undefined),
+      OrderBy: { leave: orderBy => ({ ...orderBy, order: 'DESC' }) },
+    });
+    expect(composeQuery(output)).to.equal(
+      `SELECT Id, FORMAT(MAX(Amount)), (SELECT Id FROM Contacts) FROM Opportunity WHERE Name = 'b' AND Id IN (SELECT OpportunityId FROM OpportunityLineItem) GROUP BY CALENDAR_YEAR(CloseDate) ORDER BY Name DESC`,
+    );
+    expect(output.whereGroup).to.deep.equal(parseQuery(composeQuery(output), { includeConditionGroups: true }).whereGroup);
+    expect(JSON.stringify(query)).to.equal(original);
+    expect(transformQuery(query, {})).to.equal(query);
+  });
+
+  it('Should remove parents of required nodes that are removed', () => {
+    const output = transformQuery(parseQuery(soql), {
+      Subquery: () => null,
+      Query: (query, { path }) => (path ? null : undefined),
+      FunctionExp: () => null,
+      Condition: condition => (condition.field === 'Name' ? { ...condition, value: `'c'` } : undefined),
+    });
+    expect(composeQuery(output)).to.equal(
+      `SELECT Id, FORMAT(MAX(Amount)) FROM Opportunity WHERE (Secret__c = 'a' OR Name = 'c') ORDER BY Name`,
+    );
+    expect(() => transformQuery(parseQuery(soql), { Query: () => null })).to.throw('The root query cannot be removed');
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, validateQuery, Query } from '../src';
+
+describe('validate query restrictions', () => {
+  const getCodes = (soql: string) => validateQuery(parseQuery(soql)).map(diagnostic => diagnostic.code);
+
+  it('Should not return diagnostics for valid queries', () => {
+    expect(getCodes('SELECT Id, (SELECT Id FROM Contacts) FROM Account ORDER BY Name LIMIT 10 OFFSET 2000')).to.deep.equal([]);
+    expect(getCodes('SELECT Name, COUNT(Id) FROM Account GROUP BY Name HAVING COUNT(Id) > 1')).to.deep.equal([]);
+    expect(getCodes('SELECT COUNT() FROM Account')).to.deep.equal([]);
+    expect(getCodes('SELECT a.Account.Owner.Manager.Manager.Name FROM Contact a')).to.deep.equal([]);
+  });
+
+  it('Should validate OFFSET and FOR UPDATE', () => {
+    expect(getCodes('SELECT Id FROM Account OFFSET 2001')).to.deep.equal(['OFFSET_TOO_LARGE']);
+    expect(getCodes('SELECT Id FROM Account ORDER BY Name FOR UPDATE')).to.deep.equal(['FOR_UPDATE_WITH_ORDER_BY']);
+  });
+
+  it('Should validate aggregate queries', () => {
+    expect(getCodes('SELECT Name, toLabel(Type), COUNT(Id) FROM Account')).to.deep.equal([
+      'NON_GROUPED_FIELD_WITH_AGGREGATE',
+      'NON_GROUPED_FIELD_WITH_AGGREGATE',
+    ]);
+    expect(getCodes('SELECT COUNT(), Name FROM Account')).to.deep.equal(['COUNT_WITH_OTHER_FIELDS']);
+    const query: Query = {
+      sObject: 'Account',
+      fields: [{ type: 'FieldFunctionExpression', functionName: 'COUNT', parameters: ['Id'] }],
+      having: { left: { fn: { functionName: 'COUNT', parameters: ['Id'] }, operator: '>', value: '1', literalType: 'INTEGER' } },
+    };
+    expect(validateQuery(query)).to.deep.equal([
+      {
+        code: 'HAVING_WITHOUT_GROUP_BY',
+        severity: 'error',
+        message: 'HAVING can only be used with GROUP BY.',
+        path: 'having',
+        loc: undefined,
+      },
+    ]);
+  });
+
+  it('Should validate subqueries', () => {
+    const subqueries = Array.from({ length: 21 }, (_, i) => `(SELECT Id FROM Relationship${i}__r)`).join(', ');
+    expect(getCodes(`SELECT Id, ${subqueries} FROM Account`)).to.deep.equal(['TOO_MANY_SUBQUERIES']);
+    expect(validateQuery(parseQuery('SELECT Id, (SELECT Id, (SELECT Id FROM Cases) FROM Contacts) FROM Account'))).to.deep.equal([
+      {
+        code: 'NESTED_SUBQUERY',
+        severity: 'error',
+        message: 'Subqueries cannot be nested within another subquery.',
+        path: 'fields[1].subquery.fields[1]',
+        loc: undefined,
+      },
+    ]);
+  });
+
+  it('Should validate the depth of relationships in every clause', () => {
+    const diagnostics = validateQuery(
+      parseQuery('SELECT Id, A.B.C.D.E.F.Name FROM Contact WHERE A.B.C.D.E.F.Id = NULL ORDER BY A.B.C.D.E.F.Name', {
+        includeLocations: true,
+      }),
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.code)).to.deep.equal([
+      'RELATIONSHIP_TOO_DEEP',
+      'RELATIONSHIP_TOO_DEEP',
+      'RELATIONSHIP_TOO_DEEP',
+    ]);
+    expect(diagnostics.map(diagnostic => diagnostic.path)).to.deep.equal(['fields[1]', 'where.left', 'orderBy']);
+    expect(diagnostics[0].message).to.equal('A.B.C.D.E.F.Name exceeds the maximum of 5 levels of parent relationships.');
+    expect(diagnostics[0].loc.startOffset).to.equal(11);
+  });
+
+  it('Should validate the depth of relationships in the legacy group by clause', () => {
+    const soql =
+      'SELECT A.B.C.D.E.F.Name, CALENDAR_YEAR(A.B.C.D.E.F.CreatedDate), COUNT(Id) FROM Contact ' +
+      'GROUP BY A.B.C.D.E.F.Name, CALENDAR_YEAR(A.B.C.D.E.F.CreatedDate) HAVING COUNT(A.B.C.D.E.F.Id) > 1';
+    const diagnostics = validateQuery(parseQuery(soql, { legacyGroupBy: true }));
+    expect(diagnostics.map(diagnostic => diagnostic.path)).to.deep.equal([
+      'fields[0]',
+      'fields[1]',
+      'groupBy',
+      'groupBy',
+      'groupBy.having.left',
+    ]);
+    expect(diagnostics[3].message).to.equal('A.B.C.D.E.F.CreatedDate exceeds the maximum of 5 levels of parent relationships.');
+  });
+
+  it('Should validate semi-join queries', () => {
+    const diagnostics = validateQuery(parseQuery('SELECT Id FROM Account WHERE Id IN (SELECT AccountId FROM Contact OFFSET 3000)'));
+    expect(diagnostics.map(diagnostic => diagnostic.path)).to.deep.equal(['where.left.valueQuery.offset']);
+  });
+});
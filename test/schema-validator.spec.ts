@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseQuery, SchemaValidator } from '../src';
+import { describeResults } from './describe-results-test-data';
+
+describe('validate queries against describe results', () => {
+  const schemaValidator = new SchemaValidator(describeResults);
+  const getMessages = (soql: string) => schemaValidator.validate(parseQuery(soql)).map(diagnostic => diagnostic.message);
+
+  it('Should not return diagnostics for valid queries', () => {
+    expect(
+      getMessages(
+        'SELECT Id, a.Name, Owner.Manager.Name, (SELECT Id, Email, Account.Parent.Name FROM Contacts) FROM Account a WHERE a.Owner.Name != NULL ORDER BY Name',
+      ),
+    ).to.deep.equal([]);
+    expect(getMessages('SELECT Industry, COUNT(Id) FROM Account GROUP BY Industry HAVING MAX(AnnualRevenue) > 100')).to.deep.equal([]);
+    expect(getMessages('select id, account.name from contact where account.industry = null')).to.deep.equal([]);
+  });
+
+  it('Should validate objects and fields with suggestions for misspelled names', () => {
+    expect(schemaValidator.validate(parseQuery('SELECT Nmae FROM Acount', { includeLocations: true }))).to.deep.equal([
+      {
+        code: 'UNKNOWN_OBJECT',
+        severity: 'error',
+        message: 'Acount is not a known object. Did you mean Account?',
+        path: 'sObject',
+        loc: { startOffset: 12, endOffset: 22, startLine: 1, startColumn: 13, endLine: 1, endColumn: 23 },
+        suggestion: 'Account',
+      },
+    ]);
+    expect(schemaValidator.validate(parseQuery('SELECT Nmae, Foo FROM Account'))).to.deep.equal([
+      {
+        code: 'UNKNOWN_FIELD',
+        severity: 'error',
+        message: 'Nmae is not a field on Account. Did you mean Name?',
+        path: 'fields[0]',
+        loc: undefined,
+        suggestion: 'Name',
+      },
+      {
+        code: 'UNKNOWN_FIELD',
+        severity: 'error',
+        message: 'Foo is not a field on Account.',
+        path: 'fields[1]',
+        loc: undefined,
+      },
+    ]);
+  });
+
+  it('Should resolve relationships through reference fields', () => {
+    expect(getMessages('SELECT Ownr.Name, Owner.Emial, Parent.Owner.Manager.Name, Account.Name FROM Account')).to.deep.equal([
+      'Ownr is not a relationship on Account. Did you mean Owner?',
+      'Emial is not a field on User. Did you mean Email?',
+      'Account is not a relationship on Account.',
+    ]);
+  });
+
+  it('Should validate child relationships and fields in subqueries', () => {
+    const diagnostics = schemaValidator.validate(
+      parseQuery('SELECT Id, (SELECT Id FROM Contact), (SELECT Emal FROM Contacts) FROM Account'),
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.message)).to.deep.equal([
+      'Contact is not a child relationship of Account. Did you mean Contacts?',
+      'Emal is not a field on Contact. Did you mean Email?',
+    ]);
+    expect(diagnostics.map(diagnostic => diagnostic.path)).to.deep.equal([
+      'fields[1].subquery.relationshipName',
+      'fields[2].subquery.fields[0]',
+    ]);
+  });
+
+  it('Should validate TYPEOF types and polymorphic relationships', () => {
+    expect(
+      getMessages('SELECT TYPEOF What WHEN Account THEN Name, Industy WHEN Contact THEN Name END, Who.Name, Whom.Name FROM Task'),
+    ).to.deep.equal([
+      'Industy is not a field on Account. Did you mean Industry?',
+      'Contact is not a valid type for What, expected one of: Account, Opportunity.',
+      'Whom is not a relationship on Task. Did you mean Who?',
+    ]);
+  });
+
+  it('Should validate that fields can be used in each clause', () => {
+    const diagnostics = schemaValidator.validate(
+      parseQuery('SELECT AnnualRevenue, COUNT(Id) FROM Account WHERE Description != NULL GROUP BY AnnualRevenue ORDER BY Description'),
+    );
+    expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.path])).to.deep.equal([
+      ['FIELD_NOT_FILTERABLE', 'where.left'],
+      ['FIELD_NOT_GROUPABLE', 'groupBy[0]'],
+      ['FIELD_NOT_SORTABLE', 'orderBy'],
+    ]);
+  });
+
+  it('Should validate semi-join queries', () => {
+    expect(getMessages('SELECT Id FROM Account WHERE Id IN (SELECT AccountId FROM Opportunity WHERE Stage = NULL)')).to.deep.equal([
+      'Stage is not a field on Opportunity.',
+    ]);
+  });
+
+  it('Should validate literal values against the type of each field', () => {
+    expect(
+      getMessages(
+        "SELECT Id FROM Account WHERE Name = 'Acme' AND NumberOfEmployees > 10 AND AnnualRevenue > USD5000 AND IsPartner = TRUE AND CreatedDate = LAST_N_DAYS:30 AND Industry IN ('Tech', NULL) AND ParentId = NULL",
+      ),
+    ).to.deep.equal([]);
+    const diagnostics = schemaValidator.validate(
+      parseQuery(
+        "SELECT Id FROM Account WHERE IsPartner = 'true' AND Name = 5 AND NumberOfEmployees IN ('5', '6') AND NumberOfEmployees > USD5000 AND IsPartner = 1",
+      ),
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.code)).to.deep.equal([
+      'LITERAL_TYPE_MISMATCH',
+      'LITERAL_TYPE_MISMATCH',
+      'LITERAL_TYPE_MISMATCH',
+      'LITERAL_TYPE_MISMATCH',
+      'LITERAL_TYPE_MISMATCH',
+    ]);
+    expect(diagnostics[0].message).to.equal(
+      "'true' cannot be compared to IsPartner, which is of type boolean. Did you mean IsPartner = true?",
+    );
+    expect(diagnostics.map(diagnostic => diagnostic.suggestion)).to.deep.equal([
+      'IsPartner = true',
+      "Name = '5'",
+      'NumberOfEmployees IN (5, 6)',
+      'NumberOfEmployees > 5000',
+      undefined,
+    ]);
+  });
+
+  it('Should suggest DAY_ONLY() when comparing a datetime field to a date', () => {
+    const [diagnostic] = schemaValidator.validate(parseQuery('SELECT Id FROM Account WHERE CreatedDate = 2020-01-01'));
+    expect(diagnostic.message).to.equal(
+      '2020-01-01 cannot be compared to CreatedDate, which is of type datetime. Use DAY_ONLY(CreatedDate) to compare the date or use a datetime literal, e.x. 2020-01-01T00:00:00Z. Did you mean DAY_ONLY(CreatedDate) = 2020-01-01?',
+    );
+    expect(diagnostic.suggestion).to.equal('DAY_ONLY(CreatedDate) = 2020-01-01');
+    expect(getMessages('SELECT Id FROM Contact WHERE Birthdate > 2020-01-01T00:00:00Z')).to.deep.equal([
+      '2020-01-01T00:00:00Z cannot be compared to Birthdate, which is of type date. Did you mean Birthdate > 2020-01-01?',
+    ]);
+  });
+
+  it('Should validate operators against the type of each field', () => {
+    expect(getMessages("SELECT Id FROM Contact WHERE Interests__c INCLUDES ('Golf;Tennis') AND Name LIKE 'A%'")).to.deep.equal([]);
+    expect(
+      getMessages("SELECT Id FROM Account WHERE Industry INCLUDES ('Tech') AND Name EXCLUDES ('Acme') AND NumberOfEmployees LIKE '5%'"),
+    ).to.deep.equal([
+      "INCLUDES can only be used with multi-select picklist fields, Industry is of type picklist. Did you mean Industry IN ('Tech')?",
+      'EXCLUDES can only be used with multi-select picklist fields, Name is of type string.',
+      'LIKE can only be used with string fields, NumberOfEmployees is of type int.',
+    ]);
+  });
+
+  it('Should validate operators regardless of their casing', () => {
+    expect(getMessages("SELECT Id FROM Account WHERE NumberOfEmployees like '5%' AND Industry includes ('Tech')")).to.deep.equal([
+      'LIKE can only be used with string fields, NumberOfEmployees is of type int.',
+      "INCLUDES can only be used with multi-select picklist fields, Industry is of type picklist. Did you mean Industry IN ('Tech')?",
+    ]);
+  });
+});
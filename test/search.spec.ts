@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import 'mocha';
+import { parseSearch, composeSearch, formatSearch, ParsingError } from '../src';
+import testCasesForSearch from './test-cases-for-search';
+
+describe('parse searches', () => {
+  testCasesForSearch.forEach(testCase => {
+    it(`should correctly parse search test case ${testCase.testCase} - ${testCase.sosl}`, () => {
+      const search = parseSearch(testCase.sosl, testCase.options);
+      expect(testCase.output).to.deep.equal(search);
+    });
+  });
+  it('Should throw a ParsingError for an invalid search group', () => {
+    expect(() => parseSearch('FIND {Acme} IN FOO FIELDS')).to.throw(ParsingError);
+  });
+});
+
+describe('compose searches', () => {
+  testCasesForSearch.forEach(testCase => {
+    it(`should compose search correctly - test case ${testCase.testCase} - ${testCase.sosl}`, () => {
+      const sosl = composeSearch(parseSearch(testCase.sosl, testCase.options));
+      expect(sosl).to.equal(testCase.soslComposed || testCase.sosl);
+    });
+  });
+  it('Should wrap the search term in braces if not already wrapped', () => {
+    const sosl = composeSearch({
+      searchTerm: 'Acme*',
+      returning: [{ sObject: 'Account', fields: [{ type: 'Field', field: 'Id' }], orderBy: [] }],
+    });
+    expect(sosl).to.equal('FIND {Acme*} RETURNING Account(Id)');
+  });
+  it('Should escape the values of WITH clauses', () => {
+    const sosl = composeSearch({
+      searchTerm: 'Acme',
+      withDivision: `x' WITH METADATA = 'LABELS`,
+      withNetwork: ['Network1', `Network'2`],
+      withPricebookId: `O\\'Brien`,
+      withMetadata: 'LABELS',
+    });
+    expect(sosl).to.equal(
+      `FIND {Acme} WITH DIVISION = 'x\\' WITH METADATA = \\'LABELS' WITH NETWORK IN ('Network1', 'Network\\'2') WITH PricebookId = 'O\\'Brien' WITH METADATA = 'LABELS'`,
+    );
+    expect(composeSearch(parseSearch(sosl))).to.equal(sosl);
+  });
+  it('Should compose a returning spec from a condition group', () => {
+    const sosl = composeSearch({
+      searchTerm: '{Acme*}',
+      returning: [
+        {
+          sObject: 'Account',
+          fields: [{ type: 'Field', field: 'Id' }],
+          whereGroup: {
+            operator: 'OR',
+            negated: false,
+            children: [
+              { field: 'Type', operator: '=', value: 'Customer', literalType: 'STRING' },
+              { field: 'Type', operator: '=', value: 'Partner', literalType: 'STRING' },
+            ],
+          },
+        },
+      ],
+    });
+    expect(sosl).to.equal(`FIND {Acme*} RETURNING Account(Id WHERE Type = 'Customer' OR Type = 'Partner')`);
+  });
+});
+
+describe('format searches', () => {
+  it('Should put each clause and returning spec on a new line', () => {
+    const sosl = formatSearch(
+      `FIND {Acme*} IN NAME FIELDS RETURNING Account(Id, Name WHERE Industry = 'Tech' AND Type = 'Customer' ORDER BY Name LIMIT 10), Contact(Id) WITH SNIPPET LIMIT 50`,
+    );
+    expect(sosl).to.equal(
+      `FIND {Acme*}
+IN NAME FIELDS
+RETURNING Account(Id, Name WHERE Industry = 'Tech' AND Type = 'Customer' ORDER BY Name LIMIT 10),
+\tContact(Id)
+WITH SNIPPET
+LIMIT 50`,
+    );
+  });
+});
@@ -299,6 +299,16 @@ FROM Account
 WHERE Name LIKE 'a%'
 OR Name LIKE 'b%'
 OR Name LIKE 'c%'
+`.trim(),
+  },
+  {
+    testCase: 15,
+    soql: `SELECT Id FROM Account WHERE Name = 'a' WITH RecordVisibilityContext (maxDescriptorPerRecord=100, supportsDomains=true) LIMIT 1`,
+    formattedSoql: `SELECT Id
+FROM Account
+WHERE Name = 'a'
+WITH RecordVisibilityContext (maxDescriptorPerRecord=100, supportsDomains=true)
+LIMIT 1
 `.trim(),
   },
 ];
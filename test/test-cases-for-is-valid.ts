@@ -436,5 +436,14 @@ export const testCases: TestCaseForFormat[] = [
     soql: `SELECT sbqq__product__r.name foo, sbqq__quote__c foo1 FROM SBQQ__Quoteline__c group by sbqq__quote__c, sbqq__product__r.name`,
     isValid: true,
   },
+  { testCase: 153, soql: `SELECT Name FROM Account LIMIT :pageSize`, isValid: false },
+  { testCase: 154, soql: `SELECT Name FROM Account LIMIT :pageSize`, isValid: true, options: { allowApexBindVariables: true } },
+  {
+    testCase: 155,
+    soql: `SELECT Name FROM Account WHERE Id IN :new Set<Id>(ids`,
+    isValid: false,
+    options: { allowApexBindVariables: true },
+  },
+  { testCase: 156, soql: `SELECT Name FROM Account WHERE Id = :accounts[0].Id`, isValid: true, options: { allowApexBindVariables: true } },
 ];
 export default testCases;
@@ -0,0 +1,217 @@
+import { Search } from '../src/api/api-models';
+import { ParseQueryConfig } from '../src/parser/parser';
+// Searches obtained from SFDC examples
+// https://developer.salesforce.com/docs/atlas.en-us.soql_sosl.meta/soql_sosl/sforce_api_calls_sosl_examples.htm
+export interface TestCaseForSearch {
+  testCase: number;
+  sosl: string;
+  soslComposed?: string; // used if the composed is known to be different from input
+  options?: ParseQueryConfig;
+  output: Search;
+}
+
+export const testCases: TestCaseForSearch[] = [
+  {
+    testCase: 1,
+    sosl: 'FIND {MyProspect}',
+    output: {
+      searchTerm: '{MyProspect}',
+    },
+  },
+  {
+    testCase: 2,
+    sosl: `FIND {Acme*} IN NAME FIELDS RETURNING Account(Id, Name WHERE Industry = 'Tech' ORDER BY Name LIMIT 10), Contact(Id) WITH SNIPPET LIMIT 50`,
+    output: {
+      searchTerm: '{Acme*}',
+      searchGroup: 'NAME',
+      returning: [
+        {
+          sObject: 'Account',
+          fields: [
+            { type: 'Field', field: 'Id' },
+            { type: 'Field', field: 'Name' },
+          ],
+          where: {
+            left: {
+              field: 'Industry',
+              operator: '=',
+              value: `'Tech'`,
+              literalType: 'STRING',
+            },
+          },
+          orderBy: {
+            field: 'Name',
+          },
+          limit: 10,
+        },
+        {
+          sObject: 'Contact',
+          fields: [{ type: 'Field', field: 'Id' }],
+        },
+      ],
+      withSnippet: {},
+      limit: 50,
+    },
+  },
+  {
+    testCase: 3,
+    sosl: `FIND 'Joe Smith' IN ALL FIELDS RETURNING Contact(Name, toLabel(Title) jobTitle WHERE Email != NULL USING LISTVIEW = Recent ORDER BY Name DESC NULLS LAST LIMIT 5 OFFSET 10), Lead`,
+    output: {
+      searchTerm: `'Joe Smith'`,
+      searchGroup: 'ALL',
+      returning: [
+        {
+          sObject: 'Contact',
+          fields: [
+            { type: 'Field', field: 'Name' },
+            {
+              type: 'FieldFunctionExpression',
+              functionName: 'toLabel',
+              parameters: ['Title'],
+              rawValue: 'toLabel(Title)',
+              alias: 'jobTitle',
+            },
+          ],
+          where: {
+            left: {
+              field: 'Email',
+              operator: '!=',
+              value: 'NULL',
+              literalType: 'NULL',
+            },
+          },
+          usingListView: 'Recent',
+          orderBy: {
+            field: 'Name',
+            order: 'DESC',
+            nulls: 'LAST',
+          },
+          limit: 5,
+          offset: 10,
+        },
+        {
+          sObject: 'Lead',
+        },
+      ],
+    },
+  },
+  {
+    testCase: 4,
+    sosl: `FIND {tourism} RETURNING KnowledgeArticleVersion(Id, Title WHERE PublishStatus = 'Online' AND Language = 'en_US') WITH DATA CATEGORY Geography__c ABOVE France__c AND Product__c AT mobile_phones__c WITH SNIPPET (target_length=120) WITH HIGHLIGHT`,
+    output: {
+      searchTerm: '{tourism}',
+      returning: [
+        {
+          sObject: 'KnowledgeArticleVersion',
+          fields: [
+            { type: 'Field', field: 'Id' },
+            { type: 'Field', field: 'Title' },
+          ],
+          where: {
+            left: {
+              field: 'PublishStatus',
+              operator: '=',
+              value: `'Online'`,
+              literalType: 'STRING',
+            },
+            operator: 'AND',
+            right: {
+              left: {
+                field: 'Language',
+                operator: '=',
+                value: `'en_US'`,
+                literalType: 'STRING',
+              },
+            },
+          },
+        },
+      ],
+      withDataCategory: {
+        conditions: [
+          {
+            groupName: 'Geography__c',
+            selector: 'ABOVE',
+            parameters: ['France__c'],
+          },
+          {
+            groupName: 'Product__c',
+            selector: 'AT',
+            parameters: ['mobile_phones__c'],
+          },
+        ],
+      },
+      withSnippet: {
+        targetLength: 120,
+      },
+      withHighlight: true,
+    },
+  },
+  {
+    testCase: 5,
+    sosl: `FIND {Cloud Kicks} IN NAME FIELDS RETURNING Account(Name), User(Id) WITH DIVISION = 'Global' WITH NETWORK IN ('NetworkId1', 'NetworkId2') WITH PricebookId = '01sxx0000002MffAAE' WITH METADATA = 'LABELS' WITH SPELL_CORRECTION = false LIMIT 200 UPDATE TRACKING`,
+    output: {
+      searchTerm: '{Cloud Kicks}',
+      searchGroup: 'NAME',
+      returning: [
+        {
+          sObject: 'Account',
+          fields: [{ type: 'Field', field: 'Name' }],
+        },
+        {
+          sObject: 'User',
+          fields: [{ type: 'Field', field: 'Id' }],
+        },
+      ],
+      withDivision: 'Global',
+      withNetwork: ['NetworkId1', 'NetworkId2'],
+      withPricebookId: '01sxx0000002MffAAE',
+      withMetadata: 'LABELS',
+      withSpellCorrection: false,
+      limit: 200,
+      update: 'TRACKING',
+    },
+  },
+  {
+    testCase: 6,
+    sosl: `FIND {Acme\\}*} IN EMAIL FIELDS RETURNING Contact(Id WHERE AccountId IN :accountIds LIMIT :pageSize) WITH NETWORK = 'NetworkId1' LIMIT :searchLimit`,
+    options: { allowApexBindVariables: true },
+    output: {
+      searchTerm: '{Acme\\}*}',
+      searchGroup: 'EMAIL',
+      returning: [
+        {
+          sObject: 'Contact',
+          fields: [{ type: 'Field', field: 'Id' }],
+          where: {
+            left: {
+              field: 'AccountId',
+              operator: 'IN',
+              value: 'accountIds',
+              literalType: 'APEX_BIND_VARIABLE',
+            },
+          },
+          limit: { type: 'ApexBindVariable', value: 'pageSize' },
+        },
+      ],
+      withNetwork: ['NetworkId1'],
+      limit: { type: 'ApexBindVariable', value: 'searchLimit' },
+    },
+  },
+  {
+    testCase: 7,
+    sosl: 'find {test} in phone fields returning Contact(Phone) with spell_correction = TRUE',
+    soslComposed: 'FIND {test} IN PHONE FIELDS RETURNING Contact(Phone) WITH SPELL_CORRECTION = true',
+    output: {
+      searchTerm: '{test}',
+      searchGroup: 'PHONE',
+      returning: [
+        {
+          sObject: 'Contact',
+          fields: [{ type: 'Field', field: 'Phone' }],
+        },
+      ],
+      withSpellCorrection: true,
+    },
+  },
+];
+export default testCases;
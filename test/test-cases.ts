@@ -89,7 +89,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Lead',
-      groupBy: { field: 'LeadSource' },
+      groupBy: [{ field: 'LeadSource' }],
     },
   },
   {
@@ -101,15 +101,13 @@ export const testCases: TestCase[] = [
         { type: 'FieldFunctionExpression', functionName: 'COUNT', rawValue: 'COUNT(Id)', isAggregateFn: true, parameters: ['Id'] },
       ],
       sObject: 'Account',
-      groupBy: {
-        field: 'Name',
-        having: {
-          left: {
-            operator: '>',
-            value: '1',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
-          },
+      groupBy: [{ field: 'Name' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '1',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
         },
       },
     },
@@ -372,7 +370,7 @@ export const testCases: TestCase[] = [
         operator: 'AND',
         right: { left: { field: 'LoginTime', operator: '<', value: '2010-09-21', literalType: 'DATE' } },
       },
-      groupBy: { field: 'UserId' },
+      groupBy: [{ field: 'UserId' }],
     },
   },
   {
@@ -406,15 +404,13 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Opportunity',
-      groupBy: {
-        field: 'CampaignId',
-        having: {
-          left: {
-            operator: '>',
-            value: '1',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Id, Name)', functionName: 'COUNT', parameters: ['Id', 'Name'] },
-          },
+      groupBy: [{ field: 'CampaignId' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '1',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Id, Name)', functionName: 'COUNT', parameters: ['Id', 'Name'] },
         },
       },
     },
@@ -435,7 +431,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Lead',
-      groupBy: { fn: { functionName: 'ROLLUP', parameters: ['LeadSource'], rawValue: 'ROLLUP(LeadSource)' } },
+      groupBy: [{ fn: { functionName: 'ROLLUP', parameters: ['LeadSource'], rawValue: 'ROLLUP(LeadSource)' } }],
     },
   },
   {
@@ -455,7 +451,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Lead',
-      groupBy: { fn: { functionName: 'ROLLUP', parameters: ['Status', 'LeadSource'], rawValue: 'ROLLUP(Status, LeadSource)' } },
+      groupBy: [{ fn: { functionName: 'ROLLUP', parameters: ['Status', 'LeadSource'], rawValue: 'ROLLUP(Status, LeadSource)' } }],
     },
   },
   {
@@ -492,7 +488,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Account',
-      groupBy: { fn: { rawValue: 'CUBE(Type, BillingCountry)', parameters: ['Type', 'BillingCountry'], functionName: 'CUBE' } },
+      groupBy: [{ fn: { rawValue: 'CUBE(Type, BillingCountry)', parameters: ['Type', 'BillingCountry'], functionName: 'CUBE' } }],
       orderBy: [
         { fn: { rawValue: 'GROUPING(Type)', functionName: 'GROUPING', parameters: ['Type'] } },
         { fn: { rawValue: 'GROUPING(Id, BillingCountry)', functionName: 'GROUPING', parameters: ['Id', 'BillingCountry'] } },
@@ -562,18 +558,16 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Lead',
-      groupBy: {
-        field: 'LeadSource',
-        having: {
-          left: {
-            operator: '>',
-            value: '100',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Name)', functionName: 'COUNT', parameters: ['Name'] },
-          },
-          operator: 'AND',
-          right: { left: { field: 'LeadSource', operator: '>', value: "'Phone'", literalType: 'STRING' } },
+      groupBy: [{ field: 'LeadSource' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '100',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Name)', functionName: 'COUNT', parameters: ['Name'] },
         },
+        operator: 'AND',
+        right: { left: { field: 'LeadSource', operator: '>', value: "'Phone'", literalType: 'STRING' } },
       },
     },
   },
@@ -1169,7 +1163,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Opportunity',
-      groupBy: { fn: { functionName: 'CALENDAR_YEAR', parameters: ['CreatedDate'], rawValue: 'CALENDAR_YEAR(CreatedDate)' } },
+      groupBy: [{ fn: { functionName: 'CALENDAR_YEAR', parameters: ['CreatedDate'], rawValue: 'CALENDAR_YEAR(CreatedDate)' } }],
     },
   },
   {
@@ -1202,13 +1196,15 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Opportunity',
-      groupBy: {
-        fn: {
-          functionName: 'CALENDAR_YEAR',
-          parameters: [{ functionName: 'convertTimezone', parameters: ['CreatedDate'], rawValue: 'convertTimezone(CreatedDate)' }],
-          rawValue: 'CALENDAR_YEAR(convertTimezone(CreatedDate))',
+      groupBy: [
+        {
+          fn: {
+            functionName: 'CALENDAR_YEAR',
+            parameters: [{ functionName: 'convertTimezone', parameters: ['CreatedDate'], rawValue: 'convertTimezone(CreatedDate)' }],
+            rawValue: 'CALENDAR_YEAR(convertTimezone(CreatedDate))',
+          },
         },
-      },
+      ],
     },
   },
   {
@@ -1352,7 +1348,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Lead',
-      groupBy: { fn: { functionName: 'ROLLUP', parameters: ['LeadSource', 'Rating'], rawValue: 'ROLLUP(LeadSource, Rating)' } },
+      groupBy: [{ fn: { functionName: 'ROLLUP', parameters: ['LeadSource', 'Rating'], rawValue: 'ROLLUP(LeadSource, Rating)' } }],
     },
   },
   {
@@ -1387,7 +1383,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Account',
-      groupBy: { fn: { functionName: 'CUBE', parameters: ['Type', 'BillingCountry'], rawValue: 'CUBE(Type, BillingCountry)' } },
+      groupBy: [{ fn: { functionName: 'CUBE', parameters: ['Type', 'BillingCountry'], rawValue: 'CUBE(Type, BillingCountry)' } }],
       orderBy: [
         { fn: { functionName: 'GROUPING', parameters: ['Type'], rawValue: 'GROUPING(Type)' } },
         { fn: { functionName: 'GROUPING', parameters: ['BillingCountry'], rawValue: 'GROUPING(BillingCountry)' } },
@@ -1422,13 +1418,15 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Opportunity',
-      groupBy: {
-        fn: {
-          functionName: 'HOUR_IN_DAY',
-          parameters: [{ functionName: 'convertTimezone', parameters: ['CreatedDate'], rawValue: 'convertTimezone(CreatedDate)' }],
-          rawValue: 'HOUR_IN_DAY(convertTimezone(CreatedDate))',
+      groupBy: [
+        {
+          fn: {
+            functionName: 'HOUR_IN_DAY',
+            parameters: [{ functionName: 'convertTimezone', parameters: ['CreatedDate'], rawValue: 'convertTimezone(CreatedDate)' }],
+            rawValue: 'HOUR_IN_DAY(convertTimezone(CreatedDate))',
+          },
         },
-      },
+      ],
     },
   },
   {
@@ -1477,34 +1475,32 @@ export const testCases: TestCase[] = [
         { type: 'FieldFunctionExpression', functionName: 'COUNT', rawValue: 'COUNT(Id)', isAggregateFn: true, parameters: ['Id'] },
       ],
       sObject: 'Account',
-      groupBy: {
-        field: 'Name',
-        having: {
+      groupBy: [{ field: 'Name' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '0',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+        },
+        operator: 'AND',
+        right: {
           left: {
-            operator: '>',
-            value: '0',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+            openParen: 1,
+            field: 'Name',
+            operator: 'LIKE',
+            value: `'%testing%'`,
+            literalType: 'STRING',
           },
-          operator: 'AND',
+          operator: 'OR',
           right: {
             left: {
-              openParen: 1,
+              closeParen: 1,
               field: 'Name',
               operator: 'LIKE',
-              value: `'%testing%'`,
+              value: `'%123%'`,
               literalType: 'STRING',
             },
-            operator: 'OR',
-            right: {
-              left: {
-                closeParen: 1,
-                field: 'Name',
-                operator: 'LIKE',
-                value: `'%123%'`,
-                literalType: 'STRING',
-              },
-            },
           },
         },
       },
@@ -1519,25 +1515,23 @@ export const testCases: TestCase[] = [
         { type: 'FieldFunctionExpression', functionName: 'COUNT', rawValue: 'COUNT(Id)', isAggregateFn: true, parameters: ['Id'] },
       ],
       sObject: 'Account',
-      groupBy: {
-        field: 'Name',
-        having: {
+      groupBy: [{ field: 'Name' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '0',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+        },
+        operator: 'AND',
+        right: {
           left: {
-            operator: '>',
-            value: '0',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
-          },
-          operator: 'AND',
-          right: {
-            left: {
-              openParen: 1,
-              closeParen: 1,
-              field: 'Name',
-              operator: 'IN',
-              value: [`'4/30 testing account'`, `'amendment quote doc testing'`, 'null'],
-              literalType: ['STRING', 'STRING', 'NULL'],
-            },
+            openParen: 1,
+            closeParen: 1,
+            field: 'Name',
+            operator: 'IN',
+            value: [`'4/30 testing account'`, `'amendment quote doc testing'`, 'null'],
+            literalType: ['STRING', 'STRING', 'NULL'],
           },
         },
       },
@@ -1552,26 +1546,24 @@ export const testCases: TestCase[] = [
         { type: 'FieldFunctionExpression', functionName: 'COUNT', rawValue: 'COUNT(Id)', isAggregateFn: true, parameters: ['Id'] },
       ],
       sObject: 'Account',
-      groupBy: {
-        field: 'Name',
-        having: {
+      groupBy: [{ field: 'Name' }],
+      having: {
+        left: {
+          operator: '>',
+          value: '0',
+          literalType: 'INTEGER',
+          fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+        },
+        operator: 'AND',
+        right: {
           left: {
-            operator: '>',
-            value: '0',
-            literalType: 'INTEGER',
-            fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
-          },
-          operator: 'AND',
-          right: {
-            left: {
-              openParen: 1,
-              closeParen: 1,
-              logicalPrefix: 'NOT',
-              field: 'Name',
-              operator: 'IN',
-              value: [`'4/30 testing account'`, `'amendment quote doc testing'`],
-              literalType: 'STRING',
-            },
+            openParen: 1,
+            closeParen: 1,
+            logicalPrefix: 'NOT',
+            field: 'Name',
+            operator: 'IN',
+            value: [`'4/30 testing account'`, `'amendment quote doc testing'`],
+            literalType: 'STRING',
           },
         },
       },
@@ -1699,7 +1691,7 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'Account',
-      groupBy: { field: ['BillingState', 'BillingStreet'] },
+      groupBy: [{ field: 'BillingState' }, { field: 'BillingStreet' }],
     },
   },
   {
@@ -1832,8 +1824,351 @@ export const testCases: TestCase[] = [
         },
       ],
       sObject: 'SBQQ__Quoteline__c',
-      groupBy: {
-        field: ['SBQQ__Quote__c', 'SBQQ__Product__r.Name'],
+      groupBy: [{ field: 'SBQQ__Quote__c' }, { field: 'SBQQ__Product__r.Name' }],
+    },
+  },
+  {
+    testCase: 100,
+    soql: `SELECT Id FROM Opportunity WHERE CALENDAR_YEAR(CreatedDate) = 2020`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Opportunity',
+      where: {
+        left: {
+          fn: {
+            functionName: 'CALENDAR_YEAR',
+            parameters: ['CreatedDate'],
+            rawValue: 'CALENDAR_YEAR(CreatedDate)',
+          },
+          operator: '=',
+          value: '2020',
+          literalType: 'INTEGER',
+        },
+      },
+    },
+  },
+  {
+    testCase: 101,
+    soql: `SELECT Id FROM Opportunity WHERE DAY_ONLY(CreatedDate) = TODAY AND (NOT CALENDAR_MONTH(convertTimezone(CloseDate)) IN (1, 2))`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Opportunity',
+      where: {
+        left: {
+          fn: {
+            functionName: 'DAY_ONLY',
+            parameters: ['CreatedDate'],
+            rawValue: 'DAY_ONLY(CreatedDate)',
+          },
+          operator: '=',
+          value: 'TODAY',
+          literalType: 'DATE_LITERAL',
+        },
+        operator: 'AND',
+        right: {
+          left: {
+            logicalPrefix: 'NOT',
+            fn: {
+              functionName: 'CALENDAR_MONTH',
+              parameters: [
+                {
+                  functionName: 'convertTimezone',
+                  parameters: ['CloseDate'],
+                  rawValue: 'convertTimezone(CloseDate)',
+                },
+              ],
+              rawValue: 'CALENDAR_MONTH(convertTimezone(CloseDate))',
+            },
+            operator: 'IN',
+            value: ['1', '2'],
+            literalType: 'INTEGER',
+            openParen: 1,
+            closeParen: 1,
+          },
+        },
+      },
+    },
+  },
+  {
+    testCase: 102,
+    soql: `SELECT CALENDAR_YEAR(CloseDate), StageName, COUNT(Id) FROM Opportunity GROUP BY CALENDAR_YEAR(CloseDate), StageName`,
+    output: {
+      fields: [
+        {
+          type: 'FieldFunctionExpression',
+          functionName: 'CALENDAR_YEAR',
+          parameters: ['CloseDate'],
+          rawValue: 'CALENDAR_YEAR(CloseDate)',
+        },
+        { type: 'Field', field: 'StageName' },
+        { type: 'FieldFunctionExpression', functionName: 'COUNT', parameters: ['Id'], isAggregateFn: true, rawValue: 'COUNT(Id)' },
+      ],
+      sObject: 'Opportunity',
+      groupBy: [
+        { fn: { functionName: 'CALENDAR_YEAR', parameters: ['CloseDate'], rawValue: 'CALENDAR_YEAR(CloseDate)' } },
+        { field: 'StageName' },
+      ],
+    },
+  },
+  {
+    testCase: 103,
+    soql: `SELECT Type, Industry, COUNT(Id) FROM Account GROUP BY ROLLUP(Type), Industry HAVING COUNT(Id) > 1`,
+    output: {
+      fields: [
+        { type: 'Field', field: 'Type' },
+        { type: 'Field', field: 'Industry' },
+        { type: 'FieldFunctionExpression', functionName: 'COUNT', parameters: ['Id'], isAggregateFn: true, rawValue: 'COUNT(Id)' },
+      ],
+      sObject: 'Account',
+      groupBy: [{ fn: { functionName: 'ROLLUP', parameters: ['Type'], rawValue: 'ROLLUP(Type)' } }, { field: 'Industry' }],
+      having: {
+        left: {
+          fn: { functionName: 'COUNT', parameters: ['Id'], rawValue: 'COUNT(Id)' },
+          operator: '>',
+          value: '1',
+          literalType: 'INTEGER',
+        },
+      },
+    },
+  },
+  {
+    testCase: 104,
+    soql: `SELECT FIELDS(STANDARD) FROM Account LIMIT 200`,
+    output: {
+      fields: [{ type: 'FieldFieldsFunction', scope: 'STANDARD', rawValue: 'FIELDS(STANDARD)' }],
+      sObject: 'Account',
+      limit: 200,
+    },
+  },
+  {
+    testCase: 105,
+    soql: `SELECT Id, FIELDS(ALL), (SELECT FIELDS(CUSTOM) FROM Contacts) FROM Account LIMIT 200`,
+    output: {
+      fields: [
+        { type: 'Field', field: 'Id' },
+        { type: 'FieldFieldsFunction', scope: 'ALL', rawValue: 'FIELDS(ALL)' },
+        {
+          type: 'FieldSubquery',
+          subquery: {
+            fields: [{ type: 'FieldFieldsFunction', scope: 'CUSTOM', rawValue: 'FIELDS(CUSTOM)' }],
+            relationshipName: 'Contacts',
+          },
+        },
+      ],
+      sObject: 'Account',
+      limit: 200,
+    },
+  },
+  {
+    testCase: 106,
+    soql: `SELECT Fields, All, Standard, Custom FROM Account USING SCOPE AllPrivate`,
+    output: {
+      fields: [
+        { type: 'Field', field: 'Fields' },
+        { type: 'Field', field: 'All' },
+        { type: 'Field', field: 'Standard' },
+        { type: 'Field', field: 'Custom' },
+      ],
+      sObject: 'Account',
+      usingScope: 'AllPrivate',
+    },
+  },
+  {
+    testCase: 107,
+    soql: `SELECT Id FROM Account WHERE Name = 'a' WITH USER_MODE ORDER BY Name LIMIT 5`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: { left: { field: 'Name', operator: '=', value: "'a'", literalType: 'STRING' } },
+      withAccessLevel: 'USER_MODE',
+      orderBy: { field: 'Name' },
+      limit: 5,
+    },
+  },
+  {
+    testCase: 108,
+    soql: `SELECT Id FROM Account WITH SYSTEM_MODE`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      withAccessLevel: 'SYSTEM_MODE',
+    },
+  },
+  {
+    testCase: 109,
+    soql: `SELECT Id FROM Account WITH RecordVisibilityContext (maxDescriptorPerRecord=100, supportsDomains=true, supportsDelegates=false)`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      withRecordVisibility: { maxDescriptorPerRecord: 100, supportsDomains: true, supportsDelegates: false },
+    },
+  },
+  {
+    testCase: 110,
+    soql: `SELECT Id FROM Account WHERE NOT (Name = 'a' OR Name = 'b') AND (Type = 'Customer' OR NOT (Industry = 'Energy'))`,
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Name', operator: '=', value: "'a'", literalType: 'STRING', openParen: 1, negatedParens: [0] },
+        operator: 'OR',
+        right: {
+          left: { field: 'Name', operator: '=', value: "'b'", literalType: 'STRING', closeParen: 1 },
+          operator: 'AND',
+          right: {
+            left: { field: 'Type', operator: '=', value: "'Customer'", literalType: 'STRING', openParen: 1 },
+            operator: 'OR',
+            right: {
+              left: {
+                field: 'Industry',
+                operator: '=',
+                value: "'Energy'",
+                literalType: 'STRING',
+                openParen: 1,
+                negatedParens: [0],
+                closeParen: 2,
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    testCase: 111,
+    soql: `SELECT Name, COUNT(Id) FROM Account GROUP BY Name HAVING NOT (COUNT(Id) > 1 AND COUNT(Id) < 10)`,
+    output: {
+      fields: [
+        { type: 'Field', field: 'Name' },
+        { type: 'FieldFunctionExpression', functionName: 'COUNT', rawValue: 'COUNT(Id)', isAggregateFn: true, parameters: ['Id'] },
+      ],
+      sObject: 'Account',
+      groupBy: [{ field: 'Name' }],
+      having: {
+        left: {
+          fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+          operator: '>',
+          value: '1',
+          literalType: 'INTEGER',
+          openParen: 1,
+          negatedParens: [0],
+        },
+        operator: 'AND',
+        right: {
+          left: {
+            fn: { rawValue: 'COUNT(Id)', functionName: 'COUNT', parameters: ['Id'] },
+            operator: '<',
+            value: '10',
+            literalType: 'INTEGER',
+            closeParen: 1,
+          },
+        },
+      },
+    },
+  },
+  {
+    testCase: 112,
+    soql: `SELECT Id FROM Account WHERE Id = :acc.Id AND Name IN :accountMap.keySet() AND Type = :types[0] AND Industry = :String.valueOf(x)`,
+    options: { allowApexBindVariables: true },
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Id', operator: '=', value: 'acc.Id', literalType: 'APEX_BIND_VARIABLE' },
+        operator: 'AND',
+        right: {
+          left: { field: 'Name', operator: 'IN', value: 'accountMap.keySet()', literalType: 'APEX_BIND_VARIABLE' },
+          operator: 'AND',
+          right: {
+            left: { field: 'Type', operator: '=', value: 'types[0]', literalType: 'APEX_BIND_VARIABLE' },
+            operator: 'AND',
+            right: {
+              left: { field: 'Industry', operator: '=', value: 'String.valueOf(x)', literalType: 'APEX_BIND_VARIABLE' },
+            },
+          },
+        },
+      },
+    },
+  },
+  {
+    testCase: 113,
+    soql: `SELECT Id FROM Account WHERE Id IN :new Set<Id>(ids) AND OwnerId IN :new Map<Id, List<User>>(users).keySet()`,
+    options: { allowApexBindVariables: true },
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Id', operator: 'IN', value: 'new Set<Id>(ids)', literalType: 'APEX_BIND_VARIABLE' },
+        operator: 'AND',
+        right: {
+          left: { field: 'OwnerId', operator: 'IN', value: 'new Map<Id, List<User>>(users).keySet()', literalType: 'APEX_BIND_VARIABLE' },
+        },
+      },
+    },
+  },
+  {
+    testCase: 114,
+    soql: `SELECT Id FROM Account WHERE Id IN (:accountId, :contact.AccountId) AND Name NOT IN (:names[0], 'Acme')`,
+    options: { allowApexBindVariables: true },
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      where: {
+        left: { field: 'Id', operator: 'IN', value: ['accountId', 'contact.AccountId'], literalType: 'APEX_BIND_VARIABLE' },
+        operator: 'AND',
+        right: {
+          left: { field: 'Name', operator: 'NOT IN', value: ['names[0]', "'Acme'"], literalType: ['APEX_BIND_VARIABLE', 'STRING'] },
+        },
+      },
+    },
+  },
+  {
+    testCase: 115,
+    soql: `SELECT Id FROM Account ORDER BY Name LIMIT :pageSize OFFSET :settings.Page_Offset__c`,
+    options: { allowApexBindVariables: true },
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Account',
+      orderBy: { field: 'Name' },
+      limit: { type: 'ApexBindVariable', value: 'pageSize' },
+      offset: { type: 'ApexBindVariable', value: 'settings.Page_Offset__c' },
+    },
+  },
+  {
+    testCase: 116,
+    soql: `SELECT Id FROM Warehouse__c WHERE DISTANCE(Location__c, :myLocation, 'mi') < 20 OR DISTANCE(Location__c, GEOLOCATION(:lat, :lng), 'km') < :maxDistance`,
+    options: { allowApexBindVariables: true },
+    output: {
+      fields: [{ type: 'Field', field: 'Id' }],
+      sObject: 'Warehouse__c',
+      where: {
+        left: {
+          fn: {
+            functionName: 'DISTANCE',
+            parameters: ['Location__c', ':myLocation', "'mi'"],
+            rawValue: `DISTANCE(Location__c, :myLocation, 'mi')`,
+          },
+          operator: '<',
+          value: '20',
+          literalType: 'INTEGER',
+        },
+        operator: 'OR',
+        right: {
+          left: {
+            fn: {
+              functionName: 'DISTANCE',
+              parameters: [
+                'Location__c',
+                { functionName: 'GEOLOCATION', parameters: [':lat', ':lng'], rawValue: 'GEOLOCATION(:lat, :lng)' },
+                "'km'",
+              ],
+              rawValue: `DISTANCE(Location__c, GEOLOCATION(:lat, :lng), 'km')`,
+            },
+            operator: '<',
+            value: 'maxDistance',
+            literalType: 'APEX_BIND_VARIABLE',
+          },
+        },
       },
     },
   },
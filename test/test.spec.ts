@@ -1,6 +1,19 @@
 import { expect } from 'chai';
 import 'mocha';
-import { parseQuery, WhereClause, Query, Compose, composeQuery, formatQuery } from '../src';
+import {
+  parseQuery,
+  WhereClause,
+  Query,
+  Compose,
+  composeQuery,
+  formatQuery,
+  Field,
+  FieldSubquery,
+  OrderByClause,
+  GroupByClause,
+  LegacyGroupByClause,
+  SourceLocation,
+} from '../src';
 import { isQueryValid } from '../src/parser/visitor';
 import testCases from './test-cases';
 import testCasesForFormat from './test-cases-for-format';
@@ -144,6 +157,106 @@ describe('validate queries', () => {
     });
 });
 
+describe('parse queries with legacyGroupBy', () => {
+  it('Should return a single function in the legacy shape', () => {
+    const query = parseQuery(`SELECT LeadSource, COUNT(Name) cnt FROM Lead GROUP BY ROLLUP(LeadSource)`, { legacyGroupBy: true });
+    expect(query.groupBy).to.deep.equal({ fn: { functionName: 'ROLLUP', parameters: ['LeadSource'], rawValue: 'ROLLUP(LeadSource)' } });
+  });
+  it('Should return fields and the having clause in the legacy shape', () => {
+    const soql = `SELECT Name, COUNT(Id) FROM Account GROUP BY Name, Type HAVING COUNT(Id) > 1`;
+    const query = parseQuery(soql, { legacyGroupBy: true });
+    expect(query.having).to.be.undefined;
+    expect(query.groupBy).to.deep.equal({
+      field: ['Name', 'Type'],
+      having: {
+        left: {
+          fn: { functionName: 'COUNT', parameters: ['Id'], rawValue: 'COUNT(Id)' },
+          operator: '>',
+          value: '1',
+          literalType: 'INTEGER',
+        },
+      },
+    });
+    expect(composeQuery(query)).to.equal(soql);
+  });
+  it('Should return functions as raw values when mixed with fields in the legacy shape', () => {
+    const soql = `SELECT CALENDAR_YEAR(CloseDate), StageName, COUNT(Id) FROM Opportunity GROUP BY CALENDAR_YEAR(CloseDate), StageName`;
+    const query = parseQuery(soql, { legacyGroupBy: true });
+    expect(query.groupBy).to.deep.equal({ field: ['CALENDAR_YEAR(CloseDate)', 'StageName'] });
+    expect(composeQuery(query)).to.equal(soql);
+  });
+  it('Should include the location of the legacy group by clause', () => {
+    const soql = `SELECT Name FROM Account GROUP BY Name, Type HAVING COUNT(Id) > 1`;
+    const query = parseQuery(soql, { legacyGroupBy: true, includeLocations: true });
+    const { loc } = query.groupBy as LegacyGroupByClause;
+    expect(soql.substring(loc.startOffset, loc.endOffset + 1)).to.equal('GROUP BY Name, Type');
+  });
+});
+
+describe('parse queries with locations', () => {
+  const soql = `SELECT Id, COUNT(Name) cnt, (SELECT Id FROM Contacts) FROM Account WHERE (Name = 'a' OR NOT Id = '1') GROUP BY Id HAVING COUNT(Name) > 1 ORDER BY Name DESC LIMIT 5`;
+  const getText = (loc: SourceLocation) => soql.substring(loc.startOffset, loc.endOffset + 1);
+
+  it('Should not include locations by default', () => {
+    const query = parseQuery(soql);
+    expect(query.loc).to.be.undefined;
+    expect(query.clauseLocations).to.be.undefined;
+    expect((query.fields[0] as Field).loc).to.be.undefined;
+    expect(query.where.left.loc).to.be.undefined;
+  });
+  it('Should include locations for fields', () => {
+    const query = parseQuery(soql, { includeLocations: true });
+    expect(getText(query.loc)).to.equal(soql);
+    expect(query.fields.map(field => getText((field as Field).loc))).to.deep.equal(['Id', 'COUNT(Name) cnt', '(SELECT Id FROM Contacts)']);
+    const subquery = (query.fields[2] as FieldSubquery).subquery;
+    expect(getText(subquery.loc)).to.equal('SELECT Id FROM Contacts');
+    expect(getText((subquery.fields[0] as Field).loc)).to.equal('Id');
+    expect((query.fields[0] as Field).loc).to.deep.equal({
+      startOffset: 7,
+      endOffset: 8,
+      startLine: 1,
+      startColumn: 8,
+      endLine: 1,
+      endColumn: 9,
+    });
+  });
+  it('Should include locations for conditions, group by and order by', () => {
+    const query = parseQuery(soql, { includeLocations: true });
+    expect(getText(query.where.left.loc)).to.equal(`Name = 'a'`);
+    expect(getText(query.where.right.left.loc)).to.equal(`NOT Id = '1'`);
+    expect(getText((query.groupBy as GroupByClause[])[0].loc)).to.equal(`Id`);
+    expect(getText(query.having.left.loc)).to.equal(`COUNT(Name) > 1`);
+    expect(getText(query.having.left.fn.loc)).to.equal(`COUNT(Name)`);
+    expect(getText((query.orderBy as OrderByClause).loc)).to.equal(`Name DESC`);
+  });
+  it('Should include locations for each clause', () => {
+    const query = parseQuery(soql, { includeLocations: true });
+    const { select, from, where, groupBy, having, orderBy, limit } = query.clauseLocations;
+    expect(getText(select)).to.equal(`SELECT Id, COUNT(Name) cnt, (SELECT Id FROM Contacts)`);
+    expect(getText(from)).to.equal(`FROM Account`);
+    expect(getText(where)).to.equal(`WHERE (Name = 'a' OR NOT Id = '1')`);
+    expect(getText(groupBy)).to.equal(`GROUP BY Id`);
+    expect(getText(having)).to.equal(`HAVING COUNT(Name) > 1`);
+    expect(getText(orderBy)).to.equal(`ORDER BY Name DESC`);
+    expect(getText(limit)).to.equal(`LIMIT 5`);
+  });
+  it('Should track lines and columns across multiple lines', () => {
+    const query = parseQuery(`SELECT Id\nFROM Account\nWHERE Name = 'a'`, { includeLocations: true });
+    expect(query.where.left.loc).to.deep.equal({
+      startOffset: 29,
+      endOffset: 38,
+      startLine: 3,
+      startColumn: 7,
+      endLine: 3,
+      endColumn: 16,
+    });
+  });
+  it('Should compose a query that includes locations', () => {
+    const query = parseQuery(soql, { includeLocations: true });
+    expect(composeQuery(query)).to.equal(soql);
+  });
+});
+
 describe('calls individual compose methods', () => {
   // TODO: add more tests
   // We have adequate coverage of overall queries, but these are public and should have adequate coverage individually